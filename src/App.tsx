@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import TimelineCanvas from './components/TimelineCanvas';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import TimelineCanvas, { TimelineCanvasHandle } from './components/TimelineCanvas';
 import ControlPanel from './components/ControlPanel';
 import Sidebar from './components/Sidebar';
 import RelationshipPopover from './components/RelationshipPopover';
@@ -8,11 +8,65 @@ import Toast from './components/Toast';
 import ProgressOverlay from './components/ProgressOverlay';
 import SettingsDialog from './components/SettingsDialog';
 import Legend from './components/Legend';
-import { HistoricalFigure, DeepDiveData, IAIService, RelationshipExplanation, FigureCategory } from './types';
+import ImportTimelineDialog from './components/ImportTimelineDialog';
+import ExportImageDialog, { ImageExportOptions } from './components/ExportImageDialog';
+import PrintView from './components/PrintView';
+import CsvImportDialog from './components/CsvImportDialog';
+import FigureEditorDialog, { FigureDraft } from './components/FigureEditorDialog';
+import EntityReviewDialog from './components/EntityReviewDialog';
+import { HistoricalFigure, DeepDiveData, IAIService, RelationshipExplanation, FigureCategory, LayoutData, FactCheck } from './types';
 import { GeminiService } from './services/geminiService';
-import { OpenRouterService } from './services/openRouterService';
-
-import { fetchBatchFigureDetails } from './services/wikiService';
+import { createAIService } from './services/aiServiceFactory';
+import { KEYLESS_PROVIDERS, PROVIDER_LABELS } from './constants';
+
+import { fetchBatchFigureDetails, clearFigureDetails, fetchCanonicalTitles } from './services/wikiService';
+import { MergeCandidate, mergeDuplicateFigure, resolveEntities, resolveFigureBatch } from './services/entityResolution';
+import { WikidataFactChecker, applyFactCheck, widenRangeForCorrections } from './services/factCheckService';
+import { createFigureId } from './services/csvImport';
+import {
+    TimelineProjectMeta,
+    ensureActiveProject,
+    listProjects,
+    loadProject,
+    saveProject,
+    createProject,
+    createEmptyProjectData,
+    renameProject,
+    duplicateProject,
+    deleteProject,
+    setActiveProjectId as persistActiveProjectId,
+    clearProjectCaches,
+    clearFigureCaches,
+    serializeRelationships,
+    deserializeRelationships,
+    getDeepDiveCacheKey,
+    getRelationshipCacheKey,
+    migrateLocalStorageData
+} from './services/projectStorage';
+import { cacheGet, cachePut } from './services/cacheStore';
+import { isAbortError } from './services/utils';
+import { subscribeToUsage } from './services/usageTracker';
+import {
+    TimelineDocument,
+    TimelineDocumentParseResult,
+    createTimelineDocument,
+    parseTimelineDocument,
+    mergeTimelineDocument,
+    importTimelineDocumentCaches
+} from './services/timelineDocument';
+import {
+    TimelineHistory,
+    TimelineSnapshot,
+    createTimelineHistory,
+    recordHistoryEntry,
+    travelHistory
+} from './services/timelineHistory';
+import { downloadFile, toFileSlug } from './utils/download';
+import { formatYear } from './utils/formatters';
+import { DeepLinkState, encodeDeepLink, parseDeepLink } from './utils/deepLink';
+import { rebaseViewState } from './utils/viewState';
+import { CENTURY_YEARS, YearRange, getNextCenturyChunk } from './utils/centuries';
+import { getMaxPixelRatio, getTimelineContentBounds, rasterizeSvg, renderTimelineSvg, TracedRelationships } from './utils/timelineSvg';
 import { useEnvironment } from './contexts/EnvironmentContext';
 
 export interface RelationshipData {
@@ -21,6 +75,19 @@ export interface RelationshipData {
     targetDetail: { description: string; imageUrl: string | null } | undefined;
 }
 
+interface PendingExtension {
+    slices: { start: number; end: number }[];
+    // Restored if the fetch fails
+    previous: { config: { start: number; end: number }; figures: HistoricalFigure[]; relationships: Map<string, Set<string>>; discoveredIds: Set<string> };
+    // The trimmed timeline the fetched entries are merged into
+    figures: HistoricalFigure[];
+    relationships: Map<string, Set<string>>;
+    discoveredIds: Set<string>;
+}
+
+// AI work that can be in flight side by side; a new request of a kind cancels the previous one
+type RequestKind = 'build' | 'century' | 'relationships' | 'discovery' | 'popover';
+
 const App: React.FC = () => {
     const [config, setConfig] = useState({ start: 600, end: 1600 });
     const [figures, setFigures] = useState<HistoricalFigure[]>([]);
@@ -31,6 +98,7 @@ const App: React.FC = () => {
     const [selectedFigures, setSelectedFigures] = useState<HistoricalFigure[]>([]);
     const [highlightedFigureIds, setHighlightedFigureIds] = useState<string[]>([]);
     const [currentSearchIndex, setCurrentSearchIndex] = useState(0);
+    const [searchQuery, setSearchQuery] = useState('');
     const [isSearchFocusActive, setIsSearchFocusActive] = useState(false);
 
     const [figureLevels, setFigureLevels] = useState<Map<string, number>>(new Map());
@@ -50,6 +118,11 @@ const App: React.FC = () => {
 
     // Settings State
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isExportImageOpen, setIsExportImageOpen] = useState(false);
+    // Layout captured from the canvas when print mode opens; null while closed
+    const [printLayoutData, setPrintLayoutData] = useState<LayoutData[] | null>(null);
+
+    const canvasRef = useRef<TimelineCanvasHandle>(null);
 
     const { getEffectiveConfig } = useEnvironment();
 
@@ -60,6 +133,53 @@ const App: React.FC = () => {
     const [selectedCategories, setSelectedCategories] = useState<Set<FigureCategory>>(new Set());
 
     const [knownRelationships, setKnownRelationships] = useState<Map<string, Set<string>>>(new Map());
+    const [discoveredFigureIds, setDiscoveredFigureIds] = useState<Set<string>>(new Set());
+
+    // Project State
+    const [activeProjectId, setActiveProjectId] = useState<string>(() => ensureActiveProject().id);
+    const [projects, setProjects] = useState<TimelineProjectMeta[]>(() => listProjects());
+    const [importResult, setImportResult] = useState<TimelineDocumentParseResult | null>(null);
+    const [csvImport, setCsvImport] = useState<{ fileName: string; contents: string } | null>(null);
+    // The figure being edited by hand; `figure` is null when adding a new entry
+    const [figureEditor, setFigureEditor] = useState<{ figure: HistoricalFigure | null } | null>(null);
+
+    // Undo/redo stack over the active project's timeline state
+    const [history, setHistory] = useState<TimelineHistory>(createTimelineHistory);
+
+    // A shared link waiting for timeline data that covers its range
+    const [pendingDeepLink, setPendingDeepLink] = useState<DeepLinkState | null>(() => parseDeepLink(window.location.hash));
+    const hasShownDeepLinkNoticeRef = useRef(false);
+    // The link last applied, so re-runs of the apply effect never apply the same link twice
+    const appliedDeepLinkRef = useRef<DeepLinkState | null>(null);
+
+    // Set when a build only needs to fetch the slices a widened range added
+    const pendingExtensionRef = useRef<PendingExtension | null>(null);
+
+    // In-flight AI requests, aborted when superseded, when the timeline is rebuilt or another project is opened
+    const requestControllersRef = useRef(new Map<RequestKind, AbortController>());
+
+    // Lazy loading of the centuries the view pans into
+    const [visibleYears, setVisibleYears] = useState<YearRange | null>(null);
+    const [loadingCentury, setLoadingCentury] = useState<YearRange | null>(null);
+    const [loadedCentury, setLoadedCentury] = useState<{
+        range: YearRange;
+        projectId: string;
+        figures: HistoricalFigure[];
+        canonicalTitles: Map<string, string>;
+    } | null>(null);
+    const failedCenturiesRef = useRef<Set<number>>(new Set());
+
+    // Possible duplicates from AI batches, awaiting review
+    const [mergeCandidates, setMergeCandidates] = useState<MergeCandidate[]>([]);
+    const [isEntityReviewOpen, setIsEntityReviewOpen] = useState(false);
+
+    // Wikidata checks of AI-produced years, applied once they come back
+    const [factChecker] = useState(() => new WikidataFactChecker());
+    const [factCheckResults, setFactCheckResults] = useState<{
+        projectId: string;
+        checked: HistoricalFigure[];
+        results: Map<string, FactCheck>;
+    }[]>([]);
 
     const [relationshipState, setRelationshipState] = useState<{
         sourceY: number;
@@ -75,6 +195,8 @@ const App: React.FC = () => {
         source: HistoricalFigure | null;
         data: RelationshipData | DeepDiveData | null;
         loading: boolean;
+        // Set while a streamed answer is still arriving; `data` then holds what has arrived so far
+        isStreaming?: boolean;
         mode: 'relationship' | 'single';
     }>({
         isOpen: false,
@@ -90,75 +212,137 @@ const App: React.FC = () => {
 
 
     const [hasLoadedFromCache, setHasLoadedFromCache] = useState(false);
-
-    // Storage Keys
-    const TIMELINE_DATA_KEY = 'chrono_timeline_data';
-    const TIMELINE_CONFIG_KEY = 'chrono_timeline_config';
+    // Project loads are async; only the most recently requested one may apply its data
+    const loadingProjectIdRef = useRef<string | null>(null);
+    // Set while saves are failing, so a run of failed saves is reported once
+    const hasSaveFailedRef = useRef(false);
 
     const initializeService = (showFeedback = false) => {
         const config = getEffectiveConfig();
+        const providerLabel = PROVIDER_LABELS[config.provider] || PROVIDER_LABELS['gemini'];
 
-        if (config.provider === 'openrouter') {
-            if (config.apiKey) {
-                setAiService(new OpenRouterService(config.apiKey, config.model));
-                if (showFeedback) setToast({ message: "Switched to OpenRouter", type: "info" });
-            } else {
-                // Fallback if key is missing even in env (shouldn't happen if env is set, but good for safety)
-                if (showFeedback) setToast({ message: "OpenRouter API key missing.", type: "error" });
-            }
-        } else {
-            // Default to Gemini
-            setAiService(new GeminiService(config.apiKey, config.model));
-            if (showFeedback) setToast({ message: "Switched to Google Gemini", type: "success" });
+        // Gemini reports a missing key on first use; OpenRouter needs one up front
+        const requiresKeyUpFront = config.provider === 'openrouter';
+
+        if (requiresKeyUpFront && !config.apiKey) {
+            // Fallback if key is missing even in env (shouldn't happen if env is set, but good for safety)
+            if (showFeedback) setToast({ message: `${providerLabel} API key missing.`, type: "error" });
+            return;
         }
-    };
 
-    const hasValidApiKey = (): boolean => {
-        const config = getEffectiveConfig();
-        return !!config.apiKey;
+        setAiService(createAIService(config.provider, config.apiKey, config.model, config.baseUrl));
+        if (showFeedback) setToast({ message: `Switched to ${providerLabel}`, type: config.provider === 'gemini' ? "success" : "info" });
     };
 
-    const loadTimelineFromCache = useCallback(() => {
-        try {
-            const cachedData = localStorage.getItem(TIMELINE_DATA_KEY);
-            const cachedConfig = localStorage.getItem(TIMELINE_CONFIG_KEY);
-
-            if (cachedData && cachedConfig) {
-                const parsedData: HistoricalFigure[] = JSON.parse(cachedData);
-                const parsedConfig: { start: number; end: number } = JSON.parse(cachedConfig);
-
-                if (Array.isArray(parsedData) && parsedData.length > 0) {
-                    setFigures(parsedData);
-                    setConfig(parsedConfig);
-                    setHasLoadedFromCache(true);
-                    return true;
-                }
-            }
-        } catch (e) {
-            console.error("Failed to load timeline from cache", e);
+    const hasValidApiKey = useCallback((): boolean => {
+        const config = getEffectiveConfig();
+        return !!config.apiKey || KEYLESS_PROVIDERS.includes(config.provider);
+    }, [getEffectiveConfig]);
+
+    /**
+     * Loads a project into timeline state. Resolves to true if it had figures to show,
+     * or null if another project was opened while this one was loading.
+     */
+    const loadTimelineFromCache = useCallback(async (projectId: string) => {
+        loadingProjectIdRef.current = projectId;
+        const project = await loadProject(projectId) || createEmptyProjectData();
+        if (loadingProjectIdRef.current !== projectId) return null;
+
+        setFigures(project.figures);
+        setConfig(project.config);
+        setKnownRelationships(deserializeRelationships(project.knownRelationships));
+        setDiscoveredFigureIds(new Set(project.discoveredFigureIds));
+
+        if (project.figures.length > 0) {
+            setHasLoadedFromCache(true);
+            return true;
         }
         return false;
     }, []);
 
-    const saveTimelineToCache = useCallback((customConfig: { start: number, end: number }, data: HistoricalFigure[]) => {
-        try {
-            localStorage.setItem(TIMELINE_DATA_KEY, JSON.stringify(data));
-            localStorage.setItem(TIMELINE_CONFIG_KEY, JSON.stringify(customConfig));
-        } catch (e) {
-            console.error("Failed to save timeline to cache", e);
-        }
+    const saveTimelineToCache = useCallback((
+        customConfig: { start: number, end: number },
+        data: HistoricalFigure[],
+        relationships: Map<string, Set<string>>,
+        discoveredIds: Set<string>
+    ) => {
+        saveProject(activeProjectId, {
+            config: customConfig,
+            figures: data,
+            knownRelationships: serializeRelationships(relationships),
+            discoveredFigureIds: Array.from(discoveredIds)
+        })
+            .then(updatedProjects => {
+                hasSaveFailedRef.current = false;
+                setProjects(updatedProjects);
+            })
+            .catch(error => {
+                console.error("Failed to save timeline", error);
+                if (hasSaveFailedRef.current) return;
+                hasSaveFailedRef.current = true;
+                setToast({ message: "Failed to save the timeline. Recent changes may be lost on reload.", type: 'error' });
+            });
+    }, [activeProjectId]);
+
+    const getTimelineSnapshot = (): TimelineSnapshot => ({
+        config,
+        figures,
+        knownRelationships,
+        discoveredFigureIds,
+        selectedCategories
+    });
+
+    // The committed timeline, for effects and callbacks that must not re-run or go stale when it changes.
+    // Synced during commit so it is current before any effect runs.
+    const timelineRef = useRef<TimelineSnapshot>(getTimelineSnapshot());
+    useLayoutEffect(() => {
+        timelineRef.current = getTimelineSnapshot();
+    });
+
+    /** Aborts the previous request of this kind and returns the signal for the new one */
+    const startRequest = useCallback((kind: RequestKind): AbortSignal => {
+        requestControllersRef.current.get(kind)?.abort();
+        const controller = new AbortController();
+        requestControllersRef.current.set(kind, controller);
+        return controller.signal;
     }, []);
 
+    /** Aborts in-flight requests of the given kinds, or of every kind */
+    const cancelRequests = useCallback((...kinds: RequestKind[]) => {
+        const controllers = requestControllersRef.current;
+        (kinds.length > 0 ? kinds : Array.from(controllers.keys())).forEach(kind => {
+            controllers.get(kind)?.abort();
+            controllers.delete(kind);
+        });
+    }, []);
+
+    /** Records an undoable operation. Call it before applying the change. */
+    const recordHistory = useCallback((label: string) => {
+        setHistory(prev => recordHistoryEntry(prev, label, timelineRef.current));
+    }, []);
+
+    // Calls refused by a spending cap fail quietly inside the services; say why nothing arrives
+    useEffect(() => subscribeToUsage(event => {
+        if (event.type === 'blocked') setToast({ message: `${event.message}. Change it in Settings.`, type: 'error' });
+    }), []);
+
     useEffect(() => {
         initializeService(false);
 
-        // Attempt to load from cache first
-        const loadedFromCache = loadTimelineFromCache();
+        const loadInitialProject = async () => {
+            // Data older versions kept in localStorage has to be in IndexedDB before the first load
+            await migrateLocalStorageData();
 
-        // Only auto-build timeline if NOT loaded from cache and we have a valid API key
-        if (!loadedFromCache && hasValidApiKey()) {
-            buildTimeline(600, 1600);
-        }
+            // Attempt to load the active project first
+            const loadedFromCache = await loadTimelineFromCache(activeProjectId);
+
+            // Only auto-build timeline if NOT loaded from cache and we have a valid API key.
+            // A shared link picks the period to build.
+            if (loadedFromCache === false && hasValidApiKey()) {
+                buildTimeline(pendingDeepLink?.start ?? 600, pendingDeepLink?.end ?? 1600);
+            }
+        };
+        loadInitialProject();
     }, [loadTimelineFromCache]);
 
     const handleSettingsSaved = () => {
@@ -176,14 +360,8 @@ const App: React.FC = () => {
     // Modified buildTimeline to be just a trigger, not the fetcher itself (fetcher is in effect)
     // But actually, the original code had the fetcher in a separate useEffect reacting to 'loading' state.
     // We will keep that pattern but ensure saving happens there.
-    const buildTimeline = useCallback(async (start: number, end: number) => {
-        if (start === config.start && end === config.end && figures.length > 0) {
-            setToast({ message: "Timeline already includes data for this period.", type: "info" });
-            return;
-        }
-
-        setLoading(true);
-        setConfig({ start, end });
+    /** Clears selection, search, discovery and popover state when the timeline contents are replaced */
+    const resetTimelineViewState = useCallback(() => {
         setSelectedYear(null);
         setSelectedFigures([]);
         setRelationshipState(null);
@@ -193,25 +371,101 @@ const App: React.FC = () => {
         setNewlyDiscoveredIds(new Set());
         setDiscoverySourceId(null);
         setKnownRelationships(new Map());
+        setDiscoveredFigureIds(new Set());
         setPopoverState(prev => ({ ...prev, isOpen: false }));
         setIsSidebarCollapsed(false);
         setSelectedCategories(new Set());
         setIsLegendOpen(false);
-    }, [config, figures]);
+    }, []);
+
+    const buildTimeline = useCallback(async (start: number, end: number) => {
+        if (start === config.start && end === config.end && figures.length > 0) {
+            setToast({ message: "Timeline already includes data for this period.", type: "info" });
+            return;
+        }
+
+        // Whatever was still loading belongs to the old range
+        cancelRequests();
+
+        // An overlapping range keeps what we have and only fetches the uncovered slices
+        if (figures.length > 0 && start < config.end && end > config.start) {
+            const slices: { start: number; end: number }[] = [];
+            if (start < config.start) slices.push({ start, end: config.start });
+            if (end > config.end) slices.push({ start: config.end, end });
+
+            // Entries entirely outside a narrowed range are dropped
+            const keptFigures = figures.filter(f => f.deathYear >= start && f.birthYear <= end);
+            const keptIds = new Set(keptFigures.map(f => f.id));
+            const keptRelationships = new Map<string, Set<string>>();
+            knownRelationships.forEach((relatedIds, sourceId) => {
+                if (keptIds.has(sourceId)) {
+                    keptRelationships.set(sourceId, new Set([...relatedIds].filter(id => keptIds.has(id))));
+                }
+            });
+            const keptDiscoveredIds = new Set([...discoveredFigureIds].filter(id => keptIds.has(id)));
+
+            recordHistory(`${slices.length > 0 ? 'Extend' : 'Trim'} to ${formatYear(start)} – ${formatYear(end)}`);
+
+            setSelectedYear(null);
+            setSelectedFigures([]);
+            setRelationshipState(null);
+            setHighlightedFigureIds(prev => prev.filter(id => keptIds.has(id)));
+            setCurrentSearchIndex(0);
+            setFigures(keptFigures);
+            setKnownRelationships(keptRelationships);
+            setDiscoveredFigureIds(keptDiscoveredIds);
+            setConfig({ start, end });
+            canvasRef.current?.rebaseStartYear(config.start, start);
+
+            if (slices.length === 0) {
+                saveTimelineToCache({ start, end }, keptFigures, keptRelationships, keptDiscoveredIds);
+                return;
+            }
+
+            pendingExtensionRef.current = {
+                slices,
+                previous: { config, figures, relationships: knownRelationships, discoveredIds: discoveredFigureIds },
+                figures: keptFigures,
+                relationships: keptRelationships,
+                discoveredIds: keptDiscoveredIds
+            };
+            setLoading(true);
+            return;
+        }
+
+        // The very first build has nothing worth returning to
+        if (figures.length > 0) {
+            recordHistory(`Rebuild ${formatYear(start)} – ${formatYear(end)}`);
+        }
+
+        pendingExtensionRef.current = null;
+        setLoading(true);
+        setConfig({ start, end });
+        resetTimelineViewState();
+    }, [config, figures, knownRelationships, discoveredFigureIds, selectedCategories, resetTimelineViewState, saveTimelineToCache, cancelRequests]);
 
     useEffect(() => {
         let isMounted = true;
         if (loading) {
+            const extension = pendingExtensionRef.current;
+            const signal = startRequest('build');
+
             const performBuild = async () => {
                 try {
-                    const data = await aiService.fetchHistoricalFigures(config.start, config.end);
+                    const data = await aiService.fetchHistoricalFigures(config.start, config.end, { signal });
+                    // Century chunks overlap in who they mention
+                    const resolution = await resolveFigureBatch([], data);
                     if (isMounted) {
-                        setFigures(data);
+                        setFigures(resolution.figures);
+                        setMergeCandidates(resolution.candidates);
                         setLoading(false);
-                        // Save to cache on successful build
-                        saveTimelineToCache(config, data);
+                        // Save to the active project on successful build
+                        saveTimelineToCache(config, resolution.figures, new Map(), new Set());
+                        checkFigureDates(resolution.figures);
                     }
                 } catch (error) {
+                    // Cancelled by a newer build or by opening another project
+                    if (isAbortError(error)) return;
                     console.error("Failed to fetch figures", error);
                     if (isMounted) {
                         setToast({ message: "Failed to load timeline data.", type: "error" });
@@ -219,10 +473,174 @@ const App: React.FC = () => {
                     }
                 }
             };
-            performBuild();
+
+            const performExtension = async (pending: PendingExtension) => {
+                try {
+                    // Slices go one after another; each is chunked by the service like a full build
+                    const fetched: HistoricalFigure[] = [];
+                    for (const slice of pending.slices) {
+                        fetched.push(...await aiService.fetchHistoricalFigures(slice.start, slice.end, { signal }));
+                    }
+                    const resolution = await resolveFigureBatch(pending.figures, fetched);
+                    if (!isMounted) return;
+
+                    const newFigures = resolution.added;
+                    const updatedFigures = resolution.figures;
+
+                    pendingExtensionRef.current = null;
+                    setFigures(updatedFigures);
+                    setMergeCandidates(prev => [...prev, ...resolution.candidates]);
+                    setLoading(false);
+                    saveTimelineToCache(config, updatedFigures, pending.relationships, pending.discoveredIds);
+                    checkFigureDates(newFigures);
+
+                    const sliceLabels = pending.slices.map(s => `${formatYear(s.start)} – ${formatYear(s.end)}`).join(' and ');
+                    setToast({ message: `Added ${newFigures.length} entries for ${sliceLabels}`, type: newFigures.length > 0 ? 'success' : 'info' });
+                } catch (error) {
+                    if (isAbortError(error)) return;
+                    console.error("Failed to extend timeline", error);
+                    if (isMounted) {
+                        // Put back the range and entries from before the extension
+                        pendingExtensionRef.current = null;
+                        canvasRef.current?.rebaseStartYear(config.start, pending.previous.config.start);
+                        setConfig(pending.previous.config);
+                        setFigures(pending.previous.figures);
+                        setKnownRelationships(pending.previous.relationships);
+                        setDiscoveredFigureIds(pending.previous.discoveredIds);
+                        setToast({ message: "Failed to load timeline data.", type: "error" });
+                        setLoading(false);
+                    }
+                }
+            };
+
+            if (extension) {
+                performExtension(extension);
+            } else {
+                performBuild();
+            }
         }
         return () => { isMounted = false; };
-    }, [loading, aiService, config, saveTimelineToCache]);
+    }, [loading, aiService, config, saveTimelineToCache, startRequest]);
+
+    // Runs in the background; a failed check just leaves the entries without a badge
+    const checkFigureDates = useCallback((figuresToCheck: HistoricalFigure[]) => {
+        if (figuresToCheck.length === 0) return;
+        const projectId = activeProjectId;
+        factChecker.checkFigures(figuresToCheck)
+            .then(results => setFactCheckResults(prev => [...prev, { projectId, checked: figuresToCheck, results }]))
+            .catch(error => console.warn("Wikidata fact check failed", error));
+    }, [factChecker, activeProjectId]);
+
+    useEffect(() => {
+        if (factCheckResults.length === 0) return;
+        setFactCheckResults([]);
+
+        const { config, figures, knownRelationships, discoveredFigureIds } = timelineRef.current;
+
+        const checkedById = new Map<string, HistoricalFigure>();
+        factCheckResults
+            .filter(batch => batch.projectId === activeProjectId)
+            .forEach(batch => {
+                const checkedYears = new Map<string, HistoricalFigure>(batch.checked.map(f => [f.id, f]));
+                figures.forEach(figure => {
+                    const factCheck = batch.results.get(figure.id);
+                    const before = checkedYears.get(figure.id);
+                    // Skip entries whose years were edited while the check ran
+                    if (!factCheck || !before || before.birthYear !== figure.birthYear || before.deathYear !== figure.deathYear) return;
+                    checkedById.set(figure.id, applyFactCheck(figure, factCheck));
+                });
+            });
+        if (checkedById.size === 0) return;
+
+        const updatedFigures = figures.map(f => checkedById.get(f.id) || f);
+        const corrected = Array.from(checkedById.values()).filter(f => f.factCheck?.status === 'corrected');
+        const newConfig = widenRangeForCorrections(config, corrected);
+
+        const isRangeWidened = newConfig.start !== config.start || newConfig.end !== config.end;
+
+        // Badges alone are not worth an undo step; changed years and a widened range are
+        if (corrected.length > 0) {
+            recordHistory(`Correct dates of ${corrected.length} ${corrected.length === 1 ? 'entry' : 'entries'} from Wikidata`);
+        }
+        canvasRef.current?.rebaseStartYear(config.start, newConfig.start);
+        setConfig(newConfig);
+        setFigures(updatedFigures);
+        setSelectedFigures(prev => prev.map(f => checkedById.get(f.id) || f));
+        setRelationshipState(prev => prev && checkedById.has(prev.sourceFigure.id)
+            ? { ...prev, sourceFigure: checkedById.get(prev.sourceFigure.id)! }
+            : prev);
+        setPopoverState(prev => ({
+            ...prev,
+            target: prev.target ? { ...prev.target, ...checkedById.get(prev.target.id), imageUrl: prev.target.imageUrl } : prev.target,
+            source: prev.source ? { ...prev.source, ...checkedById.get(prev.source.id), imageUrl: prev.source.imageUrl } : prev.source
+        }));
+        saveTimelineToCache(newConfig, updatedFigures, knownRelationships, discoveredFigureIds);
+
+        if (corrected.length > 0) {
+            const names = corrected.slice(0, 3).map(f => f.name).join(', ');
+            const widened = isRangeWidened ? `. Range widened to ${formatYear(newConfig.start)} – ${formatYear(newConfig.end)}` : '';
+            setToast({
+                message: `Corrected dates of ${corrected.length} ${corrected.length === 1 ? 'entry' : 'entries'} using Wikidata: ${names}${corrected.length > 3 ? '…' : ''}${widened}. Undo to revert.`,
+                type: 'info'
+            });
+        }
+    }, [factCheckResults, activeProjectId, recordHistory, saveTimelineToCache]);
+
+    const handleVisibleYearsChange = useCallback((fromYear: number, toYear: number) => {
+        setVisibleYears({ start: fromYear, end: toYear });
+    }, []);
+
+    // Fetch the next century when the view reaches past the loaded range, one at a time
+    useEffect(() => {
+        if (!visibleYears || loadingCentury || loading || isDiscovering || figures.length === 0 || !hasValidApiKey()) return;
+
+        const chunk = getNextCenturyChunk(visibleYears, { start: config.start, end: config.end }, failedCenturiesRef.current);
+        if (!chunk) return;
+
+        const projectId = activeProjectId;
+        setLoadingCentury(chunk);
+        aiService.fetchCenturyChunk(chunk.start, chunk.end, { signal: startRequest('century') })
+            .then(async chunkFigures => {
+                const canonicalTitles = await fetchCanonicalTitles([...timelineRef.current.figures, ...chunkFigures].map(f => f.name));
+                setLoadedCentury({ range: chunk, projectId, figures: chunkFigures, canonicalTitles });
+            })
+            .catch(error => {
+                if (isAbortError(error)) {
+                    setLoadingCentury(null);
+                    return;
+                }
+                console.error(`Failed to load ${chunk.start}-${chunk.end}`, error);
+                // Don't retry this century until the project is reopened
+                failedCenturiesRef.current.add(chunk.start);
+                setLoadingCentury(null);
+                setToast({ message: `Failed to load ${formatYear(chunk.start)} – ${formatYear(chunk.end)}.`, type: 'error' });
+            });
+    }, [visibleYears, loadingCentury, loading, isDiscovering, figures.length, config.start, config.end, aiService, activeProjectId, startRequest, hasValidApiKey]);
+
+    // Merge a loaded century into the timeline and widen the range to include it
+    useEffect(() => {
+        if (!loadedCentury) return;
+        const { range, projectId, figures: chunkFigures, canonicalTitles } = loadedCentury;
+        setLoadedCentury(null);
+        setLoadingCentury(null);
+
+        const { config, figures, knownRelationships, discoveredFigureIds } = timelineRef.current;
+        // Drop results that no longer fit: another project was opened or the range was rebuilt meanwhile
+        const adjoinsRange = range.end === config.start || range.start === config.end;
+        if (projectId !== activeProjectId || !adjoinsRange || loading || figures.length === 0) return;
+
+        // Resolved here rather than when the fetch finished, against the figures as they are now
+        const resolution = resolveEntities(figures, chunkFigures, canonicalTitles);
+        const updatedFigures = resolution.figures;
+        const newConfig = { start: Math.min(config.start, range.start), end: Math.max(config.end, range.end) };
+
+        canvasRef.current?.rebaseStartYear(config.start, newConfig.start);
+        setConfig(newConfig);
+        setFigures(updatedFigures);
+        setMergeCandidates(prev => [...prev, ...resolution.candidates]);
+        saveTimelineToCache(newConfig, updatedFigures, knownRelationships, discoveredFigureIds);
+        checkFigureDates(resolution.added);
+    }, [loadedCentury, activeProjectId, loading, saveTimelineToCache, checkFigureDates]);
 
 
     const handleYearClick = (year: number, sortedFigures: HistoricalFigure[]) => {
@@ -242,8 +660,9 @@ const App: React.FC = () => {
             setIsTracing(true);
         }
 
+        const signal = startRequest('relationships');
         try {
-            const aiRelatedIds = await aiService.fetchRelatedFigures(figure, currentFigures);
+            const aiRelatedIds = await aiService.fetchRelatedFigures(figure, currentFigures, { signal });
             const knownIds = knownRelationships.get(figure.id) || new Set();
             const uniqueRelatedIds = Array.from(new Set([
                 ...aiRelatedIds,
@@ -264,6 +683,7 @@ const App: React.FC = () => {
             });
 
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error("Failed to trace relationships", error);
             setToast({ message: "Failed to trace connections.", type: "error" });
         } finally {
@@ -287,23 +707,26 @@ const App: React.FC = () => {
         setCurrentSearchIndex(0);
         setIsSearchFocusActive(true);
 
+        const signal = startRequest('discovery');
         try {
             const existingNames = figures.map(f => f.name);
-            const newFigures = await aiService.discoverRelatedFigures(sourceFigure, existingNames, config.start, config.end);
+            const newFigures = await aiService.discoverRelatedFigures(sourceFigure, existingNames, config.start, config.end, { signal });
 
-            const uniqueNewFigures = newFigures.filter(nf =>
-                !figures.some(ef => ef.id === nf.id || ef.name.toLowerCase() === nf.name.toLowerCase())
-            );
+            const resolution = await resolveFigureBatch(figures, newFigures);
+            // The timeline may have been rebuilt while the titles were looked up
+            if (signal.aborted) return;
+            const uniqueNewFigures = resolution.added;
 
-            let updatedFigures = figures;
-            let allRelatedIdsSet = new Set<string>(knownRelationships.get(sourceFigure.id) || []);
-            let newBatchIds: string[] = [];
+            const updatedFigures = resolution.figures;
+            const allRelatedIdsSet = new Set<string>(knownRelationships.get(sourceFigure.id) || []);
+            const newBatchIds = uniqueNewFigures.map(f => f.id);
 
-            if (uniqueNewFigures.length > 0) {
-                updatedFigures = [...figures, ...uniqueNewFigures];
-                newBatchIds = uniqueNewFigures.map(f => f.id);
+            // Discoveries that resolved to entries already on the timeline are still connections
+            resolution.idMap.forEach(id => {
+                if (id !== sourceFigure.id) allRelatedIdsSet.add(id);
+            });
 
-                newBatchIds.forEach(id => allRelatedIdsSet.add(id));
+            if (uniqueNewFigures.length > 0) {
 
                 const namesList = uniqueNewFigures.map(f => f.name).join(", ");
                 setToast({
@@ -321,15 +744,19 @@ const App: React.FC = () => {
             const detailsMap = await fetchBatchFigureDetails([sourceFigure]);
             const sourceDetails = detailsMap.get(sourceFigure.id);
 
+            const updatedRelationships = new Map(knownRelationships);
+            updatedRelationships.set(sourceFigure.id, allRelatedIdsSet);
+            const updatedDiscoveredIds = new Set([...discoveredFigureIds, ...newBatchIds]);
+
+            recordHistory(`Expand ${sourceFigure.name}`);
             setFigures(updatedFigures);
-            setKnownRelationships(prev => {
-                const next = new Map(prev);
-                next.set(sourceFigure.id, allRelatedIdsSet);
-                return next;
-            });
+            setKnownRelationships(updatedRelationships);
+            setDiscoveredFigureIds(updatedDiscoveredIds);
+            setMergeCandidates(prev => [...prev, ...resolution.candidates]);
 
-            // Save new discovery to cache
-            saveTimelineToCache(config, updatedFigures);
+            // Save new discovery to the active project
+            saveTimelineToCache(config, updatedFigures, updatedRelationships, updatedDiscoveredIds);
+            checkFigureDates(uniqueNewFigures);
 
             setNewlyDiscoveredIds(new Set(newBatchIds));
 
@@ -351,6 +778,7 @@ const App: React.FC = () => {
             setSelectedFigures(sidebarList);
 
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error(error);
             setToast({ message: "Failed to discover connections.", type: "error" });
         } finally {
@@ -372,29 +800,37 @@ const App: React.FC = () => {
             mode: 'relationship'
         });
 
-        const cacheKey = `chrono_rel_${sourceFigure.id}_${targetFigure.id}`;
-        const cached = localStorage.getItem(cacheKey);
+        const signal = startRequest('popover');
+        const cacheKey = getRelationshipCacheKey(activeProjectId, sourceFigure.id, targetFigure.id);
+        const cached = await cacheGet('relationships', cacheKey) as RelationshipData | null;
+        // Another popover was opened, or this one closed, while the cache was read
+        if (signal.aborted) return;
 
         if (cached) {
-            try {
-                const parsedData = JSON.parse(cached);
-                setPopoverState({
-                    isOpen: true,
-                    target: targetFigure,
-                    source: sourceFigure,
-                    data: parsedData,
-                    loading: false,
-                    mode: 'relationship'
-                });
-                return;
-            } catch (e) {
-                localStorage.removeItem(cacheKey);
-            }
+            setPopoverState({
+                isOpen: true,
+                target: targetFigure,
+                source: sourceFigure,
+                data: cached,
+                loading: false,
+                mode: 'relationship'
+            });
+            return;
         }
 
+        const onPartial = (explanation: RelationshipExplanation) => {
+            if (signal.aborted) return;
+            setPopoverState(prev => ({
+                ...prev,
+                data: { ...(prev.data as RelationshipData | null), explanation },
+                loading: false,
+                isStreaming: true
+            }));
+        };
+
         try {
             const [explanation, detailsMap] = await Promise.all([
-                aiService.fetchRelationshipExplanation(sourceFigure, targetFigure),
+                aiService.fetchRelationshipExplanation(sourceFigure, targetFigure, { signal, onPartial }),
                 fetchBatchFigureDetails([sourceFigure, targetFigure])
             ]);
 
@@ -404,7 +840,7 @@ const App: React.FC = () => {
                 targetDetail: detailsMap.get(targetFigure.id)
             };
 
-            localStorage.setItem(cacheKey, JSON.stringify(combinedData));
+            cachePut('relationships', cacheKey, combinedData);
 
             setPopoverState({
                 isOpen: true,
@@ -415,8 +851,9 @@ const App: React.FC = () => {
                 mode: 'relationship'
             });
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error("Error loading relationship data", error);
-            setPopoverState(prev => ({ ...prev, loading: false }));
+            setPopoverState(prev => ({ ...prev, loading: false, isStreaming: false }));
         }
     };
 
@@ -430,29 +867,31 @@ const App: React.FC = () => {
             mode: 'single'
         });
 
-        const cacheKey = `chrono_deepdive_${figure.id}`;
-        const cached = localStorage.getItem(cacheKey);
+        const signal = startRequest('popover');
+        const cacheKey = getDeepDiveCacheKey(activeProjectId, figure.id);
+        const cached = await cacheGet('deepDives', cacheKey) as DeepDiveData | null;
+        if (signal.aborted) return;
 
         if (cached) {
-            try {
-                const parsed = JSON.parse(cached);
-                setPopoverState({
-                    isOpen: true,
-                    target: figure,
-                    source: null,
-                    data: parsed,
-                    loading: false,
-                    mode: 'single'
-                });
-                return;
-            } catch (e) {
-                localStorage.removeItem(cacheKey);
-            }
+            setPopoverState({
+                isOpen: true,
+                target: figure,
+                source: null,
+                data: cached,
+                loading: false,
+                mode: 'single'
+            });
+            return;
         }
 
+        const onPartial = (deepDive: DeepDiveData) => {
+            if (signal.aborted) return;
+            setPopoverState(prev => ({ ...prev, data: deepDive, loading: false, isStreaming: true }));
+        };
+
         try {
             const [deepDiveData, detailsMap] = await Promise.all([
-                aiService.fetchFigureDeepDive(figure),
+                aiService.fetchFigureDeepDive(figure, { signal, onPartial }),
                 fetchBatchFigureDetails([figure])
             ]);
 
@@ -462,7 +901,7 @@ const App: React.FC = () => {
                     figure.imageUrl = detail.imageUrl;
                 }
 
-                localStorage.setItem(cacheKey, JSON.stringify(deepDiveData));
+                cachePut('deepDives', cacheKey, deepDiveData);
 
                 setPopoverState({
                     isOpen: true,
@@ -472,13 +911,495 @@ const App: React.FC = () => {
                     loading: false,
                     mode: 'single'
                 });
+            } else {
+                // The stream broke off; keep whatever text arrived, without the writing indicator
+                setPopoverState(prev => ({ ...prev, isStreaming: false }));
             }
         } catch (error) {
+            if (isAbortError(error)) return;
             console.error("Error inspecting figure", error);
-            setPopoverState(prev => ({ ...prev, loading: false }));
+            setPopoverState(prev => ({ ...prev, loading: false, isStreaming: false }));
+        }
+    };
+
+    const openProject = (projectId: string) => {
+        // Nothing still loading for the previous project is wanted anymore
+        cancelRequests();
+        pendingExtensionRef.current = null;
+        setLoading(false);
+        persistActiveProjectId(projectId);
+        setActiveProjectId(projectId);
+        resetTimelineViewState();
+        loadTimelineFromCache(projectId);
+        setHistory(createTimelineHistory());
+        failedCenturiesRef.current = new Set();
+        setMergeCandidates([]);
+    };
+
+    const handleSwitchProject = (projectId: string) => {
+        if (projectId === activeProjectId) return;
+        openProject(projectId);
+        const project = projects.find(p => p.id === projectId);
+        if (project) setToast({ message: `Opened "${project.name}"`, type: 'info' });
+    };
+
+    const handleCreateProject = async (name: string) => {
+        try {
+            // New timelines start empty over the current range; "Weave History" fills them
+            const project = await createProject(name, createEmptyProjectData(config));
+            setProjects(listProjects());
+            openProject(project.id);
+            setToast({ message: `Created "${project.name}"`, type: 'success' });
+        } catch (error) {
+            console.error("Failed to create timeline", error);
+            setToast({ message: "Failed to create timeline.", type: 'error' });
+        }
+    };
+
+    const handleRenameProject = (projectId: string, name: string) => {
+        setProjects(renameProject(projectId, name));
+    };
+
+    const handleDuplicateProject = async (projectId: string) => {
+        const copy = await duplicateProject(projectId).catch(error => {
+            console.error("Failed to duplicate timeline", error);
+            return null;
+        });
+        if (!copy) {
+            setToast({ message: "Failed to duplicate timeline.", type: 'error' });
+            return;
+        }
+        setProjects(listProjects());
+        openProject(copy.id);
+        setToast({ message: `Created "${copy.name}"`, type: 'success' });
+    };
+
+    const handleDeleteProject = async (projectId: string) => {
+        try {
+            const remaining = await deleteProject(projectId);
+
+            if (projectId === activeProjectId) {
+                // Always keep at least one project to work in
+                const next = remaining[0] || await createProject('My Timeline', createEmptyProjectData(config));
+                openProject(next.id);
+            }
+        } catch (error) {
+            console.error("Failed to delete timeline", error);
+            setToast({ message: "Failed to delete timeline.", type: 'error' });
+        }
+        setProjects(listProjects());
+    };
+
+    const handleExportProject = async () => {
+        const project = projects.find(p => p.id === activeProjectId);
+        let timelineDocument: TimelineDocument;
+        try {
+            timelineDocument = await createTimelineDocument(
+                activeProjectId,
+                project?.name || 'Timeline',
+                {
+                    config,
+                    figures,
+                    knownRelationships: serializeRelationships(knownRelationships),
+                    discoveredFigureIds: Array.from(discoveredFigureIds)
+                },
+                Array.from(selectedCategories)
+            );
+        } catch (error) {
+            console.error("Failed to export timeline", error);
+            setToast({ message: "Failed to export timeline.", type: 'error' });
+            return;
+        }
+
+        downloadFile(
+            `${toFileSlug(timelineDocument.name)}.chronoweave.json`,
+            JSON.stringify(timelineDocument, null, 2),
+            'application/json'
+        );
+        setToast({ message: `Exported "${timelineDocument.name}"`, type: 'success' });
+    };
+
+    const handleImportProject = (fileContents: string) => {
+        setImportResult(parseTimelineDocument(fileContents));
+    };
+
+    const handleConfirmImport = async (mode: 'merge' | 'replace') => {
+        if (!importResult?.success) return;
+        const timelineDocument = importResult.document;
+
+        recordHistory(`${mode === 'replace' ? 'Replace with' : 'Merge'} "${timelineDocument.name}"`);
+        setImportResult(null);
+
+        if (mode === 'replace') {
+            const relationships = deserializeRelationships(timelineDocument.knownRelationships);
+            const discoveredIds = new Set(timelineDocument.discoveredFigureIds);
+
+            resetTimelineViewState();
+            setConfig(timelineDocument.config);
+            setFigures(timelineDocument.figures);
+            setKnownRelationships(relationships);
+            setDiscoveredFigureIds(discoveredIds);
+            setSelectedCategories(new Set(timelineDocument.selectedCategories));
+            saveTimelineToCache(timelineDocument.config, timelineDocument.figures, relationships, discoveredIds);
+
+            setToast({ message: `Imported "${timelineDocument.name}" (${timelineDocument.figures.length} entries)`, type: 'success' });
+
+            // The document's payloads are written once the old ones are gone
+            try {
+                if (!await clearProjectCaches(activeProjectId)) throw new Error("Cached write-ups could not be cleared");
+                await importTimelineDocumentCaches(activeProjectId, timelineDocument, undefined, true);
+            } catch (error) {
+                console.error("Failed to import cached write-ups", error);
+                setToast({ message: `Imported "${timelineDocument.name}", but its saved write-ups could not be stored.`, type: 'error' });
+            }
+        } else {
+            const { data, idMap, addedCount } = mergeTimelineDocument({
+                config,
+                figures,
+                knownRelationships: serializeRelationships(knownRelationships),
+                discoveredFigureIds: Array.from(discoveredFigureIds)
+            }, timelineDocument);
+            importTimelineDocumentCaches(activeProjectId, timelineDocument, idMap);
+
+            const relationships = deserializeRelationships(data.knownRelationships);
+            const discoveredIds = new Set(data.discoveredFigureIds);
+
+            canvasRef.current?.rebaseStartYear(config.start, data.config.start);
+            setConfig(data.config);
+            setFigures(data.figures);
+            setKnownRelationships(relationships);
+            setDiscoveredFigureIds(discoveredIds);
+            saveTimelineToCache(data.config, data.figures, relationships, discoveredIds);
+
+            setToast({ message: `Merged "${timelineDocument.name}": ${addedCount} new entries`, type: 'success' });
+        }
+    };
+
+    const handleImportCsvFigures = async (importedFigures: HistoricalFigure[], mode: 'merge' | 'replace') => {
+        // Same entity resolution as AI results: rows naming an entry already on the timeline fill in its details
+        const resolution = await resolveFigureBatch(mode === 'replace' ? [] : figures, importedFigures);
+        const addedFigures = resolution.added;
+
+        // Replacing with nothing would leave no years to build the range from
+        if (mode === 'replace' && resolution.figures.length === 0) {
+            setToast({ message: "The file has no entries to import.", type: 'error' });
+            return;
+        }
+
+        recordHistory(`Import ${importedFigures.length} entries from ${csvImport?.fileName || 'spreadsheet'}`);
+
+        if (mode === 'replace') {
+            const minYear = Math.min(...resolution.figures.map(f => f.birthYear));
+            const maxYear = Math.max(...resolution.figures.map(f => f.deathYear));
+            const newConfig = { start: minYear, end: Math.max(maxYear, minYear + 1) };
+            clearProjectCaches(activeProjectId);
+            resetTimelineViewState();
+            setConfig(newConfig);
+            setFigures(resolution.figures);
+            setMergeCandidates(resolution.candidates);
+            saveTimelineToCache(newConfig, resolution.figures, new Map(), new Set());
+            setToast({ message: `Imported ${resolution.figures.length} entries`, type: 'success' });
+        } else {
+            const updatedFigures = resolution.figures;
+            const newConfig = addedFigures.length > 0
+                ? {
+                    start: Math.min(config.start, ...addedFigures.map(f => f.birthYear)),
+                    end: Math.max(config.end, ...addedFigures.map(f => f.deathYear))
+                }
+                : config;
+
+            canvasRef.current?.rebaseStartYear(config.start, newConfig.start);
+            setConfig(newConfig);
+            setFigures(updatedFigures);
+            setMergeCandidates(prev => [...prev, ...resolution.candidates]);
+            saveTimelineToCache(newConfig, updatedFigures, knownRelationships, discoveredFigureIds);
+            setToast({
+                message: `Imported ${addedFigures.length} entries${resolution.mergedCount > 0 ? ` (${resolution.mergedCount} merged into entries already on the timeline)` : ''}`,
+                type: addedFigures.length > 0 ? 'success' : 'info'
+            });
+        }
+
+        setCsvImport(null);
+    };
+
+    const handleSaveFigure = (draft: FigureDraft) => {
+        const editedFigure = figureEditor?.figure;
+        let savedFigure: HistoricalFigure;
+        let updatedFigures: HistoricalFigure[];
+
+        if (editedFigure) {
+            savedFigure = { ...editedFigure, ...draft };
+            // A renamed entry needs its portrait looked up again
+            if (draft.name !== editedFigure.name) savedFigure.imageUrl = undefined;
+            // Years set by hand are the user's call, not Wikidata's
+            if (draft.birthYear !== editedFigure.birthYear || draft.deathYear !== editedFigure.deathYear) savedFigure.factCheck = undefined;
+            updatedFigures = figures.map(f => f.id === savedFigure.id ? savedFigure : f);
+
+            // Cached AI write-ups describe the old entry
+            clearFigureCaches(activeProjectId, savedFigure.id, figures.map(f => f.id));
+            clearFigureDetails(savedFigure.id);
+
+            setSelectedFigures(prev => prev.map(f => f.id === savedFigure.id ? savedFigure : f));
+            setRelationshipState(prev => prev && prev.sourceFigure.id === savedFigure.id
+                ? { ...prev, sourceFigure: savedFigure }
+                : prev);
+        } else {
+            savedFigure = {
+                ...draft,
+                id: createFigureId(draft.name, draft.birthYear, new Set(figures.map(f => f.id)))
+            };
+            updatedFigures = [...figures, savedFigure];
+        }
+
+        const newConfig = {
+            start: Math.min(config.start, savedFigure.birthYear),
+            end: Math.max(config.end, savedFigure.deathYear)
+        };
+
+        recordHistory(editedFigure ? `Edit ${editedFigure.name}` : `Add ${savedFigure.name}`);
+        canvasRef.current?.rebaseStartYear(config.start, newConfig.start);
+        setConfig(newConfig);
+        setFigures(updatedFigures);
+        saveTimelineToCache(newConfig, updatedFigures, knownRelationships, discoveredFigureIds);
+        setFigureEditor(null);
+        setToast({ message: editedFigure ? `Updated "${savedFigure.name}"` : `Added "${savedFigure.name}"`, type: 'success' });
+    };
+
+    const handleDeleteFigure = (figure: HistoricalFigure) => {
+        const updatedFigures = figures.filter(f => f.id !== figure.id);
+
+        const updatedRelationships = new Map<string, Set<string>>();
+        knownRelationships.forEach((relatedIds, sourceId) => {
+            if (sourceId === figure.id) return;
+            updatedRelationships.set(sourceId, new Set([...relatedIds].filter(id => id !== figure.id)));
+        });
+        const updatedDiscoveredIds = new Set(discoveredFigureIds);
+        updatedDiscoveredIds.delete(figure.id);
+
+        clearFigureCaches(activeProjectId, figure.id, figures.map(f => f.id));
+        clearFigureDetails(figure.id);
+
+        recordHistory(`Delete ${figure.name}`);
+        setFigures(updatedFigures);
+        setKnownRelationships(updatedRelationships);
+        setDiscoveredFigureIds(updatedDiscoveredIds);
+        setSelectedFigures(prev => prev.filter(f => f.id !== figure.id));
+        setHighlightedFigureIds(prev => prev.filter(id => id !== figure.id));
+        setCurrentSearchIndex(0);
+        setRelationshipState(prev => {
+            if (!prev || prev.sourceFigure.id === figure.id) return null;
+            return { ...prev, relatedIds: prev.relatedIds.filter(id => id !== figure.id) };
+        });
+        if (popoverState.target?.id === figure.id || popoverState.source?.id === figure.id) {
+            setPopoverState(prev => ({ ...prev, isOpen: false }));
+        }
+
+        saveTimelineToCache(config, updatedFigures, updatedRelationships, updatedDiscoveredIds);
+        setFigureEditor(null);
+        setToast({ message: `Deleted "${figure.name}"`, type: 'info' });
+    };
+
+    // Candidates whose entries are both still on the timeline
+    const openMergeCandidates = useMemo(() => {
+        const ids = new Set(figures.map(f => f.id));
+        return mergeCandidates.filter(c => ids.has(c.keepId) && ids.has(c.duplicateId));
+    }, [mergeCandidates, figures]);
+
+    const handleMergeDuplicate = (candidate: MergeCandidate) => {
+        const result = mergeDuplicateFigure(
+            { figures, knownRelationships, discoveredFigureIds },
+            candidate.keepId,
+            candidate.duplicateId
+        );
+        if (!result) return;
+        const { merged } = result;
+        const duplicate = figures.find(f => f.id === candidate.duplicateId);
+
+        clearFigureCaches(activeProjectId, candidate.duplicateId, figures.map(f => f.id));
+        clearFigureDetails(candidate.duplicateId);
+
+        recordHistory(`Merge ${duplicate?.name || 'duplicate'} into ${merged.name}`);
+        setFigures(result.figures);
+        setKnownRelationships(result.knownRelationships);
+        setDiscoveredFigureIds(result.discoveredFigureIds);
+        setMergeCandidates(prev => prev.filter(c => c.id !== candidate.id));
+
+        const replaceDuplicate = (f: HistoricalFigure) => f.id === candidate.duplicateId || f.id === merged.id ? merged : f;
+        setSelectedFigures(prev => prev.map(replaceDuplicate).filter((f, index, list) => list.indexOf(f) === index));
+        setHighlightedFigureIds(prev => prev.filter(id => id !== candidate.duplicateId));
+        setCurrentSearchIndex(0);
+        setRelationshipState(prev => {
+            if (!prev || prev.sourceFigure.id === candidate.duplicateId) return null;
+            return { ...prev, relatedIds: prev.relatedIds.filter(id => id !== candidate.duplicateId) };
+        });
+        if (popoverState.target?.id === candidate.duplicateId || popoverState.source?.id === candidate.duplicateId) {
+            setPopoverState(prev => ({ ...prev, isOpen: false }));
+        }
+
+        saveTimelineToCache(config, result.figures, result.knownRelationships, result.discoveredFigureIds);
+        setToast({ message: `Merged into "${merged.name}"`, type: 'success' });
+    };
+
+    const handleKeepBothDuplicates = (candidate: MergeCandidate) => {
+        setMergeCandidates(prev => prev.filter(c => c.id !== candidate.id));
+    };
+
+    // The traced relationship on screen, drawn into exported images and prints too
+    const tracedRelationships = useMemo<TracedRelationships | null>(() =>
+        relationshipState
+            ? { sourceId: relationshipState.sourceFigure.id, relatedIds: relationshipState.relatedIds }
+            : null,
+    [relationshipState]);
+
+    const handleExportImage = async ({ scope, format, pixelRatio }: ImageExportOptions) => {
+        const snapshot = canvasRef.current?.getExportSnapshot();
+        if (!snapshot) return;
+
+        const { viewState } = snapshot;
+        const region = scope === 'view'
+            ? {
+                x: -viewState.translateX / viewState.scale,
+                y: -viewState.translateY / viewState.scale,
+                width: snapshot.viewportWidth / viewState.scale,
+                height: snapshot.viewportHeight / viewState.scale
+            }
+            : getTimelineContentBounds(snapshot.layoutData, config.start, config.end);
+
+        const { svg, width, height } = renderTimelineSvg({
+            layoutData: snapshot.layoutData,
+            startYear: config.start,
+            region,
+            // The view export matches what is on screen; the full timeline is drawn at 1:1
+            scale: scope === 'view' ? viewState.scale : 1,
+            selectedCategories,
+            relationships: tracedRelationships
+        });
+
+        const project = projects.find(p => p.id === activeProjectId);
+        const fileStem = `${toFileSlug(project?.name || 'timeline')}-${scope === 'view' ? 'view' : 'full'}`;
+
+        if (format === 'svg') {
+            downloadFile(`${fileStem}.svg`, svg, 'image/svg+xml');
+            setToast({ message: "Exported SVG image", type: 'success' });
+            return;
+        }
+
+        try {
+            const png = await rasterizeSvg(svg, width, height, pixelRatio);
+            downloadFile(`${fileStem}.png`, png, 'image/png');
+
+            const maxRatio = getMaxPixelRatio(width, height);
+            setToast(pixelRatio > maxRatio
+                ? { message: `Exported PNG at ${maxRatio.toFixed(2)}x (largest size the browser supports)`, type: 'info' }
+                : { message: "Exported PNG image", type: 'success' });
+        } catch (error) {
+            console.error("Failed to export PNG", error);
+            setToast({ message: "Failed to export PNG image.", type: 'error' });
+        }
+    };
+
+    const handleOpenPrint = () => {
+        const snapshot = canvasRef.current?.getExportSnapshot();
+        if (snapshot) setPrintLayoutData(snapshot.layoutData);
+    };
+
+    const handleClosePrint = useCallback(() => setPrintLayoutData(null), []);
+
+    const handleCopyLink = async () => {
+        const snapshot = canvasRef.current?.getExportSnapshot();
+        // The figure the user is looking at: an open biography, a traced source or the focused search hit
+        const figureId = (popoverState.isOpen && popoverState.mode === 'single' ? popoverState.target?.id : null)
+            || relationshipState?.sourceFigure.id
+            || focusedFigureId;
+
+        const hash = encodeDeepLink({
+            start: config.start,
+            end: config.end,
+            view: snapshot?.viewState || null,
+            selectedYear,
+            figureId: figureId || null,
+            categories: Array.from(selectedCategories),
+            query: searchQuery.trim()
+        });
+        window.history.replaceState(null, '', `#${hash}`);
+
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            setToast({ message: "Link copied to clipboard", type: 'success' });
+        } catch {
+            setToast({ message: "Link is in the address bar; copy it from there", type: 'info' });
         }
     };
 
+    const findSearchMatches = useCallback((query: string): string[] => {
+        const lowerQuery = query.toLowerCase();
+        return figures
+            .filter(f => f.name.toLowerCase().includes(lowerQuery))
+            .sort((a, b) => a.birthYear - b.birthYear)
+            .map(f => f.id);
+    }, [figures]);
+
+    /** Restores the view, selection, filters and search encoded in a shared link */
+    const applyDeepLink = useCallback((link: DeepLinkState) => {
+        const figureId = link.figureId && figures.some(f => f.id === link.figureId) ? link.figureId : null;
+        const matches = link.query ? findSearchMatches(link.query) : [];
+        const highlighted = matches.length > 0 ? matches : (figureId ? [figureId] : []);
+
+        setSelectedCategories(new Set(link.categories));
+        setSearchQuery(link.query);
+        setHighlightedFigureIds(highlighted);
+        setCurrentSearchIndex(figureId ? Math.max(0, highlighted.indexOf(figureId)) : 0);
+        // Highlight without the search auto-zoom, which would override the shared view
+        setIsSearchFocusActive(false);
+        setRelationshipState(null);
+
+        if (link.selectedYear !== null) {
+            const year = link.selectedYear;
+            const activeFigures = figures
+                .filter(f => year >= f.birthYear && year <= f.deathYear)
+                .sort((a, b) => (figureLevels.get(a.id) ?? 0) - (figureLevels.get(b.id) ?? 0));
+            setSelectedYear(year);
+            setSelectedFigures(activeFigures);
+        } else {
+            setSelectedYear(null);
+            setSelectedFigures([]);
+        }
+
+        if (link.view) {
+            canvasRef.current?.setViewState(rebaseViewState(link.view, link.start, config.start));
+        }
+    }, [figures, figureLevels, config.start, findSearchMatches]);
+
+    // Open a link pasted into the current tab
+    useEffect(() => {
+        const handleHashChange = () => {
+            hasShownDeepLinkNoticeRef.current = false;
+            setPendingDeepLink(parseDeepLink(window.location.hash));
+        };
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    // Apply a pending link once the loaded timeline covers its range, e.g. after importing the shared export
+    useEffect(() => {
+        if (!pendingDeepLink || pendingDeepLink === appliedDeepLinkRef.current || loading || figures.length === 0) return;
+
+        if (pendingDeepLink.start < config.start || pendingDeepLink.end > config.end) {
+            if (!hasShownDeepLinkNoticeRef.current) {
+                hasShownDeepLinkNoticeRef.current = true;
+                setToast({
+                    message: `This link shows ${formatYear(pendingDeepLink.start)} – ${formatYear(pendingDeepLink.end)}. Import the shared timeline or weave that period to open it.`,
+                    type: 'info'
+                });
+            }
+            return;
+        }
+
+        appliedDeepLinkRef.current = pendingDeepLink;
+        applyDeepLink(pendingDeepLink);
+        setPendingDeepLink(null);
+    }, [pendingDeepLink, loading, figures.length, config.start, config.end, applyDeepLink]);
+
     const handleEmptyClick = () => {
         setRelationshipState(null);
         setSelectedFigures([]);
@@ -487,17 +1408,14 @@ const App: React.FC = () => {
     };
 
     const handleSearch = (query: string) => {
+        setSearchQuery(query);
         if (!query || query.trim() === '') {
             setHighlightedFigureIds([]);
             setCurrentSearchIndex(0);
             setIsSearchFocusActive(false);
             return;
         }
-        const lowerQuery = query.toLowerCase();
-        const matches = figures
-            .filter(f => f.name.toLowerCase().includes(lowerQuery))
-            .sort((a, b) => a.birthYear - b.birthYear)
-            .map(f => f.id);
+        const matches = findSearchMatches(query);
 
         setHighlightedFigureIds(matches);
         setCurrentSearchIndex(0);
@@ -522,19 +1440,77 @@ const App: React.FC = () => {
         }
     };
 
-    const toggleCategory = useCallback((category: FigureCategory) => {
-        setSelectedCategories(prev => {
-            const next = new Set(prev);
-            if (next.has(category)) {
-                next.delete(category);
-            } else {
-                next.add(category);
+    const toggleCategory = (category: FigureCategory) => {
+        const next = new Set(selectedCategories);
+        if (next.has(category)) {
+            next.delete(category);
+            recordHistory(`Remove ${category} filter`);
+        } else {
+            next.add(category);
+            recordHistory(`Add ${category} filter`);
+        }
+        setSelectedCategories(next);
+    };
+
+    const resetCategories = () => {
+        if (selectedCategories.size === 0) return;
+        recordHistory("Reset category filters");
+        setSelectedCategories(new Set());
+    };
+
+    /** Restores a history snapshot and persists it to the active project */
+    const restoreTimelineSnapshot = (snapshot: TimelineSnapshot) => {
+        const figuresById = new Map(snapshot.figures.map(f => [f.id, f]));
+
+        // Undoing a widened range keeps the view on the same years
+        canvasRef.current?.rebaseStartYear(config.start, snapshot.config.start);
+        setConfig(snapshot.config);
+        setFigures(snapshot.figures);
+        setKnownRelationships(snapshot.knownRelationships);
+        setDiscoveredFigureIds(snapshot.discoveredFigureIds);
+        setSelectedCategories(snapshot.selectedCategories);
+
+        // Drop selection and highlights that point at entries which no longer exist
+        setSelectedFigures(prev => prev.flatMap(f => figuresById.has(f.id) ? [figuresById.get(f.id)!] : []));
+        setHighlightedFigureIds(prev => prev.filter(id => figuresById.has(id)));
+        setCurrentSearchIndex(0);
+        setRelationshipState(null);
+        setNewlyDiscoveredIds(new Set());
+        setDiscoverySourceId(null);
+
+        saveTimelineToCache(snapshot.config, snapshot.figures, snapshot.knownRelationships, snapshot.discoveredFigureIds);
+    };
+
+    const handleTravelHistory = (steps: number) => {
+        if (isBusy) return;
+        const result = travelHistory(history, getTimelineSnapshot(), steps);
+        if (!result) return;
+        setHistory(result.history);
+        restoreTimelineSnapshot(result.snapshot);
+    };
+
+    // Undo: Ctrl/Cmd+Z. Redo: Ctrl/Cmd+Shift+Z or Ctrl+Y. Text fields keep their native undo.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z') {
+                e.preventDefault();
+                handleTravelHistory(e.shiftKey ? -1 : 1);
+            } else if (key === 'y' && !e.shiftKey) {
+                e.preventDefault();
+                handleTravelHistory(-1);
             }
-            return next;
-        });
-    }, []);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    });
 
     const closePopover = () => {
+        cancelRequests('popover');
         setPopoverState(prev => ({ ...prev, isOpen: false }));
     };
 
@@ -577,19 +1553,43 @@ const App: React.FC = () => {
                 onNextResult={handleNextSearchResult}
                 onPrevResult={handlePrevSearchResult}
                 onOpenSettings={() => setIsSettingsOpen(true)}
+                onOpenExportImage={() => setIsExportImageOpen(true)}
+                onOpenPrint={handleOpenPrint}
+                onCopyLink={handleCopyLink}
+                activeSearchQuery={searchQuery}
+                onAddFigure={() => setFigureEditor({ figure: null })}
+                onRepackLayout={() => canvasRef.current?.repackLayout()}
                 onToggleLegend={() => setIsLegendOpen(prev => !prev)}
                 isLegendOpen={isLegendOpen}
+                projects={projects}
+                activeProjectId={activeProjectId}
+                onSwitchProject={handleSwitchProject}
+                onCreateProject={handleCreateProject}
+                onRenameProject={handleRenameProject}
+                onDuplicateProject={handleDuplicateProject}
+                onDeleteProject={handleDeleteProject}
+                onExportProject={handleExportProject}
+                onImportProject={handleImportProject}
+                onImportCsv={(contents, fileName) => setCsvImport({ fileName, contents })}
+                history={history}
+                onUndo={() => handleTravelHistory(1)}
+                onRedo={() => handleTravelHistory(-1)}
+                onTravelHistory={handleTravelHistory}
+                duplicateCount={openMergeCandidates.length}
+                onReviewDuplicates={() => setIsEntityReviewOpen(true)}
             />
 
             <Legend
                 selectedCategories={selectedCategories}
                 onToggleCategory={toggleCategory}
+                onResetCategories={resetCategories}
                 isOpen={isLegendOpen}
                 onToggleOpen={() => setIsLegendOpen(prev => !prev)}
             />
 
             <div className="absolute inset-0 z-0">
                 <TimelineCanvas
+                    ref={canvasRef}
                     figures={figures}
                     startYear={config.start}
                     endYear={config.end}
@@ -607,6 +1607,7 @@ const App: React.FC = () => {
                     onDiscover={handleDiscover}
                     onTrace={(f, clientY) => handleTraceRelationships(f, clientY)}
                     onInspect={handleInspectFigure}
+                    onEdit={(f) => setFigureEditor({ figure: f })}
                     isDiscovering={isDiscovering}
                     onLayoutChange={setFigureLevels}
                     onCanvasInteraction={handleCanvasInteraction}
@@ -615,6 +1616,9 @@ const App: React.FC = () => {
                     hasSidebarSelection={activeSidebarFigures.length > 0}
                     selectedCategories={selectedCategories}
                     isLegendCollapsed={!isLegendOpen}
+                    onVisibleYearsChange={handleVisibleYearsChange}
+                    exploreMarginYears={CENTURY_YEARS}
+                    loadingRange={loadingCentury}
                 />
             </div>
 
@@ -636,6 +1640,7 @@ const App: React.FC = () => {
                 onTraceRelationships={(f, y) => handleTraceRelationships(f, y)}
                 onDiscover={handleDiscover}
                 onInspect={handleInspectFigure}
+                onEdit={(f) => setFigureEditor({ figure: f })}
                 activeTracingFigureId={relationshipState?.sourceFigure.id}
                 onUpdateSourceY={handleUpdateSourceY}
                 isCollapsed={isSidebarCollapsed}
@@ -651,6 +1656,7 @@ const App: React.FC = () => {
                 target={popoverState.target}
                 data={popoverState.data}
                 isLoading={popoverState.loading}
+                isStreaming={popoverState.isStreaming}
                 onClose={closePopover}
                 mode={popoverState.mode}
             />
@@ -662,6 +1668,57 @@ const App: React.FC = () => {
                 onShowToast={(msg: string, type: 'success' | 'info' | 'error') => setToast({ message: msg, type })}
             />
 
+            <ExportImageDialog
+                isOpen={isExportImageOpen}
+                onClose={() => setIsExportImageOpen(false)}
+                onExport={handleExportImage}
+            />
+
+            <PrintView
+                isOpen={printLayoutData !== null}
+                title={projects.find(p => p.id === activeProjectId)?.name || 'Timeline'}
+                layoutData={printLayoutData || []}
+                startYear={config.start}
+                endYear={config.end}
+                selectedCategories={selectedCategories}
+                relationships={tracedRelationships}
+                onClose={handleClosePrint}
+            />
+
+            <CsvImportDialog
+                fileName={csvImport?.fileName || ''}
+                fileContents={csvImport?.contents ?? null}
+                currentFigureCount={figures.length}
+                onImport={handleImportCsvFigures}
+                onClose={() => setCsvImport(null)}
+            />
+
+            <FigureEditorDialog
+                isOpen={figureEditor !== null}
+                figure={figureEditor?.figure || null}
+                existingFigures={figures}
+                onSave={handleSaveFigure}
+                onDelete={handleDeleteFigure}
+                onClose={() => setFigureEditor(null)}
+            />
+
+            <EntityReviewDialog
+                isOpen={isEntityReviewOpen}
+                candidates={openMergeCandidates}
+                figures={figures}
+                onMerge={handleMergeDuplicate}
+                onKeepBoth={handleKeepBothDuplicates}
+                onClose={() => setIsEntityReviewOpen(false)}
+            />
+
+            <ImportTimelineDialog
+                result={importResult}
+                currentFigureCount={figures.length}
+                onMerge={() => handleConfirmImport('merge')}
+                onReplace={() => handleConfirmImport('replace')}
+                onClose={() => setImportResult(null)}
+            />
+
             <Toast
                 message={toast?.message || null}
                 type={toast?.type}
@@ -7,6 +7,7 @@ interface ActionBarProps {
     onDiscover: (figure: HistoricalFigure) => void;
     onTrace: (figure: HistoricalFigure, clientY: number) => void;
     onInspect: (figure: HistoricalFigure) => void;
+    onEdit?: (figure: HistoricalFigure) => void;
     isDiscovering: boolean;
     style: React.CSSProperties;
     onMouseEnter: () => void;
@@ -18,6 +19,7 @@ const ActionBar: React.FC<ActionBarProps> = ({
     onDiscover,
     onTrace,
     onInspect,
+    onEdit,
     isDiscovering,
     style,
     onMouseEnter,
@@ -34,6 +36,7 @@ const ActionBar: React.FC<ActionBarProps> = ({
         onDiscover,
         onTrace,
         onInspect,
+        onEdit,
         isDiscovering
     });
 
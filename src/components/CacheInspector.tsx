@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  CACHE_SIZE_BUDGET_BYTES,
+  CACHE_STORES,
+  CacheStoreName,
+  CacheStoreStats,
+  clearCacheStore,
+  getCacheStats
+} from '../services/cacheStore';
+import { formatBytes } from '../utils/formatters';
+
+interface CacheInspectorProps {
+  onShowToast: (message: string, type: 'success' | 'info' | 'error') => void;
+}
+
+/**
+ * What the browser keeps in IndexedDB, per store. Cached AI answers and
+ * Wikipedia details can be cleared; timelines are the user's work and can
+ * only be removed by deleting the timeline.
+ */
+const CacheInspector: React.FC<CacheInspectorProps> = ({ onShowToast }) => {
+  const [stats, setStats] = useState<Record<CacheStoreName, CacheStoreStats> | null>(null);
+  const [clearing, setClearing] = useState<CacheStoreName | null>(null);
+
+  const refresh = useCallback(async () => {
+    setStats(await getCacheStats());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleClear = async (store: CacheStoreName) => {
+    setClearing(store);
+    await clearCacheStore(store);
+    await refresh();
+    setClearing(null);
+    onShowToast(`Cleared ${CACHE_STORES[store].label.toLowerCase()}`, 'success');
+  };
+
+  const storeNames = Object.keys(CACHE_STORES) as CacheStoreName[];
+  // Timelines are never evicted, so only the cached stores count against the budget
+  const cachedBytes = stats
+    ? storeNames.filter(name => CACHE_STORES[name].evictable).reduce((sum, name) => sum + stats[name].bytes, 0)
+    : 0;
+  const budgetPercent = Math.min(100, (cachedBytes / CACHE_SIZE_BUDGET_BYTES) * 100);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">Storage</label>
+      {!stats ? (
+        <p className="text-xs text-gray-500">Reading storage...</p>
+      ) : (
+        <div className="space-y-3">
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {storeNames.map(name => (
+              <li key={name} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="text-sm text-gray-800">{CACHE_STORES[name].label}</div>
+                  <div className="text-xs text-gray-500">
+                    {stats[name].count} {stats[name].count === 1 ? 'entry' : 'entries'} · {formatBytes(stats[name].bytes)}
+                  </div>
+                </div>
+                {CACHE_STORES[name].evictable && (
+                  <button
+                    onClick={() => handleClear(name)}
+                    disabled={stats[name].count === 0 || clearing !== null}
+                    className="px-2.5 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    {clearing === name ? 'Clearing...' : 'Clear'}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 rounded-full" style={{ width: `${budgetPercent}%` }} />
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Cache uses {formatBytes(cachedBytes)} of {formatBytes(CACHE_SIZE_BUDGET_BYTES)}. The least recently used entries are removed beyond that.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CacheInspector;
@@ -1,5 +1,9 @@
 
 import React, { useState } from 'react';
+import ProjectMenu from './ProjectMenu';
+import HistoryMenu from './HistoryMenu';
+import { TimelineProjectMeta } from '../services/projectStorage';
+import { TimelineHistory } from '../services/timelineHistory';
 
 interface ControlPanelProps {
   startYear: number;
@@ -13,8 +17,30 @@ interface ControlPanelProps {
   onNextResult: () => void;
   onPrevResult: () => void;
   onOpenSettings: () => void;
+  onOpenExportImage: () => void;
+  onOpenPrint: () => void;
+  onCopyLink: () => void;
+  activeSearchQuery: string;
+  onAddFigure: () => void;
+  onRepackLayout: () => void;
   onToggleLegend: () => void;
   isLegendOpen: boolean;
+  projects: TimelineProjectMeta[];
+  activeProjectId: string;
+  onSwitchProject: (id: string) => void;
+  onCreateProject: (name: string) => void;
+  onRenameProject: (id: string, name: string) => void;
+  onDuplicateProject: (id: string) => void;
+  onDeleteProject: (id: string) => void;
+  onExportProject: () => void;
+  onImportProject: (fileContents: string) => void;
+  onImportCsv: (fileContents: string, fileName: string) => void;
+  history: TimelineHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onTravelHistory: (steps: number) => void;
+  duplicateCount: number;
+  onReviewDuplicates: () => void;
 }
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -29,8 +55,30 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onNextResult,
   onPrevResult,
   onOpenSettings,
+  onOpenExportImage,
+  onOpenPrint,
+  onCopyLink,
+  activeSearchQuery,
+  onAddFigure,
+  onRepackLayout,
   onToggleLegend,
-  isLegendOpen
+  isLegendOpen,
+  projects,
+  activeProjectId,
+  onSwitchProject,
+  onCreateProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
+  onExportProject,
+  onImportProject,
+  onImportCsv,
+  history,
+  onUndo,
+  onRedo,
+  onTravelHistory,
+  duplicateCount,
+  onReviewDuplicates
 }) => {
   const [localStart, setLocalStart] = useState<string>(startYear.toString());
   const [localEnd, setLocalEnd] = useState<string>(endYear.toString());
@@ -42,6 +90,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     setLocalEnd(endYear.toString());
   }, [startYear, endYear]);
 
+  // A shared link can set the search from outside
+  React.useEffect(() => {
+    setSearchQuery(activeSearchQuery);
+  }, [activeSearchQuery]);
+
   const handleBuild = () => {
     const s = parseInt(localStart);
     const e = parseInt(localEnd);
@@ -81,6 +134,22 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
   return (
     <div className="fixed top-0 left-0 w-full z-50 flex items-center gap-4 bg-white/60 backdrop-blur-xl px-6 py-2 border-b border-gray-200/50 shadow-sm transition-all h-[52px]">
+      <ProjectMenu
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSwitch={onSwitchProject}
+        onCreate={onCreateProject}
+        onRename={onRenameProject}
+        onDuplicate={onDuplicateProject}
+        onDelete={onDeleteProject}
+        onExport={onExportProject}
+        onImport={onImportProject}
+        onImportCsv={onImportCsv}
+        disabled={isBuilding}
+      />
+
+      <div className="h-6 w-px bg-gray-400/30"></div>
+
       <div className="flex items-center gap-2">
         <input
           type="number"
@@ -195,6 +264,79 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
       {/* Settings Toggle (Always Visible) */}
       <div className="ml-auto flex items-center">
+        <HistoryMenu
+          history={history}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          onTravel={onTravelHistory}
+          disabled={isBuilding}
+        />
+        <div className="h-6 w-px bg-gray-400/30 mx-1"></div>
+        {duplicateCount > 0 && (
+          <button
+            onClick={onReviewDuplicates}
+            disabled={isBuilding}
+            className="relative p-2 text-amber-600 hover:text-amber-700 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            title={`Review ${duplicateCount} possible duplicate${duplicateCount === 1 ? '' : 's'}`}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+            <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] font-bold leading-4 text-center">
+              {duplicateCount}
+            </span>
+          </button>
+        )}
+        <button
+          onClick={onAddFigure}
+          disabled={isBuilding}
+          className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Add entry"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+        <button
+          onClick={onRepackLayout}
+          disabled={!hasFigures || isBuilding}
+          className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Re-pack rows"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4h13M3 8h9m-9 4h9m5-4v12m0 0l-4-4m4 4l4-4" />
+          </svg>
+        </button>
+        <button
+          onClick={onOpenExportImage}
+          disabled={!hasFigures}
+          className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Export image"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+          </svg>
+        </button>
+        <button
+          onClick={onCopyLink}
+          disabled={!hasFigures}
+          className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Copy link to this view"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+          </svg>
+        </button>
+        <button
+          onClick={onOpenPrint}
+          disabled={!hasFigures}
+          className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          title="Print or save as PDF"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+          </svg>
+        </button>
         <button
           onClick={onOpenSettings}
           className="p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors"
@@ -0,0 +1,243 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FigureCategory, HistoricalFigure } from '../types';
+import { CATEGORY_LIST } from '../constants';
+import {
+  CSV_FIELDS,
+  ColumnMapping,
+  buildFiguresFromRows,
+  detectDelimiter,
+  guessColumnMapping,
+  parseDelimitedText
+} from '../services/csvImport';
+import { formatYear } from '../utils/formatters';
+
+interface CsvImportDialogProps {
+  fileName: string;
+  fileContents: string | null;
+  currentFigureCount: number;
+  onImport: (figures: HistoricalFigure[], mode: 'merge' | 'replace') => void;
+  onClose: () => void;
+}
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab'
+};
+
+const PREVIEW_ROWS = 5;
+const MAX_LISTED_ERRORS = 50;
+
+const CsvImportDialog: React.FC<CsvImportDialogProps> = ({
+  fileName,
+  fileContents,
+  currentFigureCount,
+  onImport,
+  onClose
+}) => {
+  const [delimiter, setDelimiter] = useState(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [defaultCategory, setDefaultCategory] = useState<FigureCategory>('EVENTS');
+  const [replaceCurrent, setReplaceCurrent] = useState(false);
+
+  // Re-detect settings whenever a new file is opened
+  useEffect(() => {
+    if (fileContents === null) return;
+    setDelimiter(detectDelimiter(fileContents));
+    setHasHeader(true);
+    setMapping(null);
+    setReplaceCurrent(false);
+  }, [fileContents]);
+
+  const rows = useMemo(
+    () => fileContents === null ? [] : parseDelimitedText(fileContents, delimiter),
+    [fileContents, delimiter]
+  );
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = useMemo(() => {
+    return Array.from({ length: columnCount }, (_, i) =>
+      hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+    );
+  }, [rows, columnCount, hasHeader]);
+
+  const effectiveMapping = useMemo(
+    () => mapping || guessColumnMapping(hasHeader ? headers : []),
+    [mapping, headers, hasHeader]
+  );
+
+  const result = useMemo(
+    () => buildFiguresFromRows(rows, effectiveMapping, { hasHeader, defaultCategory }),
+    [rows, effectiveMapping, hasHeader, defaultCategory]
+  );
+
+  if (fileContents === null) return null;
+
+  const missingRequired = CSV_FIELDS.filter(f => f.required && effectiveMapping[f.key] === null);
+  const canImport = missingRequired.length === 0 && result.figures.length > 0;
+
+  const updateMapping = (field: keyof ColumnMapping, value: string) => {
+    setMapping({ ...effectiveMapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  const handleImport = () => {
+    onImport(result.figures, replaceCurrent ? 'replace' : 'merge');
+  };
+
+  const selectClass = "w-full h-9 px-2 text-sm border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-white";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <div className="min-w-0">
+            <h2 className="text-lg font-bold text-gray-800">Import Figures & Events</h2>
+            <p className="text-xs text-gray-500 truncate">{fileName}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Separator
+              <select value={delimiter} onChange={(e) => { setDelimiter(e.target.value); setMapping(null); }} className="h-8 px-2 text-sm border border-gray-300 rounded-md bg-white">
+                {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                  <option key={label} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); setMapping(null); }} />
+              First row contains column names
+            </label>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Columns</h3>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+              {CSV_FIELDS.map(field => (
+                <label key={field.key} className="block">
+                  <span className="block text-xs font-medium text-gray-600 mb-1">
+                    {field.label}{field.required && <span className="text-red-500"> *</span>}
+                  </span>
+                  <select
+                    value={effectiveMapping[field.key] ?? ''}
+                    onChange={(e) => updateMapping(field.key, e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="">— Not mapped —</option>
+                    {headers.map((header, i) => (
+                      <option key={i} value={i}>{header}</option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            {effectiveMapping.category === null && (
+              <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+                Category for all rows
+                <select value={defaultCategory} onChange={(e) => setDefaultCategory(e.target.value as FigureCategory)} className="h-8 px-2 text-sm border border-gray-300 rounded-md bg-white">
+                  {CATEGORY_LIST.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <p className="text-xs text-gray-500 mt-2">
+              Years can be written as <span className="font-mono">1492</span>, <span className="font-mono">500 BC</span> or <span className="font-mono">-500</span>. Events may leave the end year empty.
+            </p>
+          </div>
+
+          {result.figures.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Preview</h3>
+              <div className="overflow-x-auto border border-gray-200 rounded-md">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="px-2 py-1.5 text-left font-medium">Name</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Years</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Occupation</th>
+                      <th className="px-2 py-1.5 text-left font-medium">Category</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.figures.slice(0, PREVIEW_ROWS).map(figure => (
+                      <tr key={figure.id} className="border-t border-gray-100">
+                        <td className="px-2 py-1.5 text-gray-800">{figure.name}</td>
+                        <td className="px-2 py-1.5 text-gray-600 whitespace-nowrap">{formatYear(figure.birthYear)} – {formatYear(figure.deathYear)}</td>
+                        <td className="px-2 py-1.5 text-gray-600">{figure.occupation}</td>
+                        <td className="px-2 py-1.5 text-gray-600">{figure.category}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {(result.errors.length > 0 || missingRequired.length > 0) && (
+            <div className="p-3 rounded-md bg-red-50 border border-red-100">
+              {missingRequired.length > 0 && (
+                <p className="text-sm font-medium text-red-700">
+                  Map the required columns: {missingRequired.map(f => f.label).join(', ')}.
+                </p>
+              )}
+              {missingRequired.length === 0 && (
+                <>
+                  <p className="text-sm font-medium text-red-700 mb-2">
+                    {result.errors.length} {result.errors.length === 1 ? 'row' : 'rows'} will be skipped:
+                  </p>
+                  <ul className="max-h-32 overflow-y-auto space-y-0.5 text-xs text-red-600">
+                    {result.errors.slice(0, MAX_LISTED_ERRORS).map(error => (
+                      <li key={error.line}><span className="font-mono">Line {error.line}:</span> {error.message}</li>
+                    ))}
+                    {result.errors.length > MAX_LISTED_ERRORS && (
+                      <li>…and {result.errors.length - MAX_LISTED_ERRORS} more</li>
+                    )}
+                  </ul>
+                </>
+              )}
+            </div>
+          )}
+
+          {currentFigureCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={replaceCurrent} onChange={(e) => setReplaceCurrent(e.target.checked)} />
+              Replace the current {currentFigureCount} entries instead of adding to them
+            </label>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex items-center justify-end gap-3">
+          <span className="mr-auto text-sm text-gray-600">
+            {result.figures.length} ready to import
+          </span>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Import {result.figures.length > 0 ? result.figures.length : ''}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvImportDialog;
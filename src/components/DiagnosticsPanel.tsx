@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import {
+  DiagnosticKind,
+  clearDiagnostics,
+  getDiagnostics,
+  subscribeToDiagnostics
+} from '../services/responseDiagnostics';
+import { PROVIDER_LABELS, USAGE_OPERATION_LABELS } from '../constants';
+
+const KIND_STYLES: Record<DiagnosticKind, { label: string; className: string }> = {
+  corrected: { label: 'Corrected', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  rejected: { label: 'Rejected', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  repaired: { label: 'Repaired', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  unparseable: { label: 'Unparseable', className: 'bg-red-50 text-red-700 border-red-200' }
+};
+
+/**
+ * What response validation changed or threw away this session: coerced
+ * categories, fixed or dropped year ranges, and malformed JSON that needed a
+ * repair request. Useful for telling whether a model is worth keeping.
+ */
+const DiagnosticsPanel: React.FC = () => {
+  const [diagnostics, setDiagnostics] = useState(() => getDiagnostics());
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => subscribeToDiagnostics(() => setDiagnostics(getDiagnostics())), []);
+
+  const counts = diagnostics.reduce<Partial<Record<DiagnosticKind, number>>>((acc, d) => {
+    acc[d.kind] = (acc[d.kind] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Response Diagnostics</label>
+        <button
+          onClick={clearDiagnostics}
+          disabled={diagnostics.length === 0}
+          className="px-2.5 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Clear
+        </button>
+      </div>
+
+      {diagnostics.length === 0 ? (
+        <p className="text-xs text-gray-500">Every AI response this session was valid as received.</p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 mb-2">
+            {(Object.keys(KIND_STYLES) as DiagnosticKind[])
+              .filter(kind => counts[kind])
+              .map(kind => `${counts[kind]} ${KIND_STYLES[kind].label.toLowerCase()}`)
+              .join(' · ')}
+          </p>
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-60 overflow-y-auto">
+            {diagnostics.map(d => (
+              <li key={d.id} className="px-3 py-2">
+                <button
+                  onClick={() => setExpandedId(expandedId === d.id ? null : d.id)}
+                  disabled={!d.excerpt}
+                  className="w-full text-left disabled:cursor-default"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={`text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border whitespace-nowrap ${KIND_STYLES[d.kind].className}`}>
+                      {KIND_STYLES[d.kind].label}
+                    </span>
+                    <span className="text-sm text-gray-800 min-w-0 truncate">{d.message}</span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-0.5">
+                    {USAGE_OPERATION_LABELS[d.operation]} · {PROVIDER_LABELS[d.provider] || d.provider} · {new Date(d.time).toLocaleTimeString()}
+                  </div>
+                </button>
+                {expandedId === d.id && d.excerpt && (
+                  <pre className="mt-1.5 p-2 bg-gray-50 border border-gray-100 rounded text-[11px] text-gray-600 whitespace-pre-wrap break-all">
+                    {d.excerpt}
+                  </pre>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosticsPanel;
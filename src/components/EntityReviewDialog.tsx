@@ -0,0 +1,105 @@
+import React from 'react';
+import { HistoricalFigure } from '../types';
+import { MergeCandidate } from '../services/entityResolution';
+import { CATEGORY_COLORS } from '../constants';
+import { formatYear } from '../utils/formatters';
+
+interface EntityReviewDialogProps {
+  isOpen: boolean;
+  candidates: MergeCandidate[];
+  figures: HistoricalFigure[];
+  onMerge: (candidate: MergeCandidate) => void;
+  onKeepBoth: (candidate: MergeCandidate) => void;
+  onClose: () => void;
+}
+
+const FigureSummary: React.FC<{ figure: HistoricalFigure; label: string }> = ({ figure, label }) => (
+  <div className="flex-1 min-w-0 rounded-lg border border-gray-200 p-3">
+    <div className="text-[10px] font-bold tracking-widest text-gray-400 uppercase mb-1">{label}</div>
+    <div className="flex items-center gap-2">
+      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: CATEGORY_COLORS[figure.category] }} />
+      <span className="font-semibold text-gray-900 truncate">{figure.name}</span>
+    </div>
+    <div className="text-xs text-gray-500 mt-0.5">
+      {formatYear(figure.birthYear)} – {formatYear(figure.deathYear)}{figure.occupation ? ` · ${figure.occupation}` : ''}
+    </div>
+    {figure.shortDescription && (
+      <p className="text-xs text-gray-600 mt-2 line-clamp-2">{figure.shortDescription}</p>
+    )}
+  </div>
+);
+
+/**
+ * Lists entries that might be duplicates of each other but were not similar
+ * enough to merge automatically. Merging keeps the entry that was there first.
+ */
+const EntityReviewDialog: React.FC<EntityReviewDialogProps> = ({
+  isOpen,
+  candidates,
+  figures,
+  onMerge,
+  onKeepBoth,
+  onClose
+}) => {
+  if (!isOpen) return null;
+
+  const figuresById = new Map(figures.map(f => [f.id, f]));
+  // Undo or a delete may have removed one side of a pair
+  const pairs = candidates
+    .map(candidate => ({ candidate, keep: figuresById.get(candidate.keepId), duplicate: figuresById.get(candidate.duplicateId) }))
+    .filter((pair): pair is { candidate: MergeCandidate; keep: HistoricalFigure; duplicate: HistoricalFigure } => !!pair.keep && !!pair.duplicate);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Review Possible Duplicates</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto">
+          {pairs.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-6">Nothing left to review.</p>
+          ) : pairs.map(({ candidate, keep, duplicate }) => (
+            <div key={candidate.id} className="space-y-2">
+              <div className="text-xs text-amber-700 font-medium">{candidate.reason}</div>
+              <div className="flex gap-3">
+                <FigureSummary figure={keep} label="On the timeline" />
+                <FigureSummary figure={duplicate} label="Added later" />
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  onClick={() => onKeepBoth(candidate)}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+                >
+                  Keep both
+                </button>
+                <button
+                  onClick={() => onMerge(candidate)}
+                  className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors"
+                >
+                  Merge into "{keep.name}"
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EntityReviewDialog;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+
+export interface ImageExportOptions {
+  scope: 'view' | 'timeline';
+  format: 'svg' | 'png';
+  pixelRatio: number;
+}
+
+interface ExportImageDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (options: ImageExportOptions) => Promise<void>;
+}
+
+const PIXEL_RATIOS = [1, 2, 3, 4];
+
+const ExportImageDialog: React.FC<ExportImageDialogProps> = ({ isOpen, onClose, onExport }) => {
+  const [scope, setScope] = useState<ImageExportOptions['scope']>('timeline');
+  const [format, setFormat] = useState<ImageExportOptions['format']>('svg');
+  const [pixelRatio, setPixelRatio] = useState(2);
+  const [isExporting, setIsExporting] = useState(false);
+
+  if (!isOpen) return null;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await onExport({ scope, format, pixelRatio });
+      onClose();
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionClass = (isActive: boolean) =>
+    `flex-1 px-3 py-2 text-sm font-medium rounded-md border transition-colors ${isActive
+      ? 'bg-blue-50 border-blue-400 text-blue-700'
+      : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Export Image</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Area</label>
+            <div className="flex gap-2">
+              <button onClick={() => setScope('view')} className={optionClass(scope === 'view')}>Current view</button>
+              <button onClick={() => setScope('timeline')} className={optionClass(scope === 'timeline')}>Whole timeline</button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Format</label>
+            <div className="flex gap-2">
+              <button onClick={() => setFormat('svg')} className={optionClass(format === 'svg')}>SVG (vector)</button>
+              <button onClick={() => setFormat('png')} className={optionClass(format === 'png')}>PNG</button>
+            </div>
+          </div>
+
+          {format === 'png' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Resolution</label>
+              <select
+                value={pixelRatio}
+                onChange={(e) => setPixelRatio(Number(e.target.value))}
+                className="w-full h-10 px-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+              >
+                {PIXEL_RATIOS.map(ratio => (
+                  <option key={ratio} value={ratio}>{ratio}x</option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Very large timelines are scaled down to fit the browser's maximum image size.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? 'Exporting...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportImageDialog;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { FactCheck, FactCheckStatus } from '../types';
+import { formatYear } from '../utils/formatters';
+
+interface FactCheckBadgeProps {
+  factCheck?: FactCheck;
+  className?: string;
+}
+
+const BADGE_STYLES: Record<FactCheckStatus, { label: string; className: string }> = {
+  verified: { label: 'Verified', className: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  corrected: { label: 'Corrected', className: 'bg-blue-50 text-blue-700 border-blue-200' },
+  mismatch: { label: 'Check dates', className: 'bg-amber-50 text-amber-700 border-amber-200' },
+  unverified: { label: 'Unverified', className: 'bg-gray-50 text-gray-500 border-gray-200' }
+};
+
+const formatRange = (start?: number, end?: number) =>
+  `${start !== undefined ? formatYear(start) : '?'} – ${end !== undefined ? formatYear(end) : '?'}`;
+
+const describe = (factCheck: FactCheck): string => {
+  const wikidataYears = `Wikidata: ${formatRange(factCheck.wikidataBirthYear, factCheck.wikidataDeathYear)}`;
+  switch (factCheck.status) {
+    case 'verified':
+      return `Dates match Wikidata (${factCheck.wikidataId}).`;
+    case 'corrected':
+      return `Dates corrected from ${formatRange(factCheck.originalBirthYear, factCheck.originalDeathYear)}. ${wikidataYears}`;
+    case 'mismatch':
+      return `Dates differ from Wikidata and were left as they are. ${wikidataYears}`;
+    default:
+      return 'No Wikidata entry with dates was found.';
+  }
+};
+
+/** How far a figure's years can be trusted, according to the Wikidata check */
+const FactCheckBadge: React.FC<FactCheckBadgeProps> = ({ factCheck, className = '' }) => {
+  if (!factCheck) return null;
+  const style = BADGE_STYLES[factCheck.status];
+
+  return (
+    <span
+      className={`inline-flex items-center text-[10px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded border whitespace-nowrap ${style.className} ${className}`}
+      title={describe(factCheck)}
+    >
+      {style.label}
+    </span>
+  );
+};
+
+export default FactCheckBadge;
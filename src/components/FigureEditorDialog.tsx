@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { FigureCategory, HistoricalFigure } from '../types';
+import { CATEGORY_LIST } from '../constants';
+import { formatYear, parseYear } from '../utils/formatters';
+
+export type FigureDraft = Omit<HistoricalFigure, 'id' | 'imageUrl' | 'isDetailsLoading' | 'factCheck'>;
+
+interface FigureEditorDialogProps {
+  isOpen: boolean;
+  // The entry being edited, or null when adding a new one
+  figure: HistoricalFigure | null;
+  existingFigures: HistoricalFigure[];
+  onSave: (draft: FigureDraft) => void;
+  onDelete: (figure: HistoricalFigure) => void;
+  onClose: () => void;
+}
+
+const FigureEditorDialog: React.FC<FigureEditorDialogProps> = ({
+  isOpen,
+  figure,
+  existingFigures,
+  onSave,
+  onDelete,
+  onClose
+}) => {
+  const [name, setName] = useState('');
+  const [birthText, setBirthText] = useState('');
+  const [deathText, setDeathText] = useState('');
+  const [occupation, setOccupation] = useState('');
+  const [category, setCategory] = useState<FigureCategory>('SCIENTISTS');
+  const [description, setDescription] = useState('');
+  const [showErrors, setShowErrors] = useState(false);
+
+  // Populate the form whenever the dialog opens for a different entry
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(figure?.name || '');
+    setBirthText(figure ? formatYear(figure.birthYear) : '');
+    setDeathText(figure ? formatYear(figure.deathYear) : '');
+    setOccupation(figure?.occupation || '');
+    setCategory(figure?.category || 'SCIENTISTS');
+    setDescription(figure?.shortDescription || '');
+    setShowErrors(false);
+  }, [isOpen, figure]);
+
+  if (!isOpen) return null;
+
+  const isEvent = category === 'EVENTS';
+  const trimmedName = name.trim();
+  const birthYear = parseYear(birthText);
+  // Events may leave the end year empty (a single-year event)
+  const deathYear = !deathText.trim() && isEvent ? birthYear : parseYear(deathText);
+
+  const errors: Partial<Record<'name' | 'birthYear' | 'deathYear', string>> = {};
+  if (!trimmedName) {
+    errors.name = 'Name is required.';
+  } else if (existingFigures.some(f => f.id !== figure?.id && f.name.toLowerCase() === trimmedName.toLowerCase())) {
+    errors.name = 'Another entry already has this name.';
+  }
+  if (birthYear === null) {
+    errors.birthYear = birthText.trim() ? 'Not a valid year.' : 'Start year is required.';
+  }
+  if (deathYear === null) {
+    errors.deathYear = deathText.trim() ? 'Not a valid year.' : 'End year is required.';
+  } else if (birthYear !== null && deathYear < birthYear) {
+    errors.deathYear = 'End year is before start year.';
+  }
+  const isValid = Object.keys(errors).length === 0;
+
+  const handleSave = () => {
+    if (!isValid || birthYear === null || deathYear === null) {
+      setShowErrors(true);
+      return;
+    }
+    onSave({
+      name: trimmedName,
+      birthYear,
+      deathYear,
+      occupation: occupation.trim() || (isEvent ? 'Event' : ''),
+      category,
+      shortDescription: description.trim() || undefined
+    });
+  };
+
+  const handleDelete = () => {
+    if (figure && window.confirm(`Delete "${figure.name}" from this timeline?`)) {
+      onDelete(figure);
+    }
+  };
+
+  const inputClass = (hasError: boolean) =>
+    `w-full h-10 px-3 bg-white border rounded-md focus:ring-2 focus:ring-blue-500 outline-none ${hasError ? 'border-red-400' : 'border-gray-300'}`;
+
+  const renderError = (message?: string) => showErrors && message && (
+    <p className="text-xs text-red-600 mt-1">{message}</p>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">{figure ? 'Edit Entry' : 'Add Entry'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form
+          className="p-6 space-y-5"
+          onSubmit={(e) => { e.preventDefault(); handleSave(); }}
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+              className={inputClass(showErrors && !!errors.name)}
+            />
+            {renderError(errors.name)}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isEvent ? 'Start year' : 'Birth year'}</label>
+              <input
+                type="text"
+                value={birthText}
+                onChange={(e) => setBirthText(e.target.value)}
+                placeholder="e.g. 1452 or 500 BC"
+                className={inputClass(showErrors && !!errors.birthYear)}
+              />
+              {renderError(errors.birthYear)}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isEvent ? 'End year' : 'Death year'}</label>
+              <input
+                type="text"
+                value={deathText}
+                onChange={(e) => setDeathText(e.target.value)}
+                placeholder={isEvent ? 'Empty for a single-year event' : 'e.g. 1519'}
+                className={inputClass(showErrors && !!errors.deathYear)}
+              />
+              {renderError(errors.deathYear)}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as FigureCategory)}
+                className={inputClass(false)}
+              >
+                {CATEGORY_LIST.map(c => (
+                  <option key={c} value={c}>{c}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">{isEvent ? 'Type' : 'Occupation'}</label>
+              <input
+                type="text"
+                value={occupation}
+                onChange={(e) => setOccupation(e.target.value)}
+                className={inputClass(false)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none text-sm resize-none"
+            />
+          </div>
+
+          {/* Lets Enter submit the form */}
+          <button type="submit" className="hidden" />
+        </form>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          {figure && (
+            <button
+              onClick={handleDelete}
+              className="mr-auto px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-md transition-colors"
+            >
+              Delete
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={showErrors && !isValid}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {figure ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FigureEditorDialog;
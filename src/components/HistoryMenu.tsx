@@ -0,0 +1,120 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimelineHistory } from '../services/timelineHistory';
+
+interface HistoryMenuProps {
+  history: TimelineHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Positive steps undo, negative steps redo
+  onTravel: (steps: number) => void;
+  disabled?: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const MOD_KEY = isMac ? '⌘' : 'Ctrl+';
+
+/**
+ * Undo/redo buttons plus a dropdown listing recent operations, newest first.
+ * Clicking an entry returns the timeline to the state right after it.
+ */
+const HistoryMenu: React.FC<HistoryMenuProps> = ({ history, onUndo, onRedo, onTravel, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { past, future } = history;
+  const canUndo = !disabled && past.length > 0;
+  const canRedo = !disabled && future.length > 0;
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const buttonClass = "p-2 text-gray-500 hover:text-gray-800 hover:bg-black/5 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+  return (
+    <div className="relative flex items-center" ref={menuRef}>
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClass} title={`Undo${past.length > 0 ? ` ${past[past.length - 1].label}` : ''} (${MOD_KEY}Z)`}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+        </svg>
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClass} title={`Redo${future.length > 0 ? ` ${future[future.length - 1].label}` : ''} (${MOD_KEY}Shift+Z)`}>
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" />
+        </svg>
+      </button>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled || (past.length === 0 && future.length === 0)}
+        className={buttonClass}
+        title="History"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden z-[60]">
+          <div className="px-3 py-2 border-b border-gray-100 text-[10px] font-bold tracking-widest text-gray-500 uppercase">
+            History
+          </div>
+
+          <ul className="max-h-80 overflow-y-auto text-sm">
+            {/* Undone operations, newest first; the last one in the stack is the next redo */}
+            {future.map((entry, index) => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => onTravel(-(future.length - index))}
+                  className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left text-gray-400 italic hover:bg-gray-50"
+                >
+                  <span className="truncate">{entry.label}</span>
+                  <span className="text-[11px] not-italic">{formatTime(entry.timestamp)}</span>
+                </button>
+              </li>
+            ))}
+
+            {[...past].reverse().map((entry, reverseIndex) => {
+              const isCurrent = reverseIndex === 0;
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => onTravel(reverseIndex)}
+                    disabled={isCurrent}
+                    className={`w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left ${isCurrent ? 'bg-blue-50 font-bold text-blue-700' : 'text-gray-800 hover:bg-gray-50'}`}
+                  >
+                    <span className="truncate">{entry.label}</span>
+                    <span className="text-[11px] font-normal text-gray-500">{formatTime(entry.timestamp)}</span>
+                  </button>
+                </li>
+              );
+            })}
+
+            <li>
+              <button
+                onClick={() => onTravel(past.length)}
+                disabled={past.length === 0}
+                className={`w-full px-3 py-1.5 text-left ${past.length === 0 ? 'bg-blue-50 font-bold text-blue-700' : 'text-gray-500 hover:bg-gray-50'}`}
+              >
+                Initial state
+              </button>
+            </li>
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryMenu;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { TimelineDocumentParseResult } from '../services/timelineDocument';
+import { formatYear } from '../utils/formatters';
+
+interface ImportTimelineDialogProps {
+  result: TimelineDocumentParseResult | null;
+  currentFigureCount: number;
+  onMerge: () => void;
+  onReplace: () => void;
+  onClose: () => void;
+}
+
+const ImportTimelineDialog: React.FC<ImportTimelineDialogProps> = ({
+  result,
+  currentFigureCount,
+  onMerge,
+  onReplace,
+  onClose
+}) => {
+  if (!result) return null;
+
+  const timelineDocument = result.success ? result.document : null;
+  const cachedCount = timelineDocument
+    ? Object.keys(timelineDocument.deepDives).length + timelineDocument.relationshipExplanations.length
+    : 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="bg-gray-50 px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-lg font-bold text-gray-800">Import Timeline</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {!result.success ? (
+            <div className="p-3 rounded-md bg-red-50 border border-red-100">
+              <p className="text-sm font-medium text-red-700 mb-2">This file can't be imported:</p>
+              <ul className="list-disc pl-5 space-y-1 text-xs text-red-600">
+                {result.errors.map((error, i) => (
+                  <li key={i}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          ) : timelineDocument && (
+            <>
+              <div>
+                <p className="text-base font-semibold text-gray-800">{timelineDocument.name}</p>
+                <p className="text-sm text-gray-500">
+                  {formatYear(timelineDocument.config.start)} – {formatYear(timelineDocument.config.end)} · {timelineDocument.figures.length} entries
+                  {cachedCount > 0 && ` · ${cachedCount} cached explanations`}
+                </p>
+              </div>
+
+              {currentFigureCount > 0 ? (
+                <p className="text-sm text-gray-600">
+                  <span className="font-medium">Merge</span> adds figures not already on the current timeline and widens its year range.{' '}
+                  <span className="font-medium">Replace</span> discards the current {currentFigureCount} entries and their cached explanations.
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600">The current timeline is empty, so the import will fill it.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="bg-gray-50 px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            {result.success ? 'Cancel' : 'Close'}
+          </button>
+          {result.success && currentFigureCount > 0 && (
+            <button
+              onClick={onMerge}
+              className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md shadow-sm transition-colors"
+            >
+              Merge
+            </button>
+          )}
+          {result.success && (
+            <button
+              onClick={onReplace}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors"
+            >
+              {currentFigureCount > 0 ? 'Replace' : 'Import'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportTimelineDialog;
@@ -6,11 +6,12 @@ import { CATEGORY_COLORS, CATEGORY_LIST } from '../constants';
 interface LegendProps {
   selectedCategories: Set<FigureCategory>;
   onToggleCategory: (category: FigureCategory) => void;
+  onResetCategories: () => void;
   isOpen: boolean;
   onToggleOpen?: () => void;
 }
 
-const Legend: React.FC<LegendProps> = ({ selectedCategories, onToggleCategory, isOpen, onToggleOpen }) => {
+const Legend: React.FC<LegendProps> = ({ selectedCategories, onToggleCategory, onResetCategories, isOpen, onToggleOpen }) => {
   return (
     <div className="fixed top-[52px] left-0 w-full z-[55] flex flex-col items-center pointer-events-none">
       
@@ -50,7 +51,7 @@ const Legend: React.FC<LegendProps> = ({ selectedCategories, onToggleCategory, i
                     <>
                     <div className="h-6 w-px bg-gray-400/30 mx-2"></div>
                     <button
-                        onClick={() => selectedCategories.forEach(c => onToggleCategory(c))} 
+                        onClick={onResetCategories}
                         className="flex items-center gap-1.5 px-3 py-1.5 bg-blue-50 hover:bg-blue-100 text-blue-600 rounded-md transition-colors text-xs font-bold uppercase tracking-wider outline-none border border-blue-100"
                     >
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" viewBox="0 0 20 20" fill="currentColor">
@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FigureCategory, LayoutData } from '../types';
+import { BASE_PIXELS_PER_YEAR, CATEGORY_COLORS, CATEGORY_LIST } from '../constants';
+import { formatYear } from '../utils/formatters';
+import { getTimelineContentBounds, renderTimelineSvg, TracedRelationships } from '../utils/timelineSvg';
+
+interface PrintViewProps {
+  isOpen: boolean;
+  title: string;
+  layoutData: LayoutData[];
+  startYear: number;
+  endYear: number;
+  selectedCategories: Set<FigureCategory>;
+  relationships?: TracedRelationships | null;
+  onClose: () => void;
+}
+
+type PaperSize = 'A4' | 'A3' | 'Letter';
+type Orientation = 'landscape' | 'portrait';
+
+// Paper dimensions in millimetres (portrait)
+const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  'A4': { width: 210, height: 297 },
+  'A3': { width: 297, height: 420 },
+  'Letter': { width: 215.9, height: 279.4 }
+};
+
+const PAGE_MARGIN_MM = 10;
+const YEARS_PER_PAGE_OPTIONS = [50, 100, 200, 250, 500];
+const MM_PER_PX = 25.4 / 96;
+// Room reserved on a poster for the title and legend, in millimetres
+const POSTER_CHROME_MM = 40;
+
+const PrintLegend: React.FC = () => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+    {CATEGORY_LIST.map(category => (
+      <div key={category} className="flex items-center gap-1.5">
+        <div className="h-3 w-6 rounded-sm" style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+        <span className="text-[9px] font-bold tracking-widest text-gray-800 uppercase whitespace-nowrap">{category}</span>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * Full-range print layout. Renders the whole timeline as paged tiles (each
+ * with its own year axis) or as a single poster, and hands it to the browser
+ * print pipeline. The interactive app is hidden while printing.
+ */
+const PrintView: React.FC<PrintViewProps> = ({
+  isOpen,
+  title,
+  layoutData,
+  startYear,
+  endYear,
+  selectedCategories,
+  relationships = null,
+  onClose
+}) => {
+  const [mode, setMode] = useState<'pages' | 'poster'>('pages');
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4');
+  const [orientation, setOrientation] = useState<Orientation>('landscape');
+  const [yearsPerPage, setYearsPerPage] = useState(100);
+
+  // Hide the app while printing; the print stylesheet keys off this class
+  useEffect(() => {
+    if (!isOpen) return;
+    document.body.classList.add('print-mode');
+    return () => document.body.classList.remove('print-mode');
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const bounds = useMemo(
+    () => getTimelineContentBounds(layoutData, startYear, endYear),
+    [layoutData, startYear, endYear]
+  );
+
+  const pages = useMemo(() => {
+    if (!isOpen) return [];
+
+    if (mode === 'poster') {
+      const { svg } = renderTimelineSvg({ layoutData, startYear, region: bounds, selectedCategories, relationships });
+      return [{ svg, fromYear: startYear, toYear: endYear }];
+    }
+
+    // Tiles start at the first year of the range, so every page covers the same span
+    const tileWidth = yearsPerPage * BASE_PIXELS_PER_YEAR;
+    const result: { svg: string; fromYear: number; toYear: number }[] = [];
+    for (let x = 0; x < (endYear - startYear) * BASE_PIXELS_PER_YEAR; x += tileWidth) {
+      const region = { x, y: bounds.y, width: tileWidth, height: bounds.height };
+      const { svg } = renderTimelineSvg({ layoutData, startYear, region, selectedCategories, relationships });
+      const fromYear = startYear + x / BASE_PIXELS_PER_YEAR;
+      result.push({ svg, fromYear, toYear: Math.min(fromYear + yearsPerPage, endYear) });
+    }
+    return result;
+  }, [isOpen, mode, layoutData, startYear, endYear, bounds, yearsPerPage, selectedCategories, relationships]);
+
+  const imageUrls = useMemo(
+    () => pages.map(page => URL.createObjectURL(new Blob([page.svg], { type: 'image/svg+xml' }))),
+    [pages]
+  );
+
+  useEffect(() => {
+    return () => imageUrls.forEach(url => URL.revokeObjectURL(url));
+  }, [imageUrls]);
+
+  if (!isOpen) return null;
+
+  const paper = PAPER_SIZES[paperSize];
+  const pageWidthMm = mode === 'poster'
+    ? bounds.width * MM_PER_PX + PAGE_MARGIN_MM * 2
+    : orientation === 'landscape' ? paper.height : paper.width;
+  const pageHeightMm = mode === 'poster'
+    ? bounds.height * MM_PER_PX + POSTER_CHROME_MM + PAGE_MARGIN_MM * 2
+    : orientation === 'landscape' ? paper.width : paper.height;
+
+  const pageStyle = `@page { size: ${pageWidthMm.toFixed(1)}mm ${pageHeightMm.toFixed(1)}mm; margin: ${PAGE_MARGIN_MM}mm; }`;
+
+  const selectClass = "h-8 px-2 text-sm border border-gray-300 rounded-md bg-white focus:ring-2 focus:ring-blue-400 outline-none";
+
+  return createPortal(
+    <div className="print-root fixed inset-0 z-[200] overflow-auto bg-gray-200 print:static print:overflow-visible print:bg-white">
+      <style>{pageStyle}</style>
+
+      {/* Toolbar (screen only) */}
+      <div className="print:hidden sticky top-0 z-10 flex items-center gap-3 px-6 py-2 bg-white/90 backdrop-blur-xl border-b border-gray-200 shadow-sm">
+        <h2 className="text-sm font-bold text-gray-800 mr-2">Print Layout</h2>
+
+        <select value={mode} onChange={(e) => setMode(e.target.value as 'pages' | 'poster')} className={selectClass}>
+          <option value="pages">Paged tiles</option>
+          <option value="poster">Single poster</option>
+        </select>
+
+        {mode === 'pages' && (
+          <>
+            <select value={paperSize} onChange={(e) => setPaperSize(e.target.value as PaperSize)} className={selectClass}>
+              {Object.keys(PAPER_SIZES).map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+            <select value={orientation} onChange={(e) => setOrientation(e.target.value as Orientation)} className={selectClass}>
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+            <select value={yearsPerPage} onChange={(e) => setYearsPerPage(Number(e.target.value))} className={selectClass}>
+              {YEARS_PER_PAGE_OPTIONS.map(years => <option key={years} value={years}>{years} years / page</option>)}
+            </select>
+          </>
+        )}
+
+        <span className="text-xs text-gray-500">{pages.length} {pages.length === 1 ? 'page' : 'pages'}</span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-1.5 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-md transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md shadow-sm transition-colors"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col items-center gap-6 py-6 print:block print:p-0">
+        {pages.map((page, index) => (
+          <div
+            key={`${page.fromYear}-${index}`}
+            className="print-page flex flex-col bg-white p-4 shadow-lg print:p-0 print:shadow-none"
+            style={{
+              width: `${pageWidthMm - PAGE_MARGIN_MM * 2}mm`,
+              height: `${pageHeightMm - PAGE_MARGIN_MM * 2}mm`
+            }}
+          >
+            <div className="flex items-baseline justify-between pb-2">
+              <h1 className="text-base font-black uppercase tracking-wide text-gray-900 truncate">{title}</h1>
+              <span className="text-xs font-bold text-gray-600 whitespace-nowrap">
+                {formatYear(page.fromYear)} – {formatYear(page.toYear)}
+              </span>
+            </div>
+
+            <div className="flex-1 min-h-0">
+              <img src={imageUrls[index]} alt={`${title}, ${formatYear(page.fromYear)} to ${formatYear(page.toYear)}`} className="w-full h-full object-contain object-top" />
+            </div>
+
+            <div className="flex items-end justify-between gap-4 pt-2 border-t border-gray-300">
+              <PrintLegend />
+              {pages.length > 1 && (
+                <span className="text-[10px] text-gray-500 whitespace-nowrap">{index + 1} / {pages.length}</span>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PrintView;
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TimelineProjectMeta } from '../services/projectStorage';
+import { formatYear } from '../utils/formatters';
+
+interface ProjectMenuProps {
+  projects: TimelineProjectMeta[];
+  activeProjectId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onExport: () => void;
+  onImport: (fileContents: string) => void;
+  onImportCsv: (fileContents: string, fileName: string) => void;
+  disabled?: boolean;
+}
+
+const ProjectMenu: React.FC<ProjectMenuProps> = ({
+  projects,
+  activeProjectId,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport,
+  onImportCsv,
+  disabled = false
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  // Close when clicking outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+        setEditingId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const startRename = (project: TimelineProjectMeta) => {
+    setEditingId(project.id);
+    setEditingName(project.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && editingName.trim()) {
+      onRename(editingId, editingName);
+    }
+    setEditingId(null);
+  };
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  const handleDelete = (project: TimelineProjectMeta) => {
+    if (window.confirm(`Delete "${project.name}"? Its figures and cached deep dives will be removed.`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still fires onChange
+    e.target.value = '';
+    if (!file) return;
+
+    onImport(await file.text());
+    setIsOpen(false);
+  };
+
+  const handleCsvSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    onImportCsv(await file.text(), file.name);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled}
+        className="h-8 px-3 flex items-center gap-2 text-sm font-medium text-gray-700 bg-white/80 border border-gray-300 rounded-md hover:bg-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed max-w-[200px]"
+        title="Timeline projects"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-500 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+        </svg>
+        <span className="truncate">{activeProject?.name || 'Untitled'}</span>
+        <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 text-gray-400 shrink-0 transition-transform ${isOpen ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-80 bg-white rounded-lg shadow-xl border border-gray-200 overflow-hidden z-[60]">
+          <div className="px-3 py-2 border-b border-gray-100 text-[10px] font-bold tracking-widest text-gray-500 uppercase">
+            Timelines
+          </div>
+
+          <ul className="max-h-72 overflow-y-auto">
+            {projects.map(project => {
+              const isActive = project.id === activeProjectId;
+              const isEditing = editingId === project.id;
+
+              return (
+                <li
+                  key={project.id}
+                  className={`group flex items-center gap-2 px-3 py-2 ${isActive ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                >
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 h-7 px-2 text-sm border border-blue-300 rounded focus:ring-2 focus:ring-blue-400 outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        onSwitch(project.id);
+                        setIsOpen(false);
+                      }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className={`text-sm truncate ${isActive ? 'font-bold text-blue-700' : 'text-gray-800'}`}>
+                        {project.name}
+                      </div>
+                      <div className="text-[11px] text-gray-500">
+                        {formatYear(project.startYear)} – {formatYear(project.endYear)} · {project.figureCount} entries
+                      </div>
+                    </button>
+                  )}
+
+                  {!isEditing && (
+                    <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => startRename(project)}
+                        className="p-1 text-gray-400 hover:text-blue-600 rounded hover:bg-white"
+                        title="Rename"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => {
+                          onDuplicate(project.id);
+                          setIsOpen(false);
+                        }}
+                        className="p-1 text-gray-400 hover:text-blue-600 rounded hover:bg-white"
+                        title="Duplicate"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                        </svg>
+                      </button>
+                      <button
+                        onClick={() => handleDelete(project)}
+                        className="p-1 text-gray-400 hover:text-red-500 rounded hover:bg-red-50"
+                        title="Delete"
+                      >
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                        </svg>
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="flex items-center gap-2 px-3 py-2 border-t border-gray-100 bg-gray-50">
+            <input
+              type="text"
+              placeholder="New timeline name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              className="flex-1 h-7 px-2 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-400 outline-none bg-white"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!newName.trim()}
+              className="h-7 px-3 text-xs font-bold uppercase tracking-wider text-white bg-blue-600 hover:bg-blue-700 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Create
+            </button>
+          </div>
+
+          <div className="flex items-center gap-2 px-3 py-2 border-t border-gray-100">
+            <button
+              onClick={() => {
+                onExport();
+                setIsOpen(false);
+              }}
+              className="flex-1 h-7 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              title="Download the current timeline as JSON"
+            >
+              Export JSON
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 h-7 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              title="Load a timeline exported from ChronoWeave"
+            >
+              Import JSON…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileSelected}
+              className="hidden"
+            />
+          </div>
+
+          <div className="px-3 pb-2">
+            <button
+              onClick={() => csvInputRef.current?.click()}
+              className="w-full h-7 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              title="Add your own figures and events from a CSV or TSV spreadsheet export"
+            >
+              Import figures from CSV / TSV…
+            </button>
+            <input
+              ref={csvInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+              onChange={handleCsvSelected}
+              className="hidden"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProjectMenu;
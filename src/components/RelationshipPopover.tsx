@@ -1,8 +1,10 @@
 
 import React, { useEffect } from 'react';
-import { HistoricalFigure, DeepDiveData } from '../types';
+import { HistoricalFigure, DeepDiveData, SourceCitation } from '../types';
 import { RelationshipData } from '../App';
 import { formatYear } from '../utils/formatters';
+import FactCheckBadge from './FactCheckBadge';
+import { sanitizeSources } from '../utils/citations';
 
 interface RelationshipPopoverProps {
   isOpen: boolean;
@@ -10,6 +12,8 @@ interface RelationshipPopoverProps {
   target: HistoricalFigure | null;
   data: RelationshipData | DeepDiveData | null;
   isLoading: boolean;
+  // The text is still arriving; sources are only shown once it is complete
+  isStreaming?: boolean;
   onClose: () => void;
   mode?: 'relationship' | 'single';
 }
@@ -20,6 +24,7 @@ const RelationshipPopover: React.FC<RelationshipPopoverProps> = ({
   target,
   data,
   isLoading,
+  isStreaming = false,
   onClose,
   mode = 'relationship'
 }) => {
@@ -71,6 +76,8 @@ const RelationshipPopover: React.FC<RelationshipPopoverProps> = ({
                    </div>
                  ))}
                </div>
+
+               {isStreaming ? <StreamingIndicator /> : <SourceFootnotes sources={content.sources} />}
             </div>
           );
       }
@@ -101,6 +108,8 @@ const RelationshipPopover: React.FC<RelationshipPopoverProps> = ({
                         </div>
                     ))}
                 </div>
+
+                {isStreaming ? <StreamingIndicator /> : <SourceFootnotes sources={data.sources} />}
              </div>
           );
       }
@@ -168,6 +177,7 @@ const RelationshipPopover: React.FC<RelationshipPopoverProps> = ({
                                 <span className="text-base text-gray-500 font-mono font-semibold whitespace-nowrap">
                                     {formatYear(target.birthYear)} — {formatYear(target.deathYear)}
                                 </span>
+                                <FactCheckBadge factCheck={target.factCheck} className="self-center" />
                             </div>
                             <p className="text-sm text-emerald-800 font-bold uppercase tracking-wide mb-2">{target.occupation}</p>
                             
@@ -220,6 +230,7 @@ const FigureCard: React.FC<{
                     <span className="text-sm text-gray-500 font-mono font-semibold whitespace-nowrap">
                         {formatYear(figure.birthYear)} — {formatYear(figure.deathYear)}
                     </span>
+                    <FactCheckBadge factCheck={figure.factCheck} className="self-center" />
                 </div>
                 
                 <p className={`text-xs ${occupationColor} font-bold uppercase tracking-wide mt-1 mb-2`}>{figure.occupation}</p>
@@ -232,4 +243,45 @@ const FigureCard: React.FC<{
     );
 };
 
+const StreamingIndicator: React.FC = () => (
+    <div className="mt-8 flex items-center gap-2 text-sm text-gray-400 font-sans animate-pulse">
+        <div className="w-2 h-2 rounded-full bg-blue-400"></div>
+        Writing...
+    </div>
+);
+
+// Numbered source list under the text. Cached and imported payloads are validated again here.
+const SourceFootnotes: React.FC<{ sources?: SourceCitation[] }> = ({ sources }) => {
+    const validSources = sanitizeSources(sources);
+
+    return (
+        <div className="mt-10 pt-4 border-t border-gray-200 font-sans">
+            <h4 className="text-xs font-bold uppercase text-gray-500 tracking-wider mb-3">Sources</h4>
+            {validSources.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">No sources were cited for this text.</p>
+            ) : (
+                <ol className="space-y-2 text-sm">
+                    {validSources.map((source, idx) => (
+                        <li key={source.url} className="flex gap-2">
+                            <span className="text-gray-400 font-mono flex-shrink-0">[{idx + 1}]</span>
+                            <div className="min-w-0">
+                                <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-700 hover:underline font-medium"
+                                >
+                                    {source.title}
+                                </a>
+                                <span className="ml-2 text-xs text-gray-400">{new URL(source.url).hostname}</span>
+                                {source.claim && <p className="text-gray-600">{source.claim}</p>}
+                            </div>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
 export default RelationshipPopover;
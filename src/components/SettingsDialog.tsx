@@ -1,6 +1,12 @@
 import React, { useState, useEffect } from 'react';
-import { GeminiService } from '../services/geminiService';
-import { OpenRouterService } from '../services/openRouterService';
+import { createAIService } from '../services/aiServiceFactory';
+import { DEFAULT_LOCAL_BASE_URL, OpenAICompatibleService } from '../services/openAICompatibleService';
+import { DEFAULT_MODELS, KEYLESS_PROVIDERS, PROVIDER_LABELS } from '../constants';
+import { getRequestLimits, saveRequestLimits } from '../services/requestScheduler';
+import { RequestLimits } from '../types';
+import CacheInspector from './CacheInspector';
+import UsagePanel from './UsagePanel';
+import DiagnosticsPanel from './DiagnosticsPanel';
 
 interface SettingsDialogProps {
   isOpen: boolean;
@@ -13,7 +19,11 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
   const [provider, setProvider] = useState<string>('gemini');
   const [apiKey, setApiKey] = useState<string>('');
   const [model, setModel] = useState<string>('');
+  const [baseUrl, setBaseUrl] = useState<string>(DEFAULT_LOCAL_BASE_URL);
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState<boolean>(false);
   const [isTesting, setIsTesting] = useState<boolean>(false);
+  const [requestLimits, setRequestLimits] = useState<RequestLimits>(() => getRequestLimits('gemini'));
   const [currentConfig, setCurrentConfig] = useState<{
     provider: string;
     model: string;
@@ -25,16 +35,20 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
       const storedProvider = localStorage.getItem('chrono_provider') || 'gemini';
       const storedApiKey = localStorage.getItem('chrono_api_key') || '';
       const storedModel = localStorage.getItem('chrono_model') || '';
+      const storedBaseUrl = localStorage.getItem('chrono_base_url') || process.env.BASE_URL || DEFAULT_LOCAL_BASE_URL;
 
       setProvider(storedProvider);
       setApiKey(storedApiKey);
+      setBaseUrl(storedBaseUrl);
+      setAvailableModels([]);
+      setRequestLimits(getRequestLimits(storedProvider));
 
       // If no model in localStorage, use provider-specific defaults
       if (storedModel) {
         setModel(storedModel);
       } else {
         // Set default model based on provider
-        setModel(storedProvider === 'gemini' ? 'gemini-2.5-flash' : 'openai/gpt-oss-120b');
+        setModel(DEFAULT_MODELS[storedProvider] || DEFAULT_MODELS['gemini']);
       }
 
       // Load current effective config from environment
@@ -45,8 +59,40 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
     }
   }, [isOpen]);
 
+  const isKeyless = KEYLESS_PROVIDERS.includes(provider);
+  const isMock = provider === 'mock';
+  const isLocal = provider === 'local';
+  const providerLabel = PROVIDER_LABELS[provider] || provider;
+
   // Validation check
-  const isFormValid = provider && apiKey.trim() !== '' && model.trim() !== '';
+  const isFormValid = provider &&
+    (isKeyless || apiKey.trim() !== '') &&
+    model.trim() !== '' &&
+    (!isLocal || baseUrl.trim() !== '');
+
+  const handleLoadModels = async () => {
+    if (!baseUrl.trim()) return;
+
+    setIsLoadingModels(true);
+
+    try {
+      const models = await new OpenAICompatibleService(baseUrl, model, apiKey).listModels();
+      setAvailableModels(models);
+
+      if (models.length === 0) {
+        onShowToast('Server returned no models', 'info');
+      } else {
+        onShowToast(`Found ${models.length} model${models.length === 1 ? '' : 's'}`, 'success');
+        if (!models.includes(model.trim())) {
+          setModel(models[0]);
+        }
+      }
+    } catch (error: any) {
+      onShowToast(`Could not list models: ${error.message || 'Unknown error'}`, 'error');
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
 
   const handleTest = async () => {
     if (!isFormValid) return;
@@ -55,17 +101,12 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
 
     try {
       // Create temporary service instance for testing
-      const testService = provider === 'gemini'
-        ? new GeminiService(apiKey, model)
-        : new OpenRouterService(apiKey, model);
+      const testService = createAIService(provider, apiKey, model, baseUrl);
 
       const result = await testService.testConnection();
 
       if (result.success) {
-        onShowToast(
-          `Connection successful to ${provider === 'gemini' ? 'Google Gemini' : 'OpenRouter'}`,
-          'success'
-        );
+        onShowToast(`Connection successful to ${providerLabel}`, 'success');
       } else {
         onShowToast(`Connection failed: ${result.error}`, 'error');
       }
@@ -81,6 +122,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
     const currentStoredProvider = localStorage.getItem('chrono_provider') || 'gemini';
     const currentStoredKey = localStorage.getItem('chrono_api_key') || '';
     const currentStoredModel = localStorage.getItem('chrono_model') || 'gemini-2.5-flash';
+    const currentStoredBaseUrl = localStorage.getItem('chrono_base_url') || '';
 
     localStorage.setItem('chrono_provider', provider);
 
@@ -90,11 +132,20 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
     if (model) localStorage.setItem('chrono_model', model);
     else localStorage.removeItem('chrono_model');
 
+    if (isLocal) localStorage.setItem('chrono_base_url', baseUrl.trim());
+
+    // Limits apply to the running scheduler right away, so they never need a reload
+    saveRequestLimits(provider, {
+      concurrency: Math.max(1, Math.round(requestLimits.concurrency) || 1),
+      requestsPerMinute: Math.max(0, Math.round(requestLimits.requestsPerMinute) || 0)
+    });
+
     // Notify parent to reload services and data if changes occurred
     const needsReload =
       provider !== currentStoredProvider ||
       apiKey !== currentStoredKey ||
-      model !== currentStoredModel;
+      model !== currentStoredModel ||
+      (isLocal && baseUrl.trim() !== currentStoredBaseUrl);
 
     if (needsReload) {
       onSave();
@@ -106,7 +157,7 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
 
   // Helper to get default model placeholder based on provider
   const getModelPlaceholder = () => {
-    return provider === 'gemini' ? 'gemini-2.5-flash' : 'openai/gpt-oss-120b';
+    return DEFAULT_MODELS[provider] || DEFAULT_MODELS['gemini'];
   };
 
   // Helper to get API key link
@@ -135,13 +186,13 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
           <div className="px-6 py-3 bg-blue-50 border-b border-blue-100">
             <p className="text-sm text-gray-700">
               <span className="font-medium">Currently using:</span> {
-                currentConfig.provider === 'gemini' ? 'Google Gemini' : 'OpenRouter'
+                PROVIDER_LABELS[currentConfig.provider] || PROVIDER_LABELS['gemini']
               } with model <span className="font-mono text-xs bg-white px-2 py-0.5 rounded border border-gray-200">{currentConfig.model}</span>
             </p>
           </div>
         )}
 
-        <div className="p-6 space-y-5">
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">AI Provider</label>
             <select
@@ -149,49 +200,146 @@ const SettingsDialog: React.FC<SettingsDialogProps> = ({ isOpen, onClose, onSave
               onChange={(e) => {
                 const newProvider = e.target.value;
                 setProvider(newProvider);
+                setRequestLimits(getRequestLimits(newProvider));
 
                 // If model field is currently a default value or empty, switch to new provider's default
                 const currentModel = model.trim();
-                if (!currentModel || currentModel === 'gemini-2.5-flash' || currentModel === 'openai/gpt-oss-120b') {
-                  setModel(newProvider === 'gemini' ? 'gemini-2.5-flash' : 'openai/gpt-oss-120b');
+                if (!currentModel || Object.values(DEFAULT_MODELS).includes(currentModel)) {
+                  setModel(DEFAULT_MODELS[newProvider] || DEFAULT_MODELS['gemini']);
                 }
               }}
               className="w-full h-10 px-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none bg-white"
             >
               <option value="gemini">Google Gemini</option>
               <option value="openrouter">OpenRouter</option>
+              <option value="local">Local / OpenAI-compatible (Ollama, llama.cpp, vLLM)</option>
+              <option value="mock">Offline Mock (no API key)</option>
             </select>
             <p className="text-xs text-gray-500 mt-1">Select the backend service to power ChronoWeave.</p>
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              {provider === 'gemini' ? 'Google Gemini API Key' : 'OpenRouter API Key'}
-            </label>
-            <input
-              type="password"
-              value={apiKey}
-              onChange={(e) => setApiKey(e.target.value)}
-              placeholder={provider === 'gemini' ? "Google Gemini API Key" : "OpenRouter API Key"}
-              className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
-            />
-            <div className="text-xs text-gray-500 mt-1">
-              Get your API key from {getApiKeyLink()}.
+          {isMock && (
+            <p className="text-sm text-gray-600 bg-amber-50 border border-amber-100 rounded-md px-3 py-2">
+              Serves bundled sample figures, events and biographies. No network access or API key required.
+            </p>
+          )}
+
+          {isLocal && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Base URL</label>
+              <input
+                type="text"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={DEFAULT_LOCAL_BASE_URL}
+                className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none font-mono text-sm"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                API root of the server, e.g. <span className="font-mono">http://localhost:11434/v1</span> for Ollama or <span className="font-mono">http://localhost:8000/v1</span> for vLLM.
+              </p>
+            </div>
+          )}
+
+          {!isMock && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {provider === 'gemini' ? 'Google Gemini API Key' : isLocal ? 'API Key (optional)' : 'OpenRouter API Key'}
+              </label>
+              <input
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={provider === 'gemini' ? "Google Gemini API Key" : isLocal ? "Not required for most local servers" : "OpenRouter API Key"}
+                className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <div className="text-xs text-gray-500 mt-1">
+                {isLocal
+                  ? 'Only needed if your server or proxy requires a bearer token.'
+                  : <>Get your API key from {getApiKeyLink()}.</>}
+              </div>
+            </div>
+          )}
+
+          {!isMock && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Model ID</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={model}
+                  onChange={(e) => setModel(e.target.value)}
+                  placeholder={getModelPlaceholder()}
+                  list={isLocal ? 'local-model-list' : undefined}
+                  className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                {isLocal && (
+                  <button
+                    onClick={handleLoadModels}
+                    disabled={!baseUrl.trim() || isLoadingModels}
+                    className="h-10 px-3 text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100 rounded-md whitespace-nowrap transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isLoadingModels ? 'Loading...' : 'Load models'}
+                  </button>
+                )}
+              </div>
+              {isLocal && (
+                <datalist id="local-model-list">
+                  {availableModels.map(m => <option key={m} value={m} />)}
+                </datalist>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                {provider === 'gemini'
+                  ? 'Default: gemini-2.5-flash'
+                  : isLocal
+                    ? availableModels.length > 0
+                      ? `${availableModels.length} models available on the server.`
+                      : 'Model name as served by the server, e.g. llama3.1 for Ollama.'
+                    : 'Full model string ID from OpenRouter docs.'}
+              </p>
             </div>
+          )}
+
+          {!isMock && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Request Limits</label>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <input
+                    type="number"
+                    min={1}
+                    value={Number.isFinite(requestLimits.concurrency) ? requestLimits.concurrency : ''}
+                    onChange={(e) => setRequestLimits(prev => ({ ...prev, concurrency: e.target.valueAsNumber }))}
+                    className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Requests at once</p>
+                </div>
+                <div>
+                  <input
+                    type="number"
+                    min={0}
+                    value={Number.isFinite(requestLimits.requestsPerMinute) ? requestLimits.requestsPerMinute : ''}
+                    onChange={(e) => setRequestLimits(prev => ({ ...prev, requestsPerMinute: e.target.valueAsNumber }))}
+                    className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Requests per minute (0 for no limit)</p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Lower these if {providerLabel} answers with rate-limit errors. Opening a biography or relationship always goes ahead of background loading.
+              </p>
+            </div>
+          )}
+
+          <div className="pt-5 border-t border-gray-200">
+            <UsagePanel onShowToast={onShowToast} />
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Model ID</label>
-            <input
-              type="text"
-              value={model}
-              onChange={(e) => setModel(e.target.value)}
-              placeholder={getModelPlaceholder()}
-              className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              {provider === 'gemini' ? 'Default: gemini-2.5-flash' : 'Full model string ID from OpenRouter docs.'}
-            </p>
+          <div className="pt-5 border-t border-gray-200">
+            <DiagnosticsPanel />
+          </div>
+
+          <div className="pt-5 border-t border-gray-200">
+            <CacheInspector onShowToast={onShowToast} />
           </div>
         </div>
 
@@ -3,6 +3,7 @@ import React, { useEffect, useState, useRef, useMemo } from 'react';
 import { HistoricalFigure, FigureCategory } from '../types';
 import { fetchBatchFigureDetails } from '../services/wikiService';
 import { formatYear } from '../utils/formatters';
+import FactCheckBadge from './FactCheckBadge';
 
 import Tooltip from './Tooltip';
 import { useFigureActions } from '../hooks/useFigureActions';
@@ -14,6 +15,7 @@ interface SidebarProps {
     onTraceRelationships: (figure: HistoricalFigure, mouseY: number) => Promise<void>;
     onDiscover: (figure: HistoricalFigure) => void;
     onInspect: (figure: HistoricalFigure) => void;
+    onEdit?: (figure: HistoricalFigure) => void;
     activeTracingFigureId?: string;
     onUpdateSourceY?: (y: number) => void;
     isCollapsed: boolean;
@@ -33,6 +35,7 @@ const Sidebar: React.FC<SidebarProps> = ({
     onTraceRelationships,
     onDiscover,
     onInspect,
+    onEdit,
     activeTracingFigureId,
     onUpdateSourceY,
     isCollapsed,
@@ -274,6 +277,7 @@ const Sidebar: React.FC<SidebarProps> = ({
                                             <span className="text-sm text-gray-500 font-mono font-semibold whitespace-nowrap">
                                                 {formatYear(fig.birthYear)} — {formatYear(fig.deathYear)}
                                             </span>
+                                            <FactCheckBadge factCheck={fig.factCheck} className="self-center" />
                                         </div>
                                         <p className="text-xs text-emerald-800 font-bold uppercase tracking-wide mt-0.5 mb-2">{fig.occupation}</p>
 
@@ -292,11 +296,12 @@ const Sidebar: React.FC<SidebarProps> = ({
                                 </div>
                             </div>
 
-                            {!isEvent && (
+                            {(!isEvent || onEdit) && (
                                 <SidebarCardActions
                                     figure={fig}
                                     onDiscover={onDiscover}
                                     onInspect={onInspect}
+                                    onEdit={onEdit}
                                     onTrace={handleTrace}
                                     isTracing={isTracing}
                                 />
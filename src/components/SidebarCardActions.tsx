@@ -7,16 +7,18 @@ interface SidebarCardActionsProps {
     figure: HistoricalFigure;
     onDiscover: (figure: HistoricalFigure) => void;
     onInspect: (figure: HistoricalFigure) => void;
+    onEdit?: (figure: HistoricalFigure) => void;
     onTrace: (figure: HistoricalFigure, clientY: number) => Promise<void>;
     isTracing: boolean;
 }
 
-const SidebarCardActions: React.FC<SidebarCardActionsProps> = ({ figure, onDiscover, onInspect, onTrace, isTracing }) => {
+const SidebarCardActions: React.FC<SidebarCardActionsProps> = ({ figure, onDiscover, onInspect, onEdit, onTrace, isTracing }) => {
     const actions = useFigureActions({
         figure,
         onDiscover,
         onTrace: (f, y) => onTrace(f, y),
         onInspect,
+        onEdit,
         isDiscovering: false,
         isTracing
     });
@@ -1,10 +1,16 @@
 
-import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { getTextColorForBackground } from '../utils/colors';
 import { FigureCategory, HistoricalFigure, LayoutData, ViewState } from '../types';
-import { CATEGORY_COLORS } from '../constants';
+import { BAR_CENTER_OFFSET, BASE_PIXELS_PER_YEAR, CATEGORY_COLORS, CATEGORY_LIST, ROW_HEIGHT } from '../constants';
 import { formatYear } from '../utils/formatters';
+import { rebaseViewState } from '../utils/viewState';
+import { CENTURY_YEARS, YearRange } from '../utils/centuries';
 import ActionBar from './ActionBar';
+import { calculateTextWidth } from '../utils/timelineLayout';
+import { useTimelineLayout } from '../hooks/useTimelineLayout';
+import { clusterByCentury, fitClusterView, getDensityBands, getDetailLevel } from '../utils/zoomDetail';
+import { formatAxisLabel, getTimeAxis } from '../utils/timeAxis';
 
 interface TimelineCanvasProps {
   figures: HistoricalFigure[];
@@ -30,6 +36,7 @@ interface TimelineCanvasProps {
   onDiscover?: (figure: HistoricalFigure) => void;
   onTrace?: (figure: HistoricalFigure, clientY: number) => void;
   onInspect?: (figure: HistoricalFigure) => void;
+  onEdit?: (figure: HistoricalFigure) => void;
   isDiscovering?: boolean;
   onLayoutChange?: (levels: Map<string, number>) => void;
   onCanvasInteraction?: () => void;
@@ -38,306 +45,35 @@ interface TimelineCanvasProps {
   hasSidebarSelection: boolean;
   selectedCategories: Set<FigureCategory>;
   isLegendCollapsed: boolean;
+  // Lazy loading: reports the visible years once panning settles
+  onVisibleYearsChange?: (fromYear: number, toYear: number) => void;
+  // Years that may be panned into beyond each end of the range
+  exploreMarginYears?: number;
+  // Century currently being fetched, shown with a loading band
+  loadingRange?: YearRange | null;
 }
 
-// Config
-const BASE_PIXELS_PER_YEAR = 10; 
-const ROW_HEIGHT = 180; 
-const BAR_CENTER_OFFSET = 45; 
-const AXIS_INTERVAL = 50; 
-const SIDEBAR_OPEN_WIDTH = 544; 
-const FLOATING_CARD_WIDTH = 320; 
-
-// Helper for line intersection checks (p1->p2 vs p3->p4)
-function linesIntersect(p1: {x:number, y:number}, p2: {x:number, y:number}, p3: {x:number, y:number}, p4: {x:number, y:number}): boolean {
-    const {x: x1, y: y1} = p1;
-    const {x: x2, y: y2} = p2;
-    const {x: x3, y: y3} = p3;
-    const {x: x4, y: y4} = p4;
-
-    const denom = (y4 - y3) * (x2 - x1) - (x4 - x3) * (y2 - y1);
-    if (denom === 0) return false;
-
-    const ua = ((x4 - x3) * (y1 - y3) - (y4 - y3) * (x1 - x3)) / denom;
-    const ub = ((x2 - x1) * (y1 - y3) - (y2 - y1) * (x1 - x3)) / denom;
-
-    // We use a slightly smaller range than 0-1 to allow touching endpoints but not crossing "bodies"
-    return (ua > 0.05 && ua < 0.95) && (ub > 0.05 && ub < 0.95);
-}
-
-// Font size constants (matching Tailwind classes)
-const FONT_SIZE_NAME = 22;      // text-[22px]
-const FONT_SIZE_DATE = 18;      // text-lg
-const FONT_SIZE_OCCUPATION = 18; // text-[18px]
-
-// Character width multipliers (empirically derived)
-const CHAR_WIDTH_UPPERCASE = 0.82;  // font-black uppercase → ~18px per char
-const CHAR_WIDTH_BOLD = 0.78;       // font-bold → ~14px per char
-const CHAR_WIDTH_CAPITALIZE = 0.75; // font-bold capitalized → ~13.5px per char
-
-interface TextMeasurement {
-  nameWidthPx: number;
-  dateWidthPx: number;
-  occupationWidthPx: number;
-  totalWidthPx: number;
-  totalWidthYears: number;
-}
-
-/**
- * Calculate accurate text width for a figure/event label
- * @param fig - The historical figure
- * @param isUppercase - Whether name is rendered in uppercase
- * @param includeDate - Whether to include date width
- * @returns Object with pixel and year-space widths
- */
-function calculateTextWidth(
-  fig: HistoricalFigure,
-  isUppercase: boolean,
-  includeDate: boolean = true
-): TextMeasurement {
-  // Name width (always uppercase in rendering)
-  const nameWidthPx = Math.ceil(fig.name.length * FONT_SIZE_NAME * CHAR_WIDTH_UPPERCASE);
-
-  // Occupation width (capitalized)
-  const occupationWidthPx = Math.ceil(fig.occupation.length * FONT_SIZE_OCCUPATION * CHAR_WIDTH_CAPITALIZE);
-
-  // Date width - CRITICAL: This was missing for floating labels!
-  let dateWidthPx = 0;
-  if (includeDate) {
-    const startYStr = formatYear(fig.birthYear);
-    const endYStr = fig.deathYear >= new Date().getFullYear() ? '' : formatYear(fig.deathYear);
-    // Format: "YYYY - YYYY" or "YYYY BC - YYYY" with " - " separator
-    const dateTextLength = startYStr.length + (endYStr ? endYStr.length + 3 : 2);
-    dateWidthPx = Math.ceil(dateTextLength * FONT_SIZE_DATE * CHAR_WIDTH_BOLD) + 60; // +60px padding
-  }
-
-  // Date and occupation are on the same line for floating labels, so add them together
-  // Format: "YYYY - YYYY • occupation" - add bullet separator width (~15px)
-  const dateAndOccupationWidthPx = dateWidthPx + occupationWidthPx + 15;
-
-  const totalWidthPx = Math.max(nameWidthPx, dateAndOccupationWidthPx);
-  const totalWidthYears = totalWidthPx / BASE_PIXELS_PER_YEAR;
-
-  return {
-    nameWidthPx,
-    dateWidthPx,
-    occupationWidthPx,
-    totalWidthPx,
-    totalWidthYears
+/** Imperative access for features that need the rendered layout or camera, such as image export and shared links */
+export interface TimelineCanvasHandle {
+  getExportSnapshot: () => {
+    layoutData: LayoutData[];
+    viewState: ViewState;
+    viewportWidth: number;
+    viewportHeight: number;
   };
+  setViewState: (viewState: ViewState) => void;
+  // Keeps the view on the same years when the range's start year changes
+  rebaseStartYear: (fromStartYear: number, toStartYear: number) => void;
+  // Lays every row out again from scratch; normally only new figures are slotted in
+  repackLayout: () => void;
 }
 
-/**
- * Calculate total occupied width for collision detection
- * Accounts for bar width, text content, and padding
- */
-function calculateOccupiedWidth(
-  fig: HistoricalFigure,
-  forFloatingLabel: boolean = false
-): number {
-  const duration = fig.deathYear - fig.birthYear;
-  const isEvent = fig.category === 'EVENTS';
-  const isShort = duration < 15;
-
-  // For short events in PASS 1: only the tiny bar matters
-  if (!forFloatingLabel && isEvent && isShort) {
-    return duration;
-  }
-
-  // For floating labels - FIX: Now includes date width!
-  if (forFloatingLabel) {
-    const textMeasurement = calculateTextWidth(fig, true, true);
-
-    // Account for min-w-[200px] constraint (line 1124)
-    const MIN_FLOATING_WIDTH_PX = 200;
-    const contentWidthPx = Math.max(textMeasurement.totalWidthPx, MIN_FLOATING_WIDTH_PX);
-
-    // Add padding: pl-2 = 8px
-    const paddingPx = 8;
-    const totalWidthPx = contentWidthPx + paddingPx;
-
-    return (totalWidthPx / BASE_PIXELS_PER_YEAR) + 5; // +5 years buffer
-  }
-
-  // For standard elements
-  const textMeasurement = calculateTextWidth(fig, true, true);
-  const barWidthPx = Math.max(duration * BASE_PIXELS_PER_YEAR, 40);
-  const paddingPx = 4; // px-1 = 4px total horizontal padding
-  const maxContentWidthPx = Math.max(textMeasurement.totalWidthPx, barWidthPx) + paddingPx;
-
-  return (maxContentWidthPx / BASE_PIXELS_PER_YEAR) + 5;
-}
-
-// Helper functions for simplified short event placement
-
-function tryPlaceLabelInGap(
-    figure: HistoricalFigure,
-    gapLevel: number,
-    horizontalOffset: number,
-    labelWidth: number,
-    barLevel: number,
-    occupiedGaps: { start: number; end: number }[][],
-    placedVectors: { x1: number; y1: number; x2: number; y2: number }[]
-): { success: boolean; visualY?: number } {
-    const LABEL_MARGIN = 10;
-
-    // Don't allow negative gap levels (gap -0.5 would be above row 0, which doesn't exist)
-    if (gapLevel < 0) {
-        return { success: false };
-    }
-
-    const gapIndex = Math.floor(gapLevel);
-    const labelStart = figure.birthYear + horizontalOffset;
-    const labelEnd = labelStart + labelWidth;
-
-    // Check box collision with existing gaps
-    let hasOverlap = false;
-    if (gapIndex >= 0 && gapIndex < occupiedGaps.length) {
-        const gapIntervals = occupiedGaps[gapIndex];
-        hasOverlap = gapIntervals.some(interval =>
-            (labelStart < interval.end + LABEL_MARGIN) &&
-            (labelEnd + LABEL_MARGIN > interval.start)
-        );
-    }
-
-    if (hasOverlap) {
-        return { success: false };
-    }
-
-    // Check connector crossing with existing vectors
-    // Center labels vertically in gaps - use same offset for both directions
-    const visualOffset = 175; // Centered in gap (empirically determined)
-    const visualY = gapIndex * ROW_HEIGHT + visualOffset;
-
-    const barVecX = figure.birthYear * BASE_PIXELS_PER_YEAR;
-    const barVecY = barLevel * ROW_HEIGHT + 80;
-    const labelVecX = labelStart * BASE_PIXELS_PER_YEAR;
-
-    const hasVectorCrossing = placedVectors.some(vec =>
-        linesIntersect(
-            { x: barVecX, y: barVecY },
-            { x: labelVecX, y: visualY },
-            { x: vec.x1, y: vec.y1 },
-            { x: vec.x2, y: vec.y2 }
-        )
-    );
-
-    if (hasVectorCrossing) {
-        return { success: false };
-    }
-
-    return { success: true, visualY };
-}
-
-function removeBarInterval(
-    level: number,
-    barStartYear: number,
-    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][]
-): boolean {
-    if (level < 0 || level >= occupiedRows.length) {
-        console.error(`removeBarInterval: Invalid level ${level}`);
-        return false;
-    }
-
-    const intervals = occupiedRows[level];
-    const barIndex = intervals.findIndex(
-        interval => interval.type === 'bar' && Math.abs(interval.start - barStartYear) < 0.1
-    );
-
-    if (barIndex === -1) {
-        console.error(`removeBarInterval: Bar not found at level ${level}, start ${barStartYear}`);
-        return false;
-    }
-
-    intervals.splice(barIndex, 1);
-    return true;
-}
-
-function findNextAvailableRow(
-    figure: HistoricalFigure,
-    startLevel: number,
-    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][],
-    barWidth: number
-): number {
-    const MARGIN = 6;
-    const MAX_ROWS_TO_SEARCH = 20;
-
-    const collisionEnd = figure.birthYear + barWidth;
-
-    for (let searchLevel = startLevel; searchLevel < startLevel + MAX_ROWS_TO_SEARCH; searchLevel++) {
-        if (searchLevel < occupiedRows.length) {
-            const intervals = occupiedRows[searchLevel];
-            const hasOverlap = intervals.some(interval =>
-                (figure.birthYear < interval.end + MARGIN) &&
-                (collisionEnd + MARGIN > interval.start)
-            );
-
-            if (!hasOverlap) {
-                return searchLevel;
-            }
-        } else {
-            return searchLevel;
-        }
-    }
-
-    return -1;
-}
-
-function addBarInterval(
-    level: number,
-    barStartYear: number,
-    barWidth: number,
-    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][]
-): void {
-    while (occupiedRows.length <= level) {
-        occupiedRows.push([]);
-    }
-
-    occupiedRows[level].push({
-        start: barStartYear,
-        end: barStartYear + barWidth,
-        type: 'bar'
-    });
-}
-
-function recordLabelInterval(
-    gapLevel: number,
-    labelStart: number,
-    labelWidth: number,
-    occupiedGaps: { start: number; end: number }[][]
-): void {
-    const gapIndex = Math.floor(gapLevel);
-
-    while (occupiedGaps.length <= gapIndex) {
-        occupiedGaps.push([]);
-    }
-
-    occupiedGaps[gapIndex].push({
-        start: labelStart,
-        end: labelStart + labelWidth
-    });
-}
-
-function recordConnectorVector(
-    figure: HistoricalFigure,
-    barLevel: number,
-    labelYearOffset: number,
-    labelVisualY: number,
-    placedVectors: { x1: number; y1: number; x2: number; y2: number }[]
-): void {
-    const barVecX = figure.birthYear * BASE_PIXELS_PER_YEAR;
-    const barVecY = barLevel * ROW_HEIGHT + 80;
-    const labelVecX = (figure.birthYear + labelYearOffset) * BASE_PIXELS_PER_YEAR;
-
-    placedVectors.push({
-        x1: barVecX,
-        y1: barVecY,
-        x2: labelVecX,
-        y2: labelVisualY
-    });
-}
+// Config
+const SIDEBAR_OPEN_WIDTH = 544; 
+const FLOATING_CARD_WIDTH = 320; 
+const DENSITY_BAND_YEARS = 10;
 
-const TimelineCanvas: React.FC<TimelineCanvasProps> = ({ 
+const TimelineCanvas = forwardRef<TimelineCanvasHandle, TimelineCanvasProps>(({ 
   figures, 
   startYear, 
   endYear,
@@ -355,14 +91,18 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
   onDiscover,
   onTrace,
   onInspect,
+  onEdit,
   isDiscovering = false,
   onLayoutChange,
   onCanvasInteraction,
   isBusy = false,
   hasSidebarSelection,
   selectedCategories,
-  isLegendCollapsed
-}) => {
+  isLegendCollapsed,
+  onVisibleYearsChange,
+  exploreMarginYears = 0,
+  loadingRange = null
+}, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const warnedCategoriesRef = useRef<Set<string>>(new Set());
 
@@ -449,354 +189,8 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
   }, [targetSidebarWidth]);
 
 
-  // 1. Calculate Layout (Multi-Pass)
-  const { layoutData, totalRows } = useMemo(() => {
-    const priorityIds = new Set<string>();
-    if (discoverySourceId) priorityIds.add(discoverySourceId);
-    newlyDiscoveredIds.forEach(id => priorityIds.add(id));
-
-    const priorityFigures: HistoricalFigure[] = [];
-    const standardFigures: HistoricalFigure[] = [];
-
-    figures.forEach(fig => {
-        // FILTER: Remove extremely short events < 3 years
-        if (fig.category === 'EVENTS' && (fig.deathYear - fig.birthYear < 3)) {
-            return;
-        }
-        if (priorityIds.has(fig.id)) {
-            priorityFigures.push(fig);
-        } else {
-            standardFigures.push(fig);
-        }
-    });
-
-    priorityFigures.sort((a, b) => a.birthYear - b.birthYear);
-    standardFigures.sort((a, b) => a.birthYear - b.birthYear);
-
-    // Merge: Priority -> Standard (Mixed)
-    const sortedFigures = [...priorityFigures, ...standardFigures];
-    
-    // --- PASS 1: Place Bars ---
-    // We map occupied intervals per level (row)
-    const occupiedRows: { start: number, end: number, type: 'bar' | 'label' }[][] = [];
-    // We also map "Gaps" between rows. Gap K is between Row K and Row K+1.
-    const occupiedGaps: { start: number, end: number }[][] = [];
-
-    const tempLayout: LayoutData[] = [];
-    const MARGIN = 6; 
-
-    const getOccupiedWidth = (fig: HistoricalFigure, forFloatingLabel = false) => {
-        return calculateOccupiedWidth(fig, forFloatingLabel);
-    };
-
-    sortedFigures.forEach(fig => {
-        const width = getOccupiedWidth(fig);
-        const collisionEnd = fig.birthYear + width;
-
-        let placedLevel = -1;
-        
-        // Find first row that fits
-        for (let r = 0; r < occupiedRows.length; r++) {
-            const intervals = occupiedRows[r];
-            const hasOverlap = intervals.some(interval => {
-                return (fig.birthYear < interval.end + MARGIN) && (collisionEnd + MARGIN > interval.start);
-            });
-
-            if (!hasOverlap) {
-                placedLevel = r;
-                intervals.push({ start: fig.birthYear, end: collisionEnd, type: 'bar' });
-                break;
-            }
-        }
-
-        if (placedLevel === -1) {
-            placedLevel = occupiedRows.length;
-            occupiedRows.push([{ start: fig.birthYear, end: collisionEnd, type: 'bar' }]);
-        }
-
-        tempLayout.push({ figure: fig, level: placedLevel });
-    });
-
-    // --- PASS 2: Place Floating Labels for Short Events (Gaps Only, with Bar Relocation) ---
-    const placedVectors: { x1: number, y1: number, x2: number, y2: number }[] = [];
-    
-    const MAX_RELOCATION_ATTEMPTS = 10;
-
-    tempLayout.forEach(item => {
-        const { figure, level } = item;
-        const duration = figure.deathYear - figure.birthYear;
-        const isEvent = figure.category === 'EVENTS';
-        const isShort = duration < 15;
-
-        if (!isEvent || !isShort) return;
-
-        const labelWidth = getOccupiedWidth(figure, true);
-        // Label positioned at center of bar + 10 years offset
-        const barCenter = duration / 2;
-        const horizontalOffset = barCenter + 3;
-
-        let currentBarLevel = level;
-        let placementSuccessful = false;
-        let relocationAttempts = 0;
-
-        while (!placementSuccessful && relocationAttempts < MAX_RELOCATION_ATTEMPTS) {
-            // Try gap above first (-0.5)
-            const aboveGapLevel = currentBarLevel - 0.5;
-            const abovePlacement = tryPlaceLabelInGap(
-                figure, aboveGapLevel, horizontalOffset, labelWidth,
-                currentBarLevel, occupiedGaps, placedVectors
-            );
-
-            if (abovePlacement.success) {
-                item.level = currentBarLevel;
-                item.labelLevel = aboveGapLevel;
-                item.labelYearOffset = horizontalOffset;
-
-                recordLabelInterval(aboveGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
-                recordConnectorVector(figure, currentBarLevel, horizontalOffset, abovePlacement.visualY!, placedVectors);
-
-                placementSuccessful = true;
-                break;
-            }
-
-            // Try gap below (+0.5)
-            const belowGapLevel = currentBarLevel + 0.5;
-            const belowPlacement = tryPlaceLabelInGap(
-                figure, belowGapLevel, horizontalOffset, labelWidth,
-                currentBarLevel, occupiedGaps, placedVectors
-            );
-
-            if (belowPlacement.success) {
-                item.level = currentBarLevel;
-                item.labelLevel = belowGapLevel;
-                item.labelYearOffset = horizontalOffset;
-
-                recordLabelInterval(belowGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
-                recordConnectorVector(figure, currentBarLevel, horizontalOffset, belowPlacement.visualY!, placedVectors);
-
-                placementSuccessful = true;
-                break;
-            }
-
-            // BOTH GAPS BLOCKED: Relocate bar to next available row
-            const barWidth = getOccupiedWidth(figure, false);
-            const newBarLevel = findNextAvailableRow(
-                figure, currentBarLevel + 1, occupiedRows, barWidth
-            );
-
-            if (newBarLevel === -1) {
-                // No available rows - create new row at bottom
-                currentBarLevel = occupiedRows.length;
-                occupiedRows.push([{
-                    start: figure.birthYear,
-                    end: figure.birthYear + barWidth,
-                    type: 'bar'
-                }]);
-                relocationAttempts++;
-                continue;
-            }
-
-            // Remove old bar interval
-            removeBarInterval(currentBarLevel, figure.birthYear, occupiedRows);
-
-            // Add new bar interval
-            addBarInterval(newBarLevel, figure.birthYear, barWidth, occupiedRows);
-
-            currentBarLevel = newBarLevel;
-            relocationAttempts++;
-        }
-
-        // Emergency fallback if exhausted attempts
-        if (!placementSuccessful) {
-            console.warn(`Failed to place label for ${figure.name} after ${MAX_RELOCATION_ATTEMPTS} relocations`);
-
-            // Create new row for bar and place label in gap below
-            const emergencyBarLevel = occupiedRows.length;
-            const emergencyGapLevel = emergencyBarLevel + 0.5;
-
-            item.level = emergencyBarLevel;
-            item.labelLevel = emergencyGapLevel;
-            item.labelYearOffset = horizontalOffset;
-
-            // Add bar interval to new row
-            occupiedRows.push([{
-                start: figure.birthYear,
-                end: figure.birthYear + getOccupiedWidth(figure, false),
-                type: 'bar'
-            }]);
-
-            // Record label in gap below the new row
-            recordLabelInterval(emergencyGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
-
-            // Record connector vector (bar to label below)
-            const visualOffset = 175; // Same as tryPlaceLabelInGap
-            const visualY = emergencyBarLevel * ROW_HEIGHT + visualOffset;
-            recordConnectorVector(figure, emergencyBarLevel, horizontalOffset, visualY, placedVectors);
-        }
-    });
-
-    // --- PASS 3: Post-Placement Overlap Detection & Resolution ---
-    interface OverlapInfo {
-      figureId: string;
-      layoutIndex: number;
-      overlapsWith: string[];
-      isFloatingLabel: boolean;
-    }
-
-    function detectOverlaps(): OverlapInfo[] {
-      const overlaps: OverlapInfo[] = [];
-      const OVERLAP_THRESHOLD = 2; // Years
-
-      tempLayout.forEach((item, index) => {
-        const { figure, level, labelLevel, labelYearOffset } = item;
-        const duration = figure.deathYear - figure.birthYear;
-        const isEvent = figure.category === 'EVENTS';
-        const isShort = duration < 15;
-        const hasFloatingLabel = isEvent && isShort && labelLevel !== undefined;
-
-        const overlapsWith: string[] = [];
-
-        if (hasFloatingLabel) {
-          // Check floating label overlaps
-          const labelWidth = calculateOccupiedWidth(figure, true);
-          const labelStart = figure.birthYear + (labelYearOffset ?? 0);
-          const labelEnd = labelStart + labelWidth;
-          const labelRow = Math.floor(labelLevel ?? level);
-
-          tempLayout.forEach((other, otherIndex) => {
-            if (index === otherIndex) return;
-
-            const otherDuration = other.figure.deathYear - other.figure.birthYear;
-            const otherIsEvent = other.figure.category === 'EVENTS';
-            const otherIsShort = otherDuration < 15;
-
-            // Check against other floating labels
-            if (otherIsEvent && otherIsShort && other.labelLevel !== undefined) {
-              const otherLabelRow = Math.floor(other.labelLevel);
-              if (Math.abs(labelRow - otherLabelRow) < 1) {
-                const otherLabelWidth = calculateOccupiedWidth(other.figure, true);
-                const otherLabelStart = other.figure.birthYear + (other.labelYearOffset ?? 0);
-                const otherLabelEnd = otherLabelStart + otherLabelWidth;
-
-                if ((labelStart < otherLabelEnd + OVERLAP_THRESHOLD) &&
-                    (labelEnd + OVERLAP_THRESHOLD > otherLabelStart)) {
-                  overlapsWith.push(other.figure.id);
-                }
-              }
-            }
-
-            // Skip checking against standard elements - floating labels are in gaps,
-            // which are vertically separated from row content
-            // Only check against other floating labels (already done above)
-          });
-        } else {
-          // Check standard element overlaps
-          const width = calculateOccupiedWidth(figure, false);
-          const end = figure.birthYear + width;
-
-          tempLayout.forEach((other, otherIndex) => {
-            if (index === otherIndex) return;
-            if (Math.abs(level - other.level) > 0.6) return; // Not in same row
-
-            const otherDuration = other.figure.deathYear - other.figure.birthYear;
-            const otherIsEvent = other.figure.category === 'EVENTS';
-            const otherIsShort = otherDuration < 15;
-
-            if (otherIsEvent && otherIsShort && other.labelLevel !== undefined) return;
-
-            const otherWidth = calculateOccupiedWidth(other.figure, false);
-            const otherEnd = other.figure.birthYear + otherWidth;
-
-            if ((figure.birthYear < otherEnd + OVERLAP_THRESHOLD) &&
-                (end + OVERLAP_THRESHOLD > other.figure.birthYear)) {
-              overlapsWith.push(other.figure.id);
-            }
-          });
-        }
-
-        if (overlapsWith.length > 0) {
-          overlaps.push({
-            figureId: figure.id,
-            layoutIndex: index,
-            overlapsWith,
-            isFloatingLabel: hasFloatingLabel
-          });
-        }
-      });
-
-      return overlaps;
-    }
-
-    function resolveOverlaps(overlaps: OverlapInfo[]): void {
-      // Prioritize floating labels (easier to move)
-      const sortedOverlaps = [...overlaps].sort((a, b) => {
-        if (a.isFloatingLabel && !b.isFloatingLabel) return -1;
-        if (!a.isFloatingLabel && b.isFloatingLabel) return 1;
-        return 0;
-      });
-
-      sortedOverlaps.forEach(overlap => {
-        const item = tempLayout[overlap.layoutIndex];
-        const { figure, level } = item;
-
-        if (overlap.isFloatingLabel) {
-          // Try to relocate floating label to opposite gap
-          const labelWidth = calculateOccupiedWidth(figure, true);
-          const barCenter = (figure.deathYear - figure.birthYear) / 2;
-          const horizontalOffset = barCenter + 3;
-
-          const currentLabelLevel = item.labelLevel ?? level;
-          const isCurrentlyAbove = currentLabelLevel < level;
-          const newGapLevel = isCurrentlyAbove ? level + 0.5 : level - 0.5;
-
-          const newPlacement = tryPlaceLabelInGap(
-            figure, newGapLevel, horizontalOffset, labelWidth,
-            level, occupiedGaps, placedVectors
-          );
-
-          if (newPlacement.success) {
-            // Remove old gap interval
-            const oldGapIndex = Math.floor(currentLabelLevel);
-            if (oldGapIndex >= 0 && oldGapIndex < occupiedGaps.length) {
-              const labelStart = figure.birthYear + (item.labelYearOffset ?? horizontalOffset);
-              const intervals = occupiedGaps[oldGapIndex];
-              const intervalIndex = intervals.findIndex(
-                interval => Math.abs(interval.start - labelStart) < 0.1
-              );
-              if (intervalIndex !== -1) {
-                intervals.splice(intervalIndex, 1);
-              }
-            }
-
-            // Update placement
-            item.labelLevel = newGapLevel;
-            item.labelYearOffset = horizontalOffset;
-            recordLabelInterval(newGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
-            recordConnectorVector(figure, level, horizontalOffset, newPlacement.visualY!, placedVectors);
-          } else {
-            console.warn(`Could not resolve overlap for floating label: ${figure.name}`);
-          }
-        } else {
-          console.warn(`Detected overlap for standard element: ${figure.name}`);
-        }
-      });
-    }
-
-    // Execute overlap detection and resolution
-    const detectedOverlaps = detectOverlaps();
-    if (detectedOverlaps.length > 0) {
-      console.log(`Detected ${detectedOverlaps.length} overlaps, attempting resolution...`);
-      resolveOverlaps(detectedOverlaps);
-    }
-
-    // Determine total rows for canvas height. 
-    // We check both regular rows and if any gaps push beyond the visual bounds
-    const maxRowIndex = occupiedRows.length;
-    const maxGapIndex = occupiedGaps.length;
-    const effectiveTotalRows = Math.max(maxRowIndex, maxGapIndex + 0.5); 
-
-    return { layoutData: tempLayout, totalRows: Math.ceil(effectiveTotalRows) };
-  }, [figures, discoverySourceId, newlyDiscoveredIds]);
+  // 1. Calculate Layout (Multi-Pass, off the main thread)
+  const { layoutData, totalRows, repack } = useTimelineLayout(figures, discoverySourceId, newlyDiscoveredIds);
 
   useEffect(() => {
       if (onLayoutChange) {
@@ -808,6 +202,20 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
       }
   }, [layoutData, onLayoutChange]);
 
+  useImperativeHandle(ref, () => ({
+    getExportSnapshot: () => ({
+      layoutData,
+      viewState,
+      viewportWidth: containerRef.current?.clientWidth ?? window.innerWidth,
+      viewportHeight: containerRef.current?.clientHeight ?? window.innerHeight
+    }),
+    setViewState,
+    rebaseStartYear: (fromStartYear: number, toStartYear: number) => {
+      setViewState(prev => rebaseViewState(prev, fromStartYear, toStartYear));
+    },
+    repackLayout: repack
+  }), [layoutData, viewState, repack]);
+
   // 2. Auto-Zoom logic
   useEffect(() => {
     if (focusedFigureId && containerRef.current && !isDiscovering && isSearchFocusActive) {
@@ -843,7 +251,36 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [layoutData, focusedFigureId, isDiscovering, isSearchFocusActive]);
 
+  // Semantic zoom: cards are replaced by density bands and century clusters when zoomed far out
+  const detailLevel = getDetailLevel(viewState.scale);
+  const overview = useMemo(() => {
+    if (detailLevel !== 'overview') return null;
+    const items = selectedCategories.size > 0
+      ? layoutData.filter(({ figure }) => selectedCategories.has(figure.category))
+      : layoutData;
+    const bands = getDensityBands(items, DENSITY_BAND_YEARS);
+    return {
+      clusters: clusterByCentury(items),
+      bands,
+      maxBandCount: Math.max(1, ...bands.map(band => band.count))
+    };
+  }, [detailLevel, layoutData, selectedCategories]);
+  const renderedLayout = overview ? [] : layoutData;
+
   const contentWidth = (endYear - startYear) * BASE_PIXELS_PER_YEAR;
+  const exploreMarginPx = exploreMarginYears * BASE_PIXELS_PER_YEAR;
+
+  // Report the visible years once the view has been still for a moment
+  useEffect(() => {
+    if (!onVisibleYearsChange) return;
+    const timer = setTimeout(() => {
+      const width = containerRef.current?.clientWidth ?? window.innerWidth;
+      const fromYear = startYear + (-viewState.translateX / viewState.scale) / BASE_PIXELS_PER_YEAR;
+      const toYear = startYear + ((width - viewState.translateX) / viewState.scale) / BASE_PIXELS_PER_YEAR;
+      onVisibleYearsChange(fromYear, toYear);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [viewState, startYear, onVisibleYearsChange]);
 
   // 3. Interaction Handlers
 
@@ -910,7 +347,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
           // Clamp X panning
           const viewportWidth = rect.width;
           const totalTimelineWidth = contentWidth * prev.scale;
-          const buffer = viewportWidth * 0.8;
+          const buffer = viewportWidth * 0.8 + exploreMarginPx * prev.scale;
           const maxTranslateX = buffer;
           const minTranslateX = viewportWidth - totalTimelineWidth - buffer;
           nextX = Math.min(maxTranslateX, Math.max(minTranslateX, nextX));
@@ -922,7 +359,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
 
     el.addEventListener('wheel', handleWheel, { passive: false });
     return () => el.removeEventListener('wheel', handleWheel);
-  }, [highlightedFigureIds, onCanvasInteraction, contentWidth]);
+  }, [highlightedFigureIds, onCanvasInteraction, contentWidth, exploreMarginPx]);
 
   // Cleanup trackpad detection timer
   useEffect(() => {
@@ -1011,6 +448,15 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
             return;
         }
 
+        // Clicking a century cluster zooms to fit its figures
+        const clusterCentury = hitElement?.closest('[data-cluster-century]')?.getAttribute('data-cluster-century');
+        const cluster = clusterCentury ? overview?.clusters.find(c => c.century === Number(clusterCentury)) : null;
+        if (cluster) {
+            const width = containerRef.current?.clientWidth ?? window.innerWidth;
+            setViewState(fitClusterView(cluster, startYear, width));
+            return;
+        }
+
         // HIT TEST FOR FIGURE
         // Because of pointer capture on container, the e.target will likely be the container.
         // We use elementFromPoint to find what is visually under the cursor.
@@ -1095,7 +541,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
               const rect = containerRef.current.getBoundingClientRect();
               const viewportWidth = rect.width;
               const totalTimelineWidth = contentWidth * prev.scale;
-              const buffer = viewportWidth * 0.8;
+              const buffer = viewportWidth * 0.8 + exploreMarginPx * prev.scale;
               const maxTranslateX = buffer;
               const minTranslateX = viewportWidth - totalTimelineWidth - buffer;
               nextX = Math.min(maxTranslateX, Math.max(minTranslateX, nextX));
@@ -1194,12 +640,12 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
   
   const contentHeight = (totalRows + 1) * ROW_HEIGHT + 100;
   
-  const tickStart = Math.floor((startYear - 500) / AXIS_INTERVAL) * AXIS_INTERVAL;
-  const tickEnd = Math.ceil((endYear + 500) / AXIS_INTERVAL) * AXIS_INTERVAL;
-  const ticks = [];
-  for (let y = tickStart; y <= tickEnd; y += AXIS_INTERVAL) {
-      ticks.push(y);
-  }
+  // The axis follows the zoom: its interval goes from millennia down to single years as pixels per year grow
+  const viewportWidthPx = containerRef.current?.clientWidth ?? window.innerWidth;
+  const visibleFromYear = startYear + (-viewState.translateX / viewState.scale) / BASE_PIXELS_PER_YEAR;
+  const visibleToYear = startYear + ((viewportWidthPx - viewState.translateX) / viewState.scale) / BASE_PIXELS_PER_YEAR;
+  const axis = getTimeAxis(visibleFromYear, visibleToYear, BASE_PIXELS_PER_YEAR * viewState.scale);
+  const yearToScreenX = (year: number) => (year - startYear) * BASE_PIXELS_PER_YEAR * viewState.scale + viewState.translateX;
 
   const hoveredLayoutItem = hoveredFigureId ? layoutData.find(l => l.figure.id === hoveredFigureId) : null;
   const isSearchMode = highlightedFigureIds.length > 0 && !isDiscovering && isSearchFocusActive;
@@ -1210,6 +656,16 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
     ? ((selectedYear - startYear) * BASE_PIXELS_PER_YEAR * viewState.scale) + viewState.translateX
     : null;
 
+  // Screen position of the loading band; the label stays on screen while any of the band is visible
+  const loadingBand = loadingRange ? (() => {
+      const left = (loadingRange.start - startYear) * BASE_PIXELS_PER_YEAR * viewState.scale + viewState.translateX;
+      const width = (loadingRange.end - loadingRange.start) * BASE_PIXELS_PER_YEAR * viewState.scale;
+      const visibleLeft = Math.max(left, 0);
+      const visibleRight = Math.min(left + width, viewportWidthPx);
+      const labelX = visibleRight > visibleLeft ? (visibleLeft + visibleRight) / 2 : left + width / 2;
+      return { range: loadingRange, left, width, labelX };
+  })() : null;
+
   // Determine top offset for axes based on filters
   const axisTopOffset = isLegendCollapsed ? '52px' : '114px';
 
@@ -1223,17 +679,14 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
       onPointerLeave={handlePointerLeave}
       onPointerCancel={handlePointerCancel}
     >
-        {/* LAYER 1: Grid Lines */}
-        <div 
-            className="absolute top-0 left-0 h-full pointer-events-none z-0"
-            style={{
-                width: '100%', 
-                transform: `translateX(${viewState.translateX}px) scaleX(${viewState.scale})`,
-                transformOrigin: 'top left',
-            }}
-        >
-            {ticks.map(year => (
-                 <div key={year} className="absolute top-0 bottom-0 border-l border-black/20" style={{ left: (year - startYear) * BASE_PIXELS_PER_YEAR }} />
+        {/* LAYER 1: Grid Lines (the BC/AD boundary is drawn darker) */}
+        <div className="absolute inset-0 pointer-events-none z-0">
+            {axis.ticks.map(({ year, isMajor }) => (
+                 <div
+                    key={year}
+                    className={`absolute top-0 bottom-0 border-l ${year === 0 ? 'border-black/50' : isMajor ? 'border-black/20' : 'border-black/[0.07]'}`}
+                    style={{ left: yearToScreenX(year) }}
+                 />
             ))}
         </div>
 
@@ -1273,6 +726,23 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
           </div>
       )}
 
+      {/* LAYER 1.2: Century being loaded while panning into unexplored years */}
+      {loadingBand && (
+          <>
+              <div
+                  className="absolute top-0 bottom-0 z-[1] pointer-events-none bg-blue-500/5 border-x border-dashed border-blue-400/40 animate-pulse"
+                  style={{ left: loadingBand.left, width: loadingBand.width }}
+              />
+              <div
+                  className="absolute top-1/2 z-[1] pointer-events-none -translate-x-1/2 -translate-y-1/2 flex items-center gap-2 px-3 py-1.5 bg-white/80 backdrop-blur-sm rounded-full shadow text-xs font-bold text-blue-700 whitespace-nowrap"
+                  style={{ left: loadingBand.labelX }}
+              >
+                  <div className="w-3 h-3 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+                  Loading {formatYear(loadingBand.range.start)} – {formatYear(loadingBand.range.end)}
+              </div>
+          </>
+      )}
+
       {/* LAYER 1.5: Selection Rectangles (Behind Content) */}
       <div
         className="absolute top-0 left-0 origin-top-left will-change-transform z-5 pointer-events-none"
@@ -1282,7 +752,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
           height: contentHeight
         }}
       >
-        {layoutData.map((item) => {
+        {renderedLayout.map((item) => {
           const { figure, level } = item;
           const duration = figure.deathYear - figure.birthYear;
           const left = (figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR;
@@ -1348,7 +818,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
           height: contentHeight
         }}
       >
-        {layoutData.map((item) => {
+        {renderedLayout.map((item) => {
           const { figure, level } = item;
           const duration = figure.deathYear - figure.birthYear;
           const width = Math.max(duration * BASE_PIXELS_PER_YEAR, 4); 
@@ -1475,7 +945,8 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
                              {figure.name}
                          </span>
                          <span className="text-lg font-bold text-gray-700 leading-none mt-1 whitespace-nowrap">
-                            {formatYear(figure.birthYear)} - {figure.deathYear >= new Date().getFullYear() ? '' : formatYear(figure.deathYear)} • <span className="capitalize opacity-90">{figure.occupation}</span>
+                            {formatYear(figure.birthYear)} - {figure.deathYear >= new Date().getFullYear() ? '' : formatYear(figure.deathYear)}
+                            {detailLevel === 'full' && <> • <span className="capitalize opacity-90">{figure.occupation}</span></>}
                          </span>
                      </div>
                 </div>
@@ -1525,18 +996,75 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
                   </div>
               </div>
 
-              <div className="text-[18px] font-bold text-black mt-1 whitespace-nowrap w-auto text-left leading-tight opacity-90 group-hover:opacity-100 capitalize">
-                {figure.occupation}
-              </div>
+              {detailLevel === 'full' && (
+                <div className="text-[18px] font-bold text-black mt-1 whitespace-nowrap w-auto text-left leading-tight opacity-90 group-hover:opacity-100 capitalize">
+                  {figure.occupation}
+                </div>
+              )}
               
             </div>
           );
         })}
       </div>
 
+      {/* LAYER 2 (Overview): Density bands and one cluster per century, in screen space */}
+      {overview && (
+          <div className="absolute inset-0 pointer-events-none z-20">
+              {overview.bands.map(band => {
+                  const left = (band.fromYear - startYear) * BASE_PIXELS_PER_YEAR * viewState.scale + viewState.translateX;
+                  const width = DENSITY_BAND_YEARS * BASE_PIXELS_PER_YEAR * viewState.scale;
+                  if (left + width < 0 || left > viewportWidthPx) return null;
+
+                  return (
+                      <div
+                          key={`band-${band.fromYear}`}
+                          className="absolute top-0 bottom-0 bg-black"
+                          style={{ left, width, opacity: 0.03 + 0.17 * (band.count / overview.maxBandCount) }}
+                      />
+                  );
+              })}
+
+              {overview.clusters.map(cluster => {
+                  const centuryWidth = CENTURY_YEARS * BASE_PIXELS_PER_YEAR * viewState.scale;
+                  const centerX = (cluster.century - startYear) * BASE_PIXELS_PER_YEAR * viewState.scale + viewState.translateX + centuryWidth / 2;
+                  if (centerX + centuryWidth / 2 < 0 || centerX - centuryWidth / 2 > viewportWidthPx) return null;
+
+                  const diameter = Math.min(centuryWidth * 0.8, 32 + Math.sqrt(cluster.count) * 10);
+                  const categories = CATEGORY_LIST.filter(category => cluster.countsByCategory[category]);
+                  const rangeLabel = `${formatYear(cluster.century)} – ${formatYear(cluster.century + CENTURY_YEARS)}`;
+
+                  return (
+                      <div
+                          key={`cluster-${cluster.century}`}
+                          data-cluster-century={cluster.century}
+                          className="absolute top-[38%] -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-auto cursor-pointer group"
+                          style={{ left: centerX }}
+                          title={`${rangeLabel}: ${cluster.count} ${cluster.count === 1 ? 'entry' : 'entries'}. Click to zoom in.`}
+                      >
+                          <div
+                              className="rounded-full bg-white/90 shadow-lg ring-1 ring-black/10 flex items-center justify-center transition-transform group-hover:scale-110"
+                              style={{ width: diameter, height: diameter }}
+                          >
+                              <span className="text-lg font-black text-gray-900">{cluster.count}</span>
+                          </div>
+                          <span className="text-[11px] font-bold text-gray-700 whitespace-nowrap">{rangeLabel}</span>
+                          <div className="flex flex-col items-start gap-0.5">
+                              {categories.map(category => (
+                                  <span key={category} className="flex items-center gap-1 text-[11px] font-semibold text-gray-700 whitespace-nowrap" title={category}>
+                                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: CATEGORY_COLORS[category] }} />
+                                      {cluster.countsByCategory[category]}
+                                  </span>
+                              ))}
+                          </div>
+                      </div>
+                  );
+              })}
+          </div>
+      )}
+
       {/* LAYER 2.5: Connector Lines (Manhattan Routes) */}
       <svg className="absolute inset-0 pointer-events-none z-30 w-full h-full overflow-visible">
-          {layoutData.map(item => {
+          {renderedLayout.map(item => {
               const { figure, level, labelLevel, labelYearOffset } = item;
               const duration = figure.deathYear - figure.birthYear;
               const isEvent = figure.category === 'EVENTS';
@@ -1703,27 +1231,17 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
             className="absolute bottom-0 left-0 h-6 bg-black/75 backdrop-blur-2xl pointer-events-none z-[70]"
             style={{ width: '100%' }}
       >
-         <div style={{
-                position: 'relative',
-                width: '100%',
-                height: '100%',
-                transform: `translateX(${viewState.translateX}px) scaleX(${viewState.scale})`,
-                transformOrigin: 'top left',
-         }}>
-            {ticks.map(year => {
-                const left = (year - startYear) * BASE_PIXELS_PER_YEAR;
-                return (
-                    <div key={year} className="absolute top-0 bottom-0" style={{ left }}>
-                        <div className="absolute top-0 w-[2px] h-[6px] bg-white" style={{ left: '-1px', transform: `scaleX(${1/viewState.scale})`, transformOrigin: 'center' }} />
-                        <span
-                             className="absolute top-[5px] text-[12px] font-sans-serif text-white font-bold whitespace-nowrap"
-                             style={{ left: '0', transform: `scaleX(${1/viewState.scale}) translateX(-50%)`, transformOrigin: 'left center' }}
-                        >
-                            {formatYear(year)}
+         <div className="relative w-full h-full">
+            {axis.ticks.map(({ year, isMajor }) => (
+                <div key={year} className="absolute top-0 bottom-0" style={{ left: yearToScreenX(year) }}>
+                    <div className={`absolute top-0 w-[2px] bg-white ${isMajor ? 'h-[6px]' : 'h-[3px] opacity-60'}`} style={{ left: '-1px' }} />
+                    {isMajor && (
+                        <span className={`absolute top-[5px] -translate-x-1/2 text-[12px] font-sans-serif font-bold whitespace-nowrap ${year === 0 ? 'text-amber-300' : 'text-white'}`}>
+                            {formatAxisLabel(year)}
                         </span>
-                    </div>
-                )
-            })}
+                    )}
+                </div>
+            ))}
          </div>
       </div>
 
@@ -1732,27 +1250,17 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
             className="absolute left-0 h-6 bg-black/70 backdrop-blur-2xl pointer-events-none z-[60] transition-[top] duration-300 ease-in-out"
             style={{ width: '100%', top: axisTopOffset }}
       >
-         <div style={{
-                position: 'relative',
-                width: '100%',
-                height: '100%',
-                transform: `translateX(${viewState.translateX}px) scaleX(${viewState.scale})`,
-                transformOrigin: 'top left',
-         }}>
-            {ticks.map(year => {
-                const left = (year - startYear) * BASE_PIXELS_PER_YEAR;
-                return (
-                    <div key={year} className="absolute top-0 bottom-0" style={{ left }}>
-                        <div className="absolute bottom-0 w-[2px] h-[6px] bg-white" style={{ left: '-1px', transform: `scaleX(${1/viewState.scale})`, transformOrigin: 'center' }} />
-                        <span
-                             className="absolute top-[3px] text-[12px] font-sans-serif text-white font-bold whitespace-nowrap"
-                             style={{ left: '0', transform: `scaleX(${1/viewState.scale}) translateX(-50%)`, transformOrigin: 'left center' }}
-                        >
-                            {formatYear(year)}
+         <div className="relative w-full h-full">
+            {axis.ticks.map(({ year, isMajor }) => (
+                <div key={year} className="absolute top-0 bottom-0" style={{ left: yearToScreenX(year) }}>
+                    <div className={`absolute bottom-0 w-[2px] bg-white ${isMajor ? 'h-[6px]' : 'h-[3px] opacity-60'}`} style={{ left: '-1px' }} />
+                    {isMajor && (
+                        <span className={`absolute top-[3px] -translate-x-1/2 text-[12px] font-sans-serif font-bold whitespace-nowrap ${year === 0 ? 'text-amber-300' : 'text-white'}`}>
+                            {formatAxisLabel(year)}
                         </span>
-                    </div>
-                )
-            })}
+                    )}
+                </div>
+            ))}
          </div>
       </div>
 
@@ -1820,6 +1328,7 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
               onDiscover={onDiscover}
               onTrace={onTrace}
               onInspect={onInspect}
+              onEdit={onEdit}
               isDiscovering={!!isDiscovering}
               style={actionBarCoords}
               onMouseEnter={handleActionBarEnter}
@@ -1828,6 +1337,6 @@ const TimelineCanvas: React.FC<TimelineCanvasProps> = ({
       )}
     </div>
   );
-};
+});
 
 export default TimelineCanvas;
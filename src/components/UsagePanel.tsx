@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import {
+  UsageEntry,
+  estimateCost,
+  estimateEntryCost,
+  findModelPrice,
+  getDailyUsage,
+  getModelPrices,
+  getSessionUsage,
+  getSpendingCaps,
+  getTodayUsage,
+  resetUsage,
+  saveModelPrice,
+  saveSpendingCaps,
+  subscribeToUsage
+} from '../services/usageTracker';
+import { PROVIDER_LABELS, USAGE_OPERATION_LABELS } from '../constants';
+import { SpendingCaps, UsageOperation } from '../types';
+import { formatCost } from '../utils/formatters';
+
+interface UsagePanelProps {
+  onShowToast: (message: string, type: 'success' | 'info' | 'error') => void;
+}
+
+type UsagePeriod = 'session' | 'today' | 'month';
+
+const PERIOD_LABELS: Record<UsagePeriod, string> = {
+  session: 'This session',
+  today: 'Today',
+  month: 'Last 30 days'
+};
+
+interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Sums entries sharing a key, e.g. the same model across operations and days
+const groupEntries = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Map<string, UsageEntry[]> => {
+  const groups = new Map<string, UsageEntry[]>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+  return groups;
+};
+
+const sumEntries = (entries: UsageEntry[]): UsageTotals => entries.reduce(
+  (totals, entry) => ({
+    requests: totals.requests + entry.requests,
+    inputTokens: totals.inputTokens + entry.inputTokens,
+    outputTokens: totals.outputTokens + entry.outputTokens
+  }),
+  { requests: 0, inputTokens: 0, outputTokens: 0 }
+);
+
+const formatTokens = (totals: UsageTotals) =>
+  `${totals.inputTokens.toLocaleString()} in · ${totals.outputTokens.toLocaleString()} out`;
+
+// Empty means no cap; anything that is not a non-negative number is ignored
+const parseAmount = (value: string): number | null | undefined => {
+  if (value.trim() === '') return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+};
+
+/**
+ * Tokens used by the AI providers, with a cost estimate from the editable
+ * price table, and spending caps that refuse further calls once reached.
+ * Usage is kept per browser, per page load and per day.
+ */
+const UsagePanel: React.FC<UsagePanelProps> = ({ onShowToast }) => {
+  const [period, setPeriod] = useState<UsagePeriod>('session');
+  // Bumped on every recorded call so the figures stay live while the dialog is open
+  const [, setVersion] = useState(0);
+  const [caps, setCaps] = useState<SpendingCaps>(() => getSpendingCaps());
+
+  useEffect(() => subscribeToUsage(() => setVersion(v => v + 1)), []);
+
+  const entries = period === 'session'
+    ? getSessionUsage()
+    : period === 'today'
+      ? getTodayUsage()
+      : getDailyUsage().flatMap(day => day.entries);
+  const prices = getModelPrices();
+  const totals = sumEntries(entries);
+  const byModel = groupEntries(entries, entry => `${entry.provider}|${entry.model}`);
+  const byOperation = groupEntries(entries, entry => entry.operation);
+  const hasUnpricedModel = entries.some(entry => !findModelPrice(entry.model, prices));
+
+  const handleCapChange = (key: keyof SpendingCaps, value: string) => {
+    const amount = parseAmount(value);
+    if (amount === undefined) return;
+    const next = { ...caps, [key]: amount };
+    setCaps(next);
+    saveSpendingCaps(next);
+  };
+
+  const handlePriceChange = (model: string, key: 'input' | 'output', value: string) => {
+    const amount = parseAmount(value);
+    if (amount === undefined || amount === null) return;
+    const current = findModelPrice(model, prices) || { input: 0, output: 0 };
+    saveModelPrice(model, { ...current, [key]: amount });
+  };
+
+  const handleReset = () => {
+    resetUsage();
+    onShowToast('Usage history cleared', 'success');
+  };
+
+  const capStatus = (key: keyof SpendingCaps) => {
+    const cap = caps[key];
+    if (cap === null) return 'No cap';
+    const spent = estimateCost(key === 'daily' ? getTodayUsage() : getSessionUsage(), prices);
+    return `${formatCost(spent)} of ${formatCost(cap)} used`;
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">Token Usage</label>
+        <select
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as UsagePeriod)}
+          className="h-7 px-2 text-xs border border-gray-300 rounded-md bg-white outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(PERIOD_LABELS) as UsagePeriod[]).map(p => (
+            <option key={p} value={p}>{PERIOD_LABELS[p]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-3">
+        <div className="bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+          <div className="text-xs text-gray-500">Requests</div>
+          <div className="text-sm font-semibold text-gray-800">{totals.requests.toLocaleString()}</div>
+        </div>
+        <div className="bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+          <div className="text-xs text-gray-500">Tokens</div>
+          <div className="text-sm font-semibold text-gray-800">{(totals.inputTokens + totals.outputTokens).toLocaleString()}</div>
+        </div>
+        <div className="bg-gray-50 border border-gray-200 rounded-md px-3 py-2">
+          <div className="text-xs text-gray-500">Est. cost</div>
+          <div className="text-sm font-semibold text-gray-800">{formatCost(estimateCost(entries, prices))}</div>
+        </div>
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-3">No AI calls recorded for this period.</p>
+      ) : (
+        <div className="space-y-3 mb-3">
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+            {Array.from(byModel.values()).map(group => {
+              const { provider, model } = group[0];
+              const price = findModelPrice(model, prices);
+              const cost = group.reduce<number | null>((sum, entry) => {
+                const entryCost = estimateEntryCost(entry, prices);
+                return sum === null || entryCost === null ? null : sum + entryCost;
+              }, 0);
+
+              return (
+                <li key={`${provider}|${model}`} className="px-3 py-2">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-800 font-mono truncate">{model}</div>
+                      <div className="text-xs text-gray-500">
+                        {PROVIDER_LABELS[provider] || provider} · {formatTokens(sumEntries(group))}
+                      </div>
+                    </div>
+                    <span className="text-sm font-medium text-gray-800 whitespace-nowrap">
+                      {cost === null ? 'No price' : formatCost(cost)}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2 mt-1.5 text-xs text-gray-500">
+                    <span>$ per 1M tokens</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={price?.input ?? ''}
+                      onBlur={(e) => handlePriceChange(model, 'input', e.target.value)}
+                      placeholder="in"
+                      aria-label={`Input price of ${model}`}
+                      className="w-16 h-6 px-1.5 border border-gray-300 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      defaultValue={price?.output ?? ''}
+                      onBlur={(e) => handlePriceChange(model, 'output', e.target.value)}
+                      placeholder="out"
+                      aria-label={`Output price of ${model}`}
+                      className="w-16 h-6 px-1.5 border border-gray-300 rounded bg-white outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <ul className="space-y-1 text-xs">
+            {Array.from(byOperation.entries()).map(([operation, group]) => (
+              <li key={operation} className="flex justify-between gap-3 text-gray-600">
+                <span>{USAGE_OPERATION_LABELS[operation as UsageOperation] || operation}</span>
+                <span className="whitespace-nowrap">
+                  {formatTokens(sumEntries(group))} · {formatCost(estimateCost(group, prices))}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {hasUnpricedModel && (
+            <p className="text-xs text-gray-500">Models without a price count as free in the estimate and towards the caps.</p>
+          )}
+        </div>
+      )}
+
+      <label className="block text-sm font-medium text-gray-700 mb-1">Spending Caps (USD)</label>
+      <div className="grid grid-cols-2 gap-3">
+        {(['daily', 'session'] as (keyof SpendingCaps)[]).map(key => (
+          <div key={key}>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              defaultValue={caps[key] ?? ''}
+              onBlur={(e) => handleCapChange(key, e.target.value)}
+              placeholder="No cap"
+              className="w-full h-10 px-3 bg-white border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {key === 'daily' ? 'Per day' : 'Per session'} · {capStatus(key)}
+            </p>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between gap-3 mt-1">
+        <p className="text-xs text-gray-500">Once a cap is reached, further AI calls are refused. Costs are estimates.</p>
+        <button
+          onClick={handleReset}
+          disabled={getDailyUsage().length === 0 && getSessionUsage().length === 0}
+          className="px-2.5 py-1 text-xs font-medium text-red-600 hover:bg-red-50 rounded-md whitespace-nowrap transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          Reset usage
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -1,11 +1,20 @@
 
-import { FigureCategory } from './types';
+import { FigureCategory, ModelPrice, RequestLimits, UsageOperation } from './types';
 
 export const HISTORICAL_FIGURES_COUNT = 60;
 export const HISTORICAL_FIGURES_PER_CENTURY_CHUNK = 20;
 export const HISTORICAL_EVENTS_COUNT = 30;
 export const HISTORICAL_EVENTS_PER_CENTURY_CHUNK = 5;
 
+// Shared by the deep dive and relationship prompts of every provider
+export const SOURCES_PROMPT = 'An array of 2-5 sources supporting the text, each with "title" (the work or article), "url" (a full https link to a reputable reference such as Wikipedia, Britannica or a museum or university page) and "claim" (the statement it supports). Only cite pages you are confident exist.';
+
+// Timeline canvas geometry (world units at scale 1), shared by the canvas and image export
+export const BASE_PIXELS_PER_YEAR = 10;
+export const ROW_HEIGHT = 180;
+export const BAR_CENTER_OFFSET = 45;
+export const AXIS_INTERVAL = 50;
+
 // Previous color scheme (commented out for reference):
 // export const CATEGORY_COLORS: Record<FigureCategory, string> = {
 //   'ARTISTS': '#b7e1f3',
@@ -43,3 +52,49 @@ export const CATEGORY_LIST: FigureCategory[] = [
   'THINKERS',
   'WRITERS'
 ];
+
+// AI providers selectable in Settings (keys match the PROVIDER env var / chrono_provider value)
+export const PROVIDER_LABELS: Record<string, string> = {
+  'gemini': 'Google Gemini',
+  'openrouter': 'OpenRouter',
+  'local': 'Local / OpenAI-compatible',
+  'mock': 'Offline Mock'
+};
+
+export const DEFAULT_MODELS: Record<string, string> = {
+  'gemini': 'gemini-2.5-flash',
+  'openrouter': 'openai/gpt-oss-120b',
+  'local': 'llama3.1',
+  'mock': 'mock-fixtures'
+};
+
+// Default request limits per provider; the Settings dialog can override them.
+// Gemini's free tier allows about 15 requests a minute; a local server usually runs one generation at a time.
+export const DEFAULT_REQUEST_LIMITS: Record<string, RequestLimits> = {
+  'gemini': { concurrency: 2, requestsPerMinute: 15 },
+  'openrouter': { concurrency: 4, requestsPerMinute: 20 },
+  'local': { concurrency: 1, requestsPerMinute: 0 },
+  'mock': { concurrency: 4, requestsPerMinute: 0 }
+};
+
+export const USAGE_OPERATION_LABELS: Record<UsageOperation, string> = {
+  build: 'Timeline builds',
+  century: 'Century loading',
+  relationships: 'Relationship tracing',
+  discovery: 'Discovery',
+  explanation: 'Relationship explanations',
+  deepDive: 'Deep dives'
+};
+
+// Estimated list prices in USD per million tokens, editable in Settings. OpenRouter ids
+// ("google/gemini-2.5-flash") fall back to the part after the slash.
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'openai/gpt-oss-120b': { input: 0.1, output: 0.5 }
+};
+
+// Providers that can run without an API key (self-hosted servers accept an optional one)
+export const KEYLESS_PROVIDERS: string[] = ['local', 'mock'];
@@ -1,9 +1,13 @@
 import React, { createContext, useContext, ReactNode } from 'react';
+import { DEFAULT_MODELS, KEYLESS_PROVIDERS } from '../constants';
+import { DEFAULT_LOCAL_BASE_URL } from '../services/openAICompatibleService';
 
 interface AppConfig {
     provider: string;
     apiKey: string;
     model: string;
+    // Only used by the 'local' (OpenAI-compatible) provider
+    baseUrl: string;
 }
 
 interface EnvironmentContextType {
@@ -20,7 +24,7 @@ export const EnvironmentProvider: React.FC<{ children: ReactNode }> = ({ childre
     const getEffectiveConfig = (): AppConfig => {
         // Helper to get the appropriate default model based on provider
         const getDefaultModel = (provider: string): string => {
-            return provider === 'openrouter' ? 'openai/gpt-oss-120b' : 'gemini-2.5-flash';
+            return DEFAULT_MODELS[provider] || DEFAULT_MODELS['gemini'];
         };
 
         // Both development and production modes now prioritize localStorage for flexibility
@@ -28,9 +32,13 @@ export const EnvironmentProvider: React.FC<{ children: ReactNode }> = ({ childre
         const localProvider = localStorage.getItem('chrono_provider');
         const localKey = localStorage.getItem('chrono_api_key');
         const localModel = localStorage.getItem('chrono_model');
+        const baseUrl = localStorage.getItem('chrono_base_url') || process.env.BASE_URL || DEFAULT_LOCAL_BASE_URL;
 
-        if (localProvider && localKey && localModel) {
-            return { provider: localProvider, apiKey: localKey, model: localModel };
+        // Keyless providers (e.g. the offline mock) are valid without a stored API key
+        const hasKey = !!localKey || (!!localProvider && KEYLESS_PROVIDERS.includes(localProvider));
+
+        if (localProvider && hasKey && localModel) {
+            return { provider: localProvider, apiKey: localKey || '', model: localModel, baseUrl };
         }
 
         // Fallback to environment variables if localStorage is not set
@@ -38,7 +46,8 @@ export const EnvironmentProvider: React.FC<{ children: ReactNode }> = ({ childre
         return {
             provider,
             apiKey: process.env.API_KEY || '',
-            model: process.env.MODEL || getDefaultModel(provider)
+            model: process.env.MODEL || getDefaultModel(provider),
+            baseUrl
         };
     };
 
@@ -15,6 +15,7 @@ interface UseFigureActionsProps {
     onDiscover: (figure: HistoricalFigure) => void;
     onTrace: (figure: HistoricalFigure, clientY: number) => void;
     onInspect: (figure: HistoricalFigure) => void;
+    onEdit?: (figure: HistoricalFigure) => void;
     isDiscovering: boolean;
     isTracing?: boolean;
 }
@@ -24,6 +25,7 @@ export const useFigureActions = ({
     onDiscover,
     onTrace,
     onInspect,
+    onEdit,
     isDiscovering,
     isTracing = false
 }: UseFigureActionsProps): ActionItem[] => {
@@ -74,6 +76,21 @@ export const useFigureActions = ({
             },
             isLoading: isDiscovering,
             isVisible: true
+        } : null,
+        onEdit ? {
+            id: 'edit',
+            label: "Edit Entry",
+            icon: (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                </svg>
+            ),
+            onClick: (e: React.MouseEvent) => {
+                e.stopPropagation();
+                onEdit(figure);
+            },
+            isLoading: false,
+            isVisible: true
         } : null
     ];
 
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { HistoricalFigure } from '../types';
+import { computeTimelineLayout, LayoutPlacement, TimelineLayout, TimelineLayoutInput } from '../utils/timelineLayout';
+import type { LayoutWorkerRequest, LayoutWorkerResponse } from '../utils/timelineLayout.worker';
+
+const EMPTY_LAYOUT: TimelineLayout = { layoutData: [], totalRows: 0 };
+
+// Null where module workers are unavailable; the layout then runs on the main thread
+const createLayoutWorker = (): Worker | null => {
+    if (typeof Worker === 'undefined') return null;
+    try {
+        return new Worker(new URL('../utils/timelineLayout.worker.ts', import.meta.url), { type: 'module' });
+    } catch (error) {
+        console.warn("Layout worker unavailable, laying out on the main thread", error);
+        return null;
+    }
+};
+
+// Anything that changes a figure's footprint on the timeline
+const hasSameFootprint = (a: HistoricalFigure, b: HistoricalFigure) =>
+    a === b || (
+        a.birthYear === b.birthYear &&
+        a.deathYear === b.deathYear &&
+        a.name === b.name &&
+        a.occupation === b.occupation &&
+        a.category === b.category
+    );
+
+// Placements of the figures still on the timeline whose years and labels are unchanged
+const keptPlacements = (previous: TimelineLayout, figures: HistoricalFigure[]): LayoutPlacement[] => {
+    const figuresById = new Map(figures.map(figure => [figure.id, figure]));
+    return previous.layoutData
+        .filter(({ figure }) => {
+            const current = figuresById.get(figure.id);
+            return !!current && hasSameFootprint(figure, current);
+        })
+        .map(({ figure, level, labelLevel, labelYearOffset }) => ({ id: figure.id, level, labelLevel, labelYearOffset }));
+};
+
+export interface TimelineLayoutState extends TimelineLayout {
+    // Lays every figure out from scratch, closing the holes left by removed ones
+    repack: () => void;
+}
+
+/**
+ * The timeline layout, computed in a worker so panning does not stutter while
+ * a large timeline is laid out. Updates are incremental: figures already on
+ * the timeline keep their rows and only new or changed ones are slotted in,
+ * so a discovery does not move anything the user was looking at. The
+ * previous layout stays on screen until the new one arrives; results for an
+ * outdated figure list are dropped.
+ */
+export const useTimelineLayout = (
+    figures: HistoricalFigure[],
+    discoverySourceId: string | null,
+    newlyDiscoveredIds: Set<string>
+): TimelineLayoutState => {
+    const [layout, setLayout] = useState<TimelineLayout>(EMPTY_LAYOUT);
+    const [repackCount, setRepackCount] = useState(0);
+    const layoutRef = useRef<TimelineLayout>(EMPTY_LAYOUT);
+    const isRepackRequestedRef = useRef(false);
+    const workerRef = useRef<Worker | null>(null);
+    const lastRequestIdRef = useRef(0);
+    const pendingRef = useRef<{ requestId: number; input: TimelineLayoutInput } | null>(null);
+
+    const applyLayout = useCallback((next: TimelineLayout) => {
+        layoutRef.current = next;
+        setLayout(next);
+    }, []);
+
+    const priorityIds = useMemo(() => {
+        const ids = Array.from(newlyDiscoveredIds);
+        return discoverySourceId ? [discoverySourceId, ...ids] : ids;
+    }, [discoverySourceId, newlyDiscoveredIds]);
+
+    useEffect(() => {
+        const worker = createLayoutWorker();
+        if (!worker) return;
+
+        worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+            const pending = pendingRef.current;
+            if (!pending || event.data.requestId !== pending.requestId) return;
+
+            // The worker returns copies; hand out the caller's own figure objects
+            const figuresById = new Map(pending.input.figures.map(figure => [figure.id, figure]));
+            applyLayout({
+                layoutData: event.data.placements.map(({ id, ...placement }) => ({
+                    figure: figuresById.get(id)!,
+                    ...placement
+                })),
+                totalRows: event.data.totalRows
+            });
+        };
+
+        worker.onerror = (event) => {
+            console.warn("Layout worker failed, laying out on the main thread", event.message);
+            worker.terminate();
+            workerRef.current = null;
+            if (pendingRef.current) {
+                applyLayout(computeTimelineLayout(pendingRef.current.input));
+            }
+        };
+
+        workerRef.current = worker;
+        return () => {
+            worker.terminate();
+            workerRef.current = null;
+        };
+    }, [applyLayout]);
+
+    useEffect(() => {
+        const keep = isRepackRequestedRef.current ? [] : keptPlacements(layoutRef.current, figures);
+        isRepackRequestedRef.current = false;
+
+        const input: TimelineLayoutInput = { figures, priorityIds, keep };
+        const requestId = ++lastRequestIdRef.current;
+        pendingRef.current = { requestId, input };
+
+        const worker = workerRef.current;
+        if (worker) {
+            const request: LayoutWorkerRequest = { requestId, input };
+            worker.postMessage(request);
+        } else {
+            applyLayout(computeTimelineLayout(input));
+        }
+    }, [figures, priorityIds, repackCount, applyLayout]);
+
+    const repack = useCallback(() => {
+        isRepackRequestedRef.current = true;
+        setRepackCount(count => count + 1);
+    }, []);
+
+    return { ...layout, repack };
+};
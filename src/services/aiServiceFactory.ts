@@ -0,0 +1,22 @@
+import { IAIService } from "../types";
+import { GeminiService } from "./geminiService";
+import { OpenRouterService } from "./openRouterService";
+import { MockService } from "./mockService";
+import { OpenAICompatibleService } from "./openAICompatibleService";
+
+/**
+ * Creates the IAIService implementation for a provider id.
+ * Unknown providers fall back to Gemini, matching the app's default.
+ */
+export function createAIService(provider: string, apiKey: string, model: string, baseUrl?: string): IAIService {
+    switch (provider) {
+        case 'openrouter':
+            return new OpenRouterService(apiKey, model);
+        case 'local':
+            return new OpenAICompatibleService(baseUrl || '', model, apiKey);
+        case 'mock':
+            return new MockService();
+        default:
+            return new GeminiService(apiKey, model);
+    }
+}
@@ -0,0 +1,311 @@
+import type { TimelineProjectData } from "./projectStorage";
+
+const DB_NAME = 'chronoweave';
+const DB_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Evictable stores are trimmed back under this, least recently used first
+export const CACHE_SIZE_BUDGET_BYTES = 25 * 1024 * 1024;
+
+/** Value type held by each store */
+export interface CacheStoreValues {
+    projects: TimelineProjectData;
+    // Deep dives and relationship explanations are opaque payloads here; App owns their shape
+    deepDives: unknown;
+    relationships: unknown;
+    wikiDetails: { description: string; imageUrl: string | null };
+}
+
+export type CacheStoreName = keyof CacheStoreValues;
+
+interface CacheStorePolicy {
+    label: string;
+    // null: never expires
+    ttlMs: number | null;
+    // Timelines are the user's work, not a cache, so they are never evicted
+    evictable: boolean;
+}
+
+export const CACHE_STORES: Record<CacheStoreName, CacheStorePolicy> = {
+    projects: { label: 'Timelines', ttlMs: null, evictable: false },
+    deepDives: { label: 'Deep dives', ttlMs: 90 * DAY_MS, evictable: true },
+    relationships: { label: 'Relationship explanations', ttlMs: 90 * DAY_MS, evictable: true },
+    wikiDetails: { label: 'Wikipedia details', ttlMs: 7 * DAY_MS, evictable: true }
+};
+
+const STORE_NAMES = Object.keys(CACHE_STORES) as CacheStoreName[];
+
+interface CacheRecord<T> {
+    key: string;
+    value: T;
+    // Approximate serialized size in bytes, for the budget
+    size: number;
+    createdAt: number;
+    accessedAt: number;
+    expiresAt: number | null;
+}
+
+export interface CacheStoreStats {
+    count: number;
+    bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+/**
+ * Opens the database once per session. Resolves to null when IndexedDB is
+ * unavailable; every operation then behaves like an empty cache.
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                console.warn("IndexedDB is not available; nothing will be persisted");
+                resolve(null);
+                return;
+            }
+
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                STORE_NAMES.forEach(name => {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name, { keyPath: 'key' }).createIndex('accessedAt', 'accessedAt');
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.error("Failed to open IndexedDB", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const isExpired = (record: CacheRecord<unknown>, now = Date.now()) =>
+    record.expiresAt !== null && record.expiresAt <= now;
+
+// Matches every key starting with `prefix`
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+/** Reads an entry and marks it as recently used. Expired entries are removed and read as null. */
+export const cacheGet = async <S extends CacheStoreName>(store: S, key: string): Promise<CacheStoreValues[S] | null> => {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    try {
+        const tx = db.transaction(store, 'readwrite');
+        const objectStore = tx.objectStore(store);
+        const record = await requestToPromise<CacheRecord<CacheStoreValues[S]> | undefined>(objectStore.get(key));
+        if (!record) return null;
+
+        if (isExpired(record)) {
+            objectStore.delete(key);
+            await transactionDone(tx);
+            return null;
+        }
+
+        objectStore.put({ ...record, accessedAt: Date.now() });
+        await transactionDone(tx);
+        return record.value;
+    } catch (error) {
+        console.error(`Failed to read ${store}/${key} from cache`, error);
+        return null;
+    }
+};
+
+/** Stores an entry. Unless `overwrite` is set, an existing unexpired entry is kept and false returned. */
+export const cachePut = async <S extends CacheStoreName>(
+    store: S,
+    key: string,
+    value: CacheStoreValues[S],
+    overwrite = true
+): Promise<boolean> => {
+    const db = await openDatabase();
+    if (!db) return false;
+
+    try {
+        const tx = db.transaction(store, 'readwrite');
+        const objectStore = tx.objectStore(store);
+
+        if (!overwrite) {
+            const existing = await requestToPromise<CacheRecord<unknown> | undefined>(objectStore.get(key));
+            if (existing && !isExpired(existing)) return false;
+        }
+
+        const now = Date.now();
+        const { ttlMs } = CACHE_STORES[store];
+        const record: CacheRecord<CacheStoreValues[S]> = {
+            key,
+            value,
+            size: (JSON.stringify(value) || '').length,
+            createdAt: now,
+            accessedAt: now,
+            expiresAt: ttlMs === null ? null : now + ttlMs
+        };
+        objectStore.put(record);
+        await transactionDone(tx);
+
+        if (CACHE_STORES[store].evictable) scheduleBudgetCheck();
+        return true;
+    } catch (error) {
+        console.error(`Failed to write ${store}/${key} to cache`, error);
+        return false;
+    }
+};
+
+/** Removes an entry. False when the delete failed; without IndexedDB there is nothing to delete. */
+export const cacheDelete = async (store: CacheStoreName, key: string): Promise<boolean> => {
+    const db = await openDatabase();
+    if (!db) return true;
+
+    try {
+        const tx = db.transaction(store, 'readwrite');
+        tx.objectStore(store).delete(key);
+        await transactionDone(tx);
+        return true;
+    } catch (error) {
+        console.error(`Failed to delete ${store}/${key} from cache`, error);
+        return false;
+    }
+};
+
+/** Removes every entry whose key starts with `prefix`; false when the delete failed */
+export const cacheDeleteByPrefix = async (store: CacheStoreName, prefix: string): Promise<boolean> => {
+    const db = await openDatabase();
+    if (!db) return true;
+
+    try {
+        const tx = db.transaction(store, 'readwrite');
+        tx.objectStore(store).delete(prefixRange(prefix));
+        await transactionDone(tx);
+        return true;
+    } catch (error) {
+        console.error(`Failed to delete ${store}/${prefix}* from cache`, error);
+        return false;
+    }
+};
+
+/** Unexpired entries whose key starts with `prefix`, without touching their last-used time */
+export const cacheEntries = async <S extends CacheStoreName>(
+    store: S,
+    prefix = ''
+): Promise<{ key: string; value: CacheStoreValues[S] }[]> => {
+    const db = await openDatabase();
+    if (!db) return [];
+
+    try {
+        const tx = db.transaction(store, 'readonly');
+        const records = await requestToPromise<CacheRecord<CacheStoreValues[S]>[]>(
+            tx.objectStore(store).getAll(prefix ? prefixRange(prefix) : undefined)
+        );
+        const now = Date.now();
+        return records
+            .filter(record => !isExpired(record, now))
+            .map(record => ({ key: record.key, value: record.value }));
+    } catch (error) {
+        console.error(`Failed to list ${store} cache`, error);
+        return [];
+    }
+};
+
+export const clearCacheStore = async (store: CacheStoreName): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    try {
+        const tx = db.transaction(store, 'readwrite');
+        tx.objectStore(store).clear();
+        await transactionDone(tx);
+    } catch (error) {
+        console.error(`Failed to clear ${store} cache`, error);
+    }
+};
+
+/** Entry count and approximate size per store, for the cache inspector */
+export const getCacheStats = async (): Promise<Record<CacheStoreName, CacheStoreStats>> => {
+    const stats = Object.fromEntries(STORE_NAMES.map(name => [name, { count: 0, bytes: 0 }])) as Record<CacheStoreName, CacheStoreStats>;
+    const db = await openDatabase();
+    if (!db) return stats;
+
+    try {
+        const tx = db.transaction(STORE_NAMES, 'readonly');
+        await Promise.all(STORE_NAMES.map(async name => {
+            const records = await requestToPromise<CacheRecord<unknown>[]>(tx.objectStore(name).getAll());
+            const now = Date.now();
+            records.filter(record => !isExpired(record, now)).forEach(record => {
+                stats[name].count++;
+                stats[name].bytes += record.size;
+            });
+        }));
+    } catch (error) {
+        console.error("Failed to read cache stats", error);
+    }
+    return stats;
+};
+
+/**
+ * Drops expired entries, then evicts the least recently used entries of the
+ * evictable stores until they fit the size budget.
+ */
+export const enforceCacheBudget = async (): Promise<void> => {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const evictable = STORE_NAMES.filter(name => CACHE_STORES[name].evictable);
+    try {
+        const tx = db.transaction(evictable, 'readwrite');
+        const now = Date.now();
+        const live: { store: CacheStoreName; key: string; size: number; accessedAt: number }[] = [];
+
+        await Promise.all(evictable.map(async name => {
+            const objectStore = tx.objectStore(name);
+            const records = await requestToPromise<CacheRecord<unknown>[]>(objectStore.getAll());
+            records.forEach(record => {
+                if (isExpired(record, now)) {
+                    objectStore.delete(record.key);
+                } else {
+                    live.push({ store: name, key: record.key, size: record.size, accessedAt: record.accessedAt });
+                }
+            });
+        }));
+
+        let total = live.reduce((sum, entry) => sum + entry.size, 0);
+        live.sort((a, b) => a.accessedAt - b.accessedAt);
+        for (const entry of live) {
+            if (total <= CACHE_SIZE_BUDGET_BYTES) break;
+            tx.objectStore(entry.store).delete(entry.key);
+            total -= entry.size;
+        }
+
+        await transactionDone(tx);
+    } catch (error) {
+        console.error("Failed to enforce cache budget", error);
+    }
+};
+
+// Writes tend to come in bursts (a batch of Wikipedia details); check the budget once after them
+let budgetCheckTimer: ReturnType<typeof setTimeout> | null = null;
+const scheduleBudgetCheck = () => {
+    if (budgetCheckTimer) clearTimeout(budgetCheckTimer);
+    budgetCheckTimer = setTimeout(() => {
+        budgetCheckTimer = null;
+        enforceCacheBudget();
+    }, 1000);
+};
@@ -0,0 +1,222 @@
+import { FigureCategory, HistoricalFigure } from "../types";
+import { CATEGORY_LIST } from "../constants";
+import { parseYear } from "../utils/formatters";
+
+export type CsvField = 'name' | 'birthYear' | 'deathYear' | 'occupation' | 'category' | 'shortDescription';
+
+// Column index per field, or null when the field is not mapped
+export type ColumnMapping = Record<CsvField, number | null>;
+
+export interface CsvFieldDefinition {
+    key: CsvField;
+    label: string;
+    required: boolean;
+    // Lowercase header names recognised when guessing the mapping
+    aliases: string[];
+}
+
+export const CSV_FIELDS: CsvFieldDefinition[] = [
+    { key: 'name', label: 'Name', required: true, aliases: ['name', 'figure', 'title', 'person', 'event'] },
+    { key: 'birthYear', label: 'Birth / start year', required: true, aliases: ['birthyear', 'birth', 'born', 'start', 'startyear', 'from', 'begin'] },
+    { key: 'deathYear', label: 'Death / end year', required: false, aliases: ['deathyear', 'death', 'died', 'end', 'endyear', 'to', 'until'] },
+    { key: 'occupation', label: 'Occupation / type', required: false, aliases: ['occupation', 'role', 'profession', 'type', 'job'] },
+    { key: 'category', label: 'Category', required: false, aliases: ['category', 'group', 'kind'] },
+    { key: 'shortDescription', label: 'Description', required: false, aliases: ['shortdescription', 'description', 'summary', 'notes', 'bio'] }
+];
+
+export interface CsvRowError {
+    // 1-based line number in the source file
+    line: number;
+    message: string;
+}
+
+export interface CsvImportResult {
+    figures: HistoricalFigure[];
+    errors: CsvRowError[];
+}
+
+/**
+ * Splits delimited text into rows of cells. Handles quoted cells containing
+ * delimiters, newlines and doubled quotes ("") as produced by spreadsheet exports.
+ */
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    // Strip a UTF-8 BOM left by Excel
+    const source = text.charCodeAt(0) === 0xFEFF ? text.slice(1) : text;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (source[i + 1] === '"') {
+                    cell += '"';
+                    i++;
+                } else {
+                    inQuotes = false;
+                }
+            } else {
+                cell += char;
+            }
+            continue;
+        }
+
+        if (char === '"' && cell === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && source[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    return rows;
+};
+
+/** Picks tab, semicolon or comma based on which appears most in the first line */
+export const detectDelimiter = (text: string): string => {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const candidates = ['\t', ';', ','];
+    let best = ',';
+    let bestCount = 0;
+    candidates.forEach(candidate => {
+        const count = firstLine.split(candidate).length - 1;
+        if (count > bestCount) {
+            best = candidate;
+            bestCount = count;
+        }
+    });
+    return best;
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, '');
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+    const normalized = headers.map(normalizeHeader);
+    const mapping = {} as ColumnMapping;
+    const used = new Set<number>();
+
+    CSV_FIELDS.forEach(field => {
+        const index = normalized.findIndex((h, i) => !used.has(i) && field.aliases.includes(h));
+        mapping[field.key] = index >= 0 ? index : null;
+        if (index >= 0) used.add(index);
+    });
+
+    return mapping;
+};
+
+/**
+ * Matches free-form category text against CATEGORY_LIST, case-insensitively
+ * and tolerating singular forms ("Artist") or partial names ("Leaders").
+ */
+export const parseCategory = (value: string): FigureCategory | null => {
+    const text = value.trim().toUpperCase();
+    if (!text) return null;
+
+    const exact = CATEGORY_LIST.find(c => c === text || c === `${text}S`);
+    if (exact) return exact;
+
+    return CATEGORY_LIST.find(c => c.startsWith(text)) || null;
+};
+
+/** Builds an id for a hand-entered figure and reserves it in usedIds */
+export const createFigureId = (name: string, birthYear: number, usedIds: Set<string>): string => {
+    const base = `u-${name.trim().replace(/\s+/g, '-')}-${birthYear}`;
+    let id = base;
+    let suffix = 2;
+    while (usedIds.has(id)) {
+        id = `${base}-${suffix++}`;
+    }
+    usedIds.add(id);
+    return id;
+};
+
+/**
+ * Converts mapped rows into figures. Rows that fail validation are reported
+ * with their line number and skipped; the remaining rows are still returned.
+ * An empty end year is allowed for events (a single-year event).
+ */
+export const buildFiguresFromRows = (
+    rows: string[][],
+    mapping: ColumnMapping,
+    options: { hasHeader: boolean; defaultCategory: FigureCategory }
+): CsvImportResult => {
+    const figures: HistoricalFigure[] = [];
+    const errors: CsvRowError[] = [];
+    const usedIds = new Set<string>();
+    const firstDataRow = options.hasHeader ? 1 : 0;
+
+    const cellOf = (row: string[], field: CsvField): string => {
+        const index = mapping[field];
+        return index === null ? '' : (row[index] ?? '').trim();
+    };
+
+    for (let r = firstDataRow; r < rows.length; r++) {
+        const row = rows[r];
+        const line = r + 1;
+
+        // Ignore blank lines
+        if (row.every(cell => cell.trim() === '')) continue;
+
+        const problems: string[] = [];
+
+        const name = cellOf(row, 'name');
+        if (!name) problems.push('name is empty');
+
+        const birthText = cellOf(row, 'birthYear');
+        const birthYear = parseYear(birthText);
+        if (birthYear === null) {
+            problems.push(birthText ? `birth year "${birthText}" is not a year` : 'birth year is empty');
+        }
+
+        const categoryText = cellOf(row, 'category');
+        const category = categoryText ? parseCategory(categoryText) : options.defaultCategory;
+        if (!category) problems.push(`unknown category "${categoryText}"`);
+
+        const deathText = cellOf(row, 'deathYear');
+        let deathYear = parseYear(deathText);
+        if (!deathText && category === 'EVENTS' && birthYear !== null) {
+            deathYear = birthYear;
+        } else if (deathYear === null) {
+            problems.push(deathText ? `death year "${deathText}" is not a year` : 'death year is empty');
+        }
+
+        if (birthYear !== null && deathYear !== null && deathYear < birthYear) {
+            problems.push('death year is before birth year');
+        }
+
+        if (problems.length > 0 || birthYear === null || deathYear === null || !category) {
+            errors.push({ line, message: problems.join('; ') });
+            continue;
+        }
+
+        const description = cellOf(row, 'shortDescription');
+        figures.push({
+            id: createFigureId(name, birthYear, usedIds),
+            name,
+            birthYear,
+            deathYear,
+            occupation: cellOf(row, 'occupation') || (category === 'EVENTS' ? 'Event' : ''),
+            category,
+            shortDescription: description || undefined
+        });
+    }
+
+    return { figures, errors };
+};
@@ -0,0 +1,215 @@
+import { HistoricalFigure } from "../types";
+import { fetchCanonicalTitles } from "./wikiService";
+
+// Start years of the same entry from different batches rarely differ by more than this
+const YEAR_TOLERANCE = 10;
+
+/** A possible duplicate that was added as its own entry until the user decides */
+export interface MergeCandidate {
+    id: string;
+    // The entry that was already on the timeline
+    keepId: string;
+    duplicateId: string;
+    reason: string;
+}
+
+export interface EntityResolution {
+    // Existing entries (with details filled in from their duplicates) followed by the added ones
+    figures: HistoricalFigure[];
+    added: HistoricalFigure[];
+    // Incoming id -> id of the entry it became or was merged into
+    idMap: Map<string, string>;
+    mergedCount: number;
+    candidates: MergeCandidate[];
+}
+
+/**
+ * Reduces a name to the form duplicates share: no accents, no qualifiers like
+ * "(painter)", no punctuation or leading article. "Leonardo Da Vinci (painter)"
+ * and "Leonardo da Vinci" both become "leonardo da vinci".
+ */
+export const normalizeFigureName = (name: string): string =>
+    name
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/\([^)]*\)/g, ' ')
+        .replace(/[^a-z0-9\s]/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^the /, '');
+
+const isEvent = (figure: HistoricalFigure) => figure.category === 'EVENTS';
+
+const spansOverlap = (a: HistoricalFigure, b: HistoricalFigure) =>
+    a.birthYear <= b.deathYear + YEAR_TOLERANCE && b.birthYear <= a.deathYear + YEAR_TOLERANCE;
+
+// "napoleon" and "napoleon bonaparte": every word of the shorter name appears in the longer one
+const isNameSubset = (a: string, b: string) => {
+    const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+    const longerWords = new Set(longer.split(' '));
+    return shorter.length > 0 && shorter.split(' ').every(word => longerWords.has(word));
+};
+
+type Match = { figure: HistoricalFigure; certain: boolean; reason: string };
+
+const findMatch = (
+    candidates: HistoricalFigure[],
+    figure: HistoricalFigure,
+    canonicalTitles: Map<string, string>
+): Match | null => {
+    const name = normalizeFigureName(figure.name);
+    const title = canonicalTitles.get(figure.name);
+    let uncertain: Match | null = null;
+
+    for (const other of candidates) {
+        // A person is never the same entry as an event
+        if (isEvent(other) !== isEvent(figure)) continue;
+
+        const otherName = normalizeFigureName(other.name);
+        const otherTitle = canonicalTitles.get(other.name);
+        const sameTitle = !!title && title === otherTitle;
+        const overlaps = spansOverlap(figure, other);
+
+        if ((name === otherName || sameTitle) && overlaps) {
+            return { figure: other, certain: true, reason: '' };
+        }
+        if (uncertain) continue;
+
+        if (sameTitle) {
+            uncertain = { figure: other, certain: false, reason: `Same Wikipedia article ("${title}") but different years` };
+        } else if (
+            name !== otherName &&
+            isNameSubset(name, otherName) &&
+            other.category === figure.category &&
+            Math.abs(other.birthYear - figure.birthYear) <= YEAR_TOLERANCE
+        ) {
+            uncertain = { figure: other, certain: false, reason: 'Similar name and dates' };
+        }
+    }
+
+    return uncertain;
+};
+
+/**
+ * Id derived from the entry itself rather than the batch it came from, so the
+ * same person gets the same id whichever century chunk or discovery found them.
+ */
+const createCanonicalId = (figure: HistoricalFigure, canonicalName: string, usedIds: Set<string>): string => {
+    const base = `${isEvent(figure) ? 'e' : 'p'}-${canonicalName.replace(/\s+/g, '-') || 'entry'}`;
+    // Namesakes from other eras are told apart by their start year
+    let id = usedIds.has(base) ? `${base}-${figure.birthYear}` : base;
+    let suffix = 2;
+    while (usedIds.has(id)) {
+        id = `${base}-${figure.birthYear}-${suffix++}`;
+    }
+    usedIds.add(id);
+    return id;
+};
+
+/** Keeps `target`, taking over details it lacks from `duplicate` */
+export const fillMissingDetails = (target: HistoricalFigure, duplicate: HistoricalFigure): HistoricalFigure => ({
+    ...target,
+    occupation: target.occupation || duplicate.occupation,
+    shortDescription: target.shortDescription || duplicate.shortDescription,
+    imageUrl: target.imageUrl || duplicate.imageUrl
+});
+
+/**
+ * Resolves incoming entries against the timeline (and each other). Entries with
+ * the same normalized name or Wikipedia article and overlapping years are merged
+ * into the existing one. Near misses are added but reported as merge candidates
+ * for the user to review. Existing entries keep their ids.
+ */
+export const resolveEntities = (
+    existing: HistoricalFigure[],
+    incoming: HistoricalFigure[],
+    canonicalTitles: Map<string, string> = new Map()
+): EntityResolution => {
+    const figures = [...existing];
+    const usedIds = new Set(existing.map(f => f.id));
+    const added: HistoricalFigure[] = [];
+    const idMap = new Map<string, string>();
+    const candidates: MergeCandidate[] = [];
+    let mergedCount = 0;
+
+    for (const figure of incoming) {
+        const sameId = figures.find(f => f.id === figure.id);
+        const match: Match | null = sameId
+            ? { figure: sameId, certain: true, reason: '' }
+            : findMatch(figures, figure, canonicalTitles);
+
+        if (match?.certain) {
+            const index = figures.indexOf(match.figure);
+            figures[index] = fillMissingDetails(match.figure, figure);
+            idMap.set(figure.id, match.figure.id);
+            mergedCount++;
+            continue;
+        }
+
+        const canonicalName = normalizeFigureName(canonicalTitles.get(figure.name) || figure.name);
+        const resolved = { ...figure, id: createCanonicalId(figure, canonicalName, usedIds) };
+        figures.push(resolved);
+        added.push(resolved);
+        idMap.set(figure.id, resolved.id);
+
+        if (match) {
+            candidates.push({
+                id: `${match.figure.id}|${resolved.id}`,
+                keepId: match.figure.id,
+                duplicateId: resolved.id,
+                reason: match.reason
+            });
+        }
+    }
+
+    return { figures, added, idMap, mergedCount, candidates };
+};
+
+/** resolveEntities with canonical titles looked up on Wikipedia first */
+export const resolveFigureBatch = async (
+    existing: HistoricalFigure[],
+    incoming: HistoricalFigure[]
+): Promise<EntityResolution> => {
+    const canonicalTitles = await fetchCanonicalTitles([...existing, ...incoming].map(f => f.name));
+    return resolveEntities(existing, incoming, canonicalTitles);
+};
+
+/**
+ * Folds `duplicateId` into `keepId`: the duplicate is removed and every
+ * relationship pointing at it is moved over to the kept entry.
+ */
+export const mergeDuplicateFigure = (
+    data: {
+        figures: HistoricalFigure[];
+        knownRelationships: Map<string, Set<string>>;
+        discoveredFigureIds: Set<string>;
+    },
+    keepId: string,
+    duplicateId: string
+) => {
+    const keep = data.figures.find(f => f.id === keepId);
+    const duplicate = data.figures.find(f => f.id === duplicateId);
+    if (!keep || !duplicate) return null;
+
+    const merged = fillMissingDetails(keep, duplicate);
+    const figures = data.figures
+        .filter(f => f.id !== duplicateId)
+        .map(f => f.id === keepId ? merged : f);
+
+    const mapId = (id: string) => id === duplicateId ? keepId : id;
+    const knownRelationships = new Map<string, Set<string>>();
+    data.knownRelationships.forEach((relatedIds, sourceId) => {
+        const source = mapId(sourceId);
+        const related = knownRelationships.get(source) || new Set<string>();
+        relatedIds.forEach(id => {
+            if (mapId(id) !== source) related.add(mapId(id));
+        });
+        knownRelationships.set(source, related);
+    });
+
+    const discoveredFigureIds = new Set(data.discoveredFigureIds);
+    discoveredFigureIds.delete(duplicateId);
+
+    return { figures, knownRelationships, discoveredFigureIds, merged };
+};
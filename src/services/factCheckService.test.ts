@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { HistoricalFigure } from '../types';
+import { applyFactCheck, DEFAULT_FACT_CHECK_ENDPOINTS, JsonClient, WikidataFactChecker, widenRangeForCorrections } from './factCheckService';
+import recorded from './fixtures/wikidataFactCheck.json';
+
+// Answers with the recorded Wikipedia and Wikidata payloads, keeping the URLs asked for
+const createRecordedClient = () => {
+  const requests: string[] = [];
+  const client: JsonClient = async (url) => {
+    requests.push(url);
+    if (url.startsWith(DEFAULT_FACT_CHECK_ENDPOINTS.wikipediaApi)) return recorded.wikipedia;
+    if (url.startsWith(DEFAULT_FACT_CHECK_ENDPOINTS.wikidataApi)) return recorded.wikidata;
+    throw new Error(`Unexpected request: ${url}`);
+  };
+  return { client, requests };
+};
+
+const figure = (
+  id: string,
+  name: string,
+  birthYear: number,
+  deathYear: number,
+  category: HistoricalFigure['category'] = 'ARTISTS'
+): HistoricalFigure => ({ id, name, birthYear, deathYear, occupation: '', category });
+
+// Years as an AI might give them: one a little off, one far off, one right and one unknown
+const FIGURES: HistoricalFigure[] = [
+  figure('leonardo', 'leonardo da vinci', 1455, 1519),
+  figure('galileo', 'Galileo', 1584, 1642, 'SCIENTISTS'),
+  figure('thirty-years-war', "Thirty Years' War", 1618, 1648, 'EVENTS'),
+  figure('zorblax', 'Zorblax the Unknown', 1500, 1560, 'THINKERS')
+];
+
+describe('WikidataFactChecker', () => {
+  it('corrects a year that is slightly off, following normalized titles', async () => {
+    const { client } = createRecordedClient();
+    const results = await new WikidataFactChecker(client).checkFigures(FIGURES);
+    const leonardo = results.get('leonardo')!;
+
+    expect(leonardo).toMatchObject({
+      status: 'corrected',
+      wikidataId: 'Q762',
+      wikidataBirthYear: 1452,
+      wikidataDeathYear: 1519,
+      originalBirthYear: 1455,
+      originalDeathYear: 1519
+    });
+    expect(applyFactCheck(FIGURES[0], leonardo)).toMatchObject({ birthYear: 1452, deathYear: 1519 });
+  });
+
+  it('flags a disagreement too large to correct, following redirects', async () => {
+    const { client } = createRecordedClient();
+    const results = await new WikidataFactChecker(client).checkFigures(FIGURES);
+    const galileo = results.get('galileo')!;
+
+    expect(galileo).toMatchObject({ status: 'mismatch', wikidataId: 'Q307', wikidataBirthYear: 1564 });
+    expect(applyFactCheck(FIGURES[1], galileo).birthYear).toBe(1584);
+  });
+
+  it('verifies events by their start and end claims and leaves unknown names unverified', async () => {
+    const { client, requests } = createRecordedClient();
+    const results = await new WikidataFactChecker(client).checkFigures(FIGURES);
+
+    expect(results.get('thirty-years-war')).toMatchObject({ status: 'verified', wikidataId: 'Q2487' });
+    expect(results.get('zorblax')?.status).toBe('unverified');
+    // One title lookup and one entity lookup for the whole batch
+    expect(requests).toHaveLength(2);
+  });
+
+  it('widens the range to cover corrected years', async () => {
+    const { client } = createRecordedClient();
+    const results = await new WikidataFactChecker(client).checkFigures(FIGURES);
+    const checked = FIGURES.map(f => applyFactCheck(f, results.get(f.id)!));
+
+    expect(widenRangeForCorrections({ start: 1455, end: 1650 }, checked)).toEqual({ start: 1452, end: 1650 });
+    // Flagged and verified entries never move the range
+    expect(widenRangeForCorrections({ start: 1600, end: 1700 }, checked.filter(f => f.id !== 'leonardo')))
+      .toEqual({ start: 1600, end: 1700 });
+  });
+});
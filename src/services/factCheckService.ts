@@ -0,0 +1,238 @@
+import { FactCheck, HistoricalFigure } from "../types";
+import { mapInputsToTitles } from "./wikiService";
+
+/** Fetches a URL and returns the parsed JSON body */
+export type JsonClient = (url: string) => Promise<unknown>;
+
+export const fetchJsonClient: JsonClient = async (url) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}`);
+    }
+    return response.json();
+};
+
+export interface FactCheckEndpoints {
+    wikipediaApi: string;
+    wikidataApi: string;
+}
+
+export const DEFAULT_FACT_CHECK_ENDPOINTS: FactCheckEndpoints = {
+    wikipediaApi: 'https://en.wikipedia.org/w/api.php',
+    wikidataApi: 'https://www.wikidata.org/w/api.php'
+};
+
+// Years this close count as agreeing; calendars and sources differ by one now and then
+const MATCH_TOLERANCE_YEARS = 1;
+// Further off than this, the article is more likely a different person than a wrong date
+const MAX_CORRECTION_YEARS = 15;
+// Wikidata time precision for "exact to the year"; coarser values are never used to correct
+const YEAR_PRECISION = 9;
+const BATCH_SIZE = 50;
+
+// Date of birth / death for people; start, end, point in time, inception and dissolution for events
+const PERSON_PROPERTIES = { start: ['P569'], end: ['P570'] };
+const EVENT_PROPERTIES = { start: ['P580', 'P585', 'P571'], end: ['P582', 'P585', 'P576'] };
+
+type WikidataYear = { year: number; isPrecise: boolean };
+
+/** One statement of a Wikidata claim, as wbgetentities returns it; only time values are read */
+interface WikidataStatement {
+    rank?: 'preferred' | 'normal' | 'deprecated';
+    mainsnak?: {
+        snaktype?: string;
+        datavalue?: { value?: { time?: unknown; precision?: number } };
+    };
+}
+
+type WikidataClaims = Record<string, WikidataStatement[] | undefined>;
+
+interface WikidataEntitiesResponse {
+    entities?: Record<string, { claims?: WikidataClaims } | undefined>;
+}
+
+interface WikipediaPage {
+    title: string;
+    pageprops?: { wikibase_item?: string };
+}
+
+interface WikipediaQueryResponse {
+    query?: {
+        pages?: Record<string, WikipediaPage>;
+        normalized?: { from: string; to: string }[];
+        redirects?: { from: string; to: string }[];
+    };
+}
+
+/**
+ * Reads the year of the first listed property that has a value, preferring
+ * statements ranked "preferred". Wikidata writes 69 BC as "-0069-...", which
+ * matches the negative years used on the timeline.
+ */
+const readClaimYear = (claims: WikidataClaims, properties: string[]): WikidataYear | null => {
+    for (const property of properties) {
+        const statements = (claims[property] || []).filter(c =>
+            c.rank !== 'deprecated' && c.mainsnak?.snaktype === 'value'
+        );
+        const preferred = statements.filter(c => c.rank === 'preferred');
+        const value = (preferred.length > 0 ? preferred : statements)[0]?.mainsnak?.datavalue?.value;
+
+        const match = typeof value?.time === 'string' ? /^([+-])(\d+)-/.exec(value.time) : null;
+        if (!match) continue;
+
+        const year = parseInt(match[2], 10) * (match[1] === '-' ? -1 : 1);
+        return { year, isPrecise: (value?.precision ?? 0) >= YEAR_PRECISION };
+    }
+    return null;
+};
+
+/**
+ * Compares a figure's years with the ones Wikidata has. Small, precise
+ * differences are corrected; anything else that disagrees is only flagged.
+ */
+export const compareWithWikidata = (
+    figure: HistoricalFigure,
+    wikidataId: string,
+    birth: WikidataYear | null,
+    death: WikidataYear | null
+): FactCheck => {
+    const checkedAt = new Date().toISOString();
+    if (!birth && !death) {
+        return { status: 'unverified', wikidataId, checkedAt };
+    }
+
+    const base = { wikidataId, wikidataBirthYear: birth?.year, wikidataDeathYear: death?.year, checkedAt };
+    const birthOffset = birth ? Math.abs(figure.birthYear - birth.year) : 0;
+    const deathOffset = death ? Math.abs(figure.deathYear - death.year) : 0;
+
+    if (birthOffset <= MATCH_TOLERANCE_YEARS && deathOffset <= MATCH_TOLERANCE_YEARS) {
+        return { ...base, status: 'verified' };
+    }
+
+    const correctedBirth = birth?.year ?? figure.birthYear;
+    const correctedDeath = death?.year ?? figure.deathYear;
+    const canCorrect =
+        Math.max(birthOffset, deathOffset) <= MAX_CORRECTION_YEARS &&
+        (!birth || birth.isPrecise) &&
+        (!death || death.isPrecise) &&
+        correctedBirth <= correctedDeath;
+
+    return canCorrect
+        ? { ...base, status: 'corrected', originalBirthYear: figure.birthYear, originalDeathYear: figure.deathYear }
+        : { ...base, status: 'mismatch' };
+};
+
+/** The range widened to cover the years of entries whose dates were corrected */
+export const widenRangeForCorrections = (
+    range: { start: number; end: number },
+    figures: HistoricalFigure[]
+): { start: number; end: number } => {
+    const corrected = figures.filter(f => f.factCheck?.status === 'corrected');
+    if (corrected.length === 0) return range;
+    return {
+        start: Math.min(range.start, ...corrected.map(f => f.birthYear)),
+        end: Math.max(range.end, ...corrected.map(f => f.deathYear))
+    };
+};
+
+/** Stores the check on the figure, taking over Wikidata's years when they were corrected */
+export const applyFactCheck = (figure: HistoricalFigure, factCheck: FactCheck): HistoricalFigure => {
+    if (factCheck.status !== 'corrected') return { ...figure, factCheck };
+    return {
+        ...figure,
+        birthYear: factCheck.wikidataBirthYear ?? figure.birthYear,
+        deathYear: factCheck.wikidataDeathYear ?? figure.deathYear,
+        factCheck
+    };
+};
+
+/**
+ * Checks figures' years against Wikidata. Each name is resolved to its
+ * Wikipedia article, the article to its Wikidata item, and the item's date
+ * claims are compared with the AI's years. The network client and endpoints
+ * can be swapped, e.g. for a local server replaying recorded responses.
+ */
+export class WikidataFactChecker {
+    private client: JsonClient;
+    private endpoints: FactCheckEndpoints;
+
+    constructor(client: JsonClient = fetchJsonClient, endpoints: FactCheckEndpoints = DEFAULT_FACT_CHECK_ENDPOINTS) {
+        this.client = client;
+        this.endpoints = endpoints;
+    }
+
+    /** Results by figure id. Network errors are thrown; a figure with no Wikidata item is "unverified". */
+    async checkFigures(figures: HistoricalFigure[]): Promise<Map<string, FactCheck>> {
+        const results = new Map<string, FactCheck>();
+
+        for (let i = 0; i < figures.length; i += BATCH_SIZE) {
+            const batch = figures.slice(i, i + BATCH_SIZE);
+            const wikidataIds = await this.fetchWikidataIds(batch.map(f => f.name));
+            const entities = await this.fetchEntityClaims(Array.from(new Set(wikidataIds.values())));
+
+            batch.forEach(figure => {
+                const wikidataId = wikidataIds.get(figure.name);
+                const claims = wikidataId ? entities.get(wikidataId) : undefined;
+                if (!wikidataId || !claims) {
+                    results.set(figure.id, { status: 'unverified', checkedAt: new Date().toISOString() });
+                    return;
+                }
+
+                const properties = figure.category === 'EVENTS' ? EVENT_PROPERTIES : PERSON_PROPERTIES;
+                results.set(figure.id, compareWithWikidata(
+                    figure,
+                    wikidataId,
+                    readClaimYear(claims, properties.start),
+                    readClaimYear(claims, properties.end)
+                ));
+            });
+        }
+
+        return results;
+    }
+
+    // Wikidata item id by input name, following Wikipedia normalization and redirects
+    private async fetchWikidataIds(names: string[]): Promise<Map<string, string>> {
+        const params = new URLSearchParams({
+            action: 'query',
+            titles: names.join('|'),
+            prop: 'pageprops',
+            ppprop: 'wikibase_item',
+            format: 'json',
+            origin: '*',
+            redirects: '1'
+        });
+        const data = await this.client(`${this.endpoints.wikipediaApi}?${params.toString()}`) as WikipediaQueryResponse | null;
+
+        const titleToId = new Map<string, string>();
+        Object.values(data?.query?.pages || {}).forEach(page => {
+            if (page.pageprops?.wikibase_item) titleToId.set(page.title, page.pageprops.wikibase_item);
+        });
+
+        const ids = new Map<string, string>();
+        mapInputsToTitles(names, data?.query).forEach((title, name) => {
+            const id = titleToId.get(title);
+            if (id) ids.set(name, id);
+        });
+        return ids;
+    }
+
+    private async fetchEntityClaims(ids: string[]): Promise<Map<string, WikidataClaims>> {
+        const claims = new Map<string, WikidataClaims>();
+        if (ids.length === 0) return claims;
+
+        const params = new URLSearchParams({
+            action: 'wbgetentities',
+            ids: ids.join('|'),
+            props: 'claims',
+            format: 'json',
+            origin: '*'
+        });
+        const data = await this.client(`${this.endpoints.wikidataApi}?${params.toString()}`) as WikidataEntitiesResponse | null;
+
+        Object.entries(data?.entities || {}).forEach(([id, entity]) => {
+            if (entity?.claims) claims.set(id, entity.claims);
+        });
+        return claims;
+    }
+}
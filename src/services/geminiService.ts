@@ -1,13 +1,39 @@
 
-import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
-import { DeepDiveData, HistoricalFigure, IAIService, RelationshipExplanation } from "../types";
-import { CATEGORY_LIST, HISTORICAL_EVENTS_COUNT, HISTORICAL_EVENTS_PER_CENTURY_CHUNK, HISTORICAL_FIGURES_COUNT, HISTORICAL_FIGURES_PER_CENTURY_CHUNK } from "../constants";
-import { runWithRetry, enqueueTaskWithRetry } from "./utils";
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { DeepDiveData, HistoricalFigure, IAIService, RelationshipExplanation, RequestOptions, StreamingRequestOptions, UsageOperation } from "../types";
+import { CATEGORY_LIST, HISTORICAL_EVENTS_COUNT, HISTORICAL_EVENTS_PER_CENTURY_CHUNK, HISTORICAL_FIGURES_COUNT, HISTORICAL_FIGURES_PER_CENTURY_CHUNK, SOURCES_PROMPT } from "../constants";
+import { isAbortError } from "./utils";
+import { getRequestScheduler } from "./requestScheduler";
+import { assertWithinSpendingCaps, recordUsage } from "./usageTracker";
+import { reportDiagnostic } from "./responseDiagnostics";
+import {
+    buildRepairPrompt,
+    recordToFigure,
+    validateDeepDive,
+    validateFigureRecords,
+    validateRelatedIds,
+    validateRelationshipExplanation
+} from "./responseValidation";
+import { parsePartialJson, toPartialDeepDive, toPartialRelationshipExplanation } from "../utils/partialJson";
+
+const SOURCES_SCHEMA = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            title: { type: Type.STRING },
+            url: { type: Type.STRING },
+            claim: { type: Type.STRING }
+        },
+        required: ["title", "url", "claim"]
+    }
+};
 
 export class GeminiService implements IAIService {
     private ai: GoogleGenAI | null = null;
     private apiKey: string;
     private model: string;
+    private scheduler = getRequestScheduler('gemini');
 
     constructor(apiKey?: string, model?: string) {
         this.apiKey = apiKey || process.env.API_KEY || '';
@@ -61,7 +87,85 @@ export class GeminiService implements IAIService {
         }
     }
 
-    private async fetchFiguresChunk(start: number, end: number): Promise<HistoricalFigure[]> {
+    /**
+     * Runs a JSON request and resolves with the response text. With `onText`,
+     * the response is streamed and `onText` gets the text received so far
+     * after every chunk.
+     */
+    private async generateJsonText(
+        params: GenerateContentParameters,
+        operation: UsageOperation,
+        options: RequestOptions,
+        onText?: (text: string) => void
+    ): Promise<string> {
+        const ai = this.ensureAI();
+        return this.scheduler.scheduleWithRetry(async signal => {
+            assertWithinSpendingCaps();
+            const request = { ...params, config: { ...params.config, abortSignal: signal } };
+            if (!onText) {
+                const response = await ai.models.generateContent(request);
+                this.recordUsage(operation, response);
+                return response.text || "";
+            }
+
+            let text = "";
+            // Only the last chunk carries the totals for the whole response
+            let lastChunk: GenerateContentResponse | undefined;
+            for await (const chunk of await ai.models.generateContentStream(request)) {
+                text += chunk.text || "";
+                lastChunk = chunk;
+                onText(text);
+            }
+            if (lastChunk) this.recordUsage(operation, lastChunk);
+            return text;
+        }, options);
+    }
+
+    /**
+     * generateJsonText(), parsed. Malformed JSON, e.g. an answer cut off at the
+     * token limit, gets one repair request before the call fails.
+     */
+    private async generateJson(
+        params: GenerateContentParameters,
+        operation: UsageOperation,
+        options: RequestOptions,
+        onText?: (text: string) => void
+    ): Promise<unknown> {
+        const text = await this.generateJsonText(params, operation, options, onText);
+        if (!text.trim()) return null;
+
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            const source = { provider: 'gemini', operation };
+            const repairedText = await this.generateJsonText({
+                model: this.model,
+                contents: buildRepairPrompt(text, (error as Error).message),
+                config: { responseMimeType: "application/json", responseSchema: params.config?.responseSchema }
+            }, operation, options);
+
+            try {
+                const repaired = JSON.parse(repairedText);
+                reportDiagnostic(source, 'repaired', 'Malformed JSON fixed by a repair request', text);
+                return repaired;
+            } catch (repairError) {
+                reportDiagnostic(source, 'unparseable', 'Malformed JSON, and the repair request did not fix it', repairedText);
+                throw repairError;
+            }
+        }
+    }
+
+    private recordUsage(operation: UsageOperation, response: GenerateContentResponse) {
+        const usage = response.usageMetadata;
+        if (!usage) return;
+        recordUsage('gemini', this.model, operation, {
+            inputTokens: usage.promptTokenCount || 0,
+            // Thinking tokens are billed as output
+            outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0)
+        });
+    }
+
+    private async fetchFiguresChunk(start: number, end: number, operation: UsageOperation, options: RequestOptions): Promise<HistoricalFigure[]> {
         const prompt = `
             Generate a list of exactly ${HISTORICAL_FIGURES_PER_CENTURY_CHUNK} distinct and famous historical figures (politicians, rulers, artists, scientists, etc.) 
             who lived primarily between the years ${start} and ${end}.
@@ -77,9 +181,7 @@ export class GeminiService implements IAIService {
         `;
 
         try {
-            const ai = this.ensureAI();
-            // Using runWithRetry directly to allow parallelism via Promise.all in the caller
-            const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -100,26 +202,19 @@ export class GeminiService implements IAIService {
                         },
                     },
                 },
-            }));
-
-            const peopleData = JSON.parse(response.text || "[]");
+            }, operation, options);
 
-            return peopleData.map((item: any, index: number) => ({
-                id: `p-${item.name.replace(/\s+/g, '-')}-${start}-${index}`,
-                name: item.name,
-                birthYear: item.birthYear,
-                deathYear: item.deathYear,
-                occupation: item.occupation,
-                category: item.category,
-                shortDescription: item.description
-            }));
+            return validateFigureRecords(data, 'person', { provider: 'gemini', operation }, { start, end }).map((record, index) =>
+                recordToFigure(record, `p-${record.name.replace(/\s+/g, '-')}-${start}-${index}`)
+            );
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.warn(`Failed to fetch chunk ${start}-${end}`, error);
             return [];
         }
     }
 
-    private async fetchEventsChunk(start: number, end: number): Promise<HistoricalFigure[]> {
+    private async fetchEventsChunk(start: number, end: number, operation: UsageOperation, options: RequestOptions): Promise<HistoricalFigure[]> {
         const prompt = `
             Generate a list of exactly ${HISTORICAL_EVENTS_PER_CENTURY_CHUNK} MAJOR historical events (wars, treaties, movements, ages) 
             that occurred between the years ${start} and ${end}.
@@ -136,8 +231,7 @@ export class GeminiService implements IAIService {
         `;
 
         try {
-            const ai = this.ensureAI();
-            const response = await runWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -158,27 +252,39 @@ export class GeminiService implements IAIService {
                         },
                     },
                 },
-            }));
+            }, operation, options);
 
-            const eventsData = JSON.parse(response.text || "[]");
-
-            return eventsData.map((item: any, index: number) => ({
-                id: `e-${item.name.replace(/\s+/g, '-')}-${start}-${index}`,
-                name: item.name,
-                birthYear: item.startYear,
-                deathYear: item.endYear,
-                occupation: item.type,
-                category: 'EVENTS',
-                shortDescription: item.description
-            }));
+            return validateFigureRecords(data, 'event', { provider: 'gemini', operation }, { start, end }).map((record, index) =>
+                recordToFigure(record, `e-${record.name.replace(/\s+/g, '-')}-${start}-${index}`)
+            );
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.warn(`Failed to fetch events chunk ${start}-${end}`, error);
             return [];
         }
     }
 
-    async fetchHistoricalFigures(startYear: number, endYear: number): Promise<HistoricalFigure[]> {
+    async fetchCenturyChunk(start: number, end: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
+        // Loaded while the user pans, so it waits behind anything they asked for
+        const chunkOptions: RequestOptions = { priority: 'background', ...options };
+        const [people, events] = await Promise.all([
+            this.fetchFiguresChunk(start, end, 'century', chunkOptions),
+            this.fetchEventsChunk(start, end, 'century', chunkOptions)
+        ]);
+
+        return [...people, ...events].filter(f =>
+            Number.isFinite(f.birthYear) &&
+            Number.isFinite(f.deathYear) &&
+            f.birthYear <= f.deathYear &&
+            f.deathYear >= start &&
+            f.birthYear <= end
+        );
+    }
+
+    async fetchHistoricalFigures(startYear: number, endYear: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
         const model = this.model;
+        // Without a key the build fails right away rather than returning an empty timeline
+        this.ensureAI();
 
         // 1. Fetch People (Chunked if > 200 years, else standard)
         let peoplePromise: Promise<HistoricalFigure[]>;
@@ -188,7 +294,8 @@ export class GeminiService implements IAIService {
             for (let y = startYear; y < endYear; y += 100) {
                 chunks.push({ start: y, end: Math.min(y + 100, endYear) });
             }
-            peoplePromise = Promise.all(chunks.map(chunk => this.fetchFiguresChunk(chunk.start, chunk.end)))
+            // The scheduler decides how many chunks run at once
+            peoplePromise = Promise.all(chunks.map(chunk => this.fetchFiguresChunk(chunk.start, chunk.end, 'build', options)))
                 .then(results => results.flat());
         } else {
             // Standard single prompt
@@ -206,8 +313,7 @@ export class GeminiService implements IAIService {
                 7. Classify into exactly one category: ${CATEGORY_LIST.filter(c => c !== 'EVENTS').join(', ')}.
             `;
 
-            const ai = this.ensureAI();
-            peoplePromise = enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            peoplePromise = this.generateJson({
                 model,
                 contents: peoplePrompt,
                 config: {
@@ -228,18 +334,14 @@ export class GeminiService implements IAIService {
                         },
                     },
                 },
-            })).then(response => {
-                const peopleData = JSON.parse(response.text || "[]");
-                return peopleData.map((item: any, index: number) => ({
-                    id: `p-${item.name.replace(/\s+/g, '-')}-${index}`,
-                    name: item.name,
-                    birthYear: item.birthYear,
-                    deathYear: item.deathYear,
-                    occupation: item.occupation,
-                    category: item.category,
-                    shortDescription: item.description
-                }));
-            }).catch(() => []);
+            }, 'build', options).then(data =>
+                validateFigureRecords(data, 'person', { provider: 'gemini', operation: 'build' }, { start: startYear, end: endYear }).map((record, index) =>
+                    recordToFigure(record, `p-${record.name.replace(/\s+/g, '-')}-${index}`)
+                )
+            ).catch(error => {
+                if (isAbortError(error)) throw error;
+                return [];
+            });
         }
 
         // 2. Fetch Events (Mixed Strategy: Global + Chunked if > 200)
@@ -261,8 +363,7 @@ export class GeminiService implements IAIService {
             8. Select based on historical importance and longevity.
         `;
 
-        const ai = this.ensureAI();
-        const globalEventsPromise = enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+        const globalEventsPromise = this.generateJson({
             model,
             contents: globalEventsPrompt,
             config: {
@@ -283,18 +384,14 @@ export class GeminiService implements IAIService {
                     },
                 },
             },
-        })).then(response => {
-            const eventsData = JSON.parse(response.text || "[]");
-            return eventsData.map((item: any, index: number) => ({
-                id: `e-g-${item.name.replace(/\s+/g, '-')}-${index}`,
-                name: item.name,
-                birthYear: item.startYear,
-                deathYear: item.endYear,
-                occupation: item.type,
-                category: 'EVENTS',
-                shortDescription: item.description
-            }));
-        }).catch(() => []);
+        }, 'build', options).then(data =>
+            validateFigureRecords(data, 'event', { provider: 'gemini', operation: 'build' }, { start: startYear, end: endYear }).map((record, index) =>
+                recordToFigure(record, `e-g-${record.name.replace(/\s+/g, '-')}-${index}`)
+            )
+        ).catch(error => {
+            if (isAbortError(error)) throw error;
+            return [];
+        });
 
         if (endYear - startYear > 200) {
             // Also fetch chunks for better density
@@ -303,7 +400,7 @@ export class GeminiService implements IAIService {
                 chunks.push({ start: y, end: Math.min(y + 100, endYear) });
             }
 
-            const chunkEventsPromise = Promise.all(chunks.map(chunk => this.fetchEventsChunk(chunk.start, chunk.end)))
+            const chunkEventsPromise = Promise.all(chunks.map(chunk => this.fetchEventsChunk(chunk.start, chunk.end, 'build', options)))
                 .then(results => results.flat());
 
             eventsPromise = Promise.all([globalEventsPromise, chunkEventsPromise])
@@ -378,12 +475,13 @@ export class GeminiService implements IAIService {
             return allFigures;
 
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("Error fetching figures/events:", error);
             return [];
         }
     }
 
-    async fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[]): Promise<string[]> {
+    async fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[], options: RequestOptions = {}): Promise<string[]> {
         try {
             // We only send names to save context
             const candidates = allFigures.filter(f => f.id !== target.id).map(f => ({ id: f.id, name: f.name }));
@@ -403,8 +501,7 @@ export class GeminiService implements IAIService {
                 Be selective. Only include significant connections.
             `;
 
-            const ai = this.ensureAI();
-            const response = await enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -419,12 +516,12 @@ export class GeminiService implements IAIService {
                         }
                     }
                 }
-            }));
+            }, 'relationships', { priority: 'interactive', ...options });
 
-            const result = JSON.parse(response.text || "{}");
-            return result.relatedIds || [];
+            return validateRelatedIds(data, candidates.map(c => c.id), { provider: 'gemini', operation: 'relationships' });
 
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("Error fetching relationships:", error);
             return [];
         }
@@ -434,7 +531,8 @@ export class GeminiService implements IAIService {
         target: HistoricalFigure,
         existingNames: string[],
         startYear: number,
-        endYear: number
+        endYear: number,
+        options: RequestOptions = {}
     ): Promise<HistoricalFigure[]> {
         try {
             const prompt = `
@@ -453,8 +551,7 @@ export class GeminiService implements IAIService {
                 Strictly formatted as JSON array.
             `;
 
-            const ai = this.ensureAI();
-            const response = await enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -475,31 +572,24 @@ export class GeminiService implements IAIService {
                         },
                     },
                 },
-            }));
+            }, 'discovery', { priority: 'background', ...options });
 
-            const rawData = JSON.parse(response.text || "[]");
-
-            return rawData.map((item: any, index: number) => ({
-                id: `${item.name.replace(/\s+/g, '-')}-${Date.now()}-${index}`, // Ensure unique ID
-                name: item.name,
-                birthYear: item.birthYear,
-                deathYear: item.deathYear,
-                occupation: item.occupation,
-                category: item.category,
-                shortDescription: item.description
-            })).filter((f: HistoricalFigure) => {
-                const hasValidDeathYear = f.deathYear != null && typeof f.deathYear === 'number' && !isNaN(f.deathYear);
-                const hasValidBirthYear = f.birthYear != null && typeof f.birthYear === 'number' && !isNaN(f.birthYear);
-                return hasValidBirthYear && hasValidDeathYear && f.birthYear < f.deathYear;
-            });
+            return validateFigureRecords(data, 'person', { provider: 'gemini', operation: 'discovery' }, { start: startYear, end: endYear }).map((record, index) =>
+                recordToFigure(record, `${record.name.replace(/\s+/g, '-')}-${Date.now()}-${index}`) // Ensure unique ID
+            );
 
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("Error discovering new figures:", error);
             return [];
         }
     }
 
-    async fetchRelationshipExplanation(source: HistoricalFigure, target: HistoricalFigure): Promise<RelationshipExplanation | null> {
+    async fetchRelationshipExplanation(
+        source: HistoricalFigure,
+        target: HistoricalFigure,
+        options: StreamingRequestOptions<RelationshipExplanation> = {}
+    ): Promise<RelationshipExplanation | null> {
         try {
             const prompt = `
                 Explain the historical relationship between ${source.name} (${source.birthYear}-${source.deathYear}) and ${target.name} (${target.birthYear}-${target.deathYear}).
@@ -507,12 +597,13 @@ export class GeminiService implements IAIService {
                 Provide the output in JSON format with:
                 1. "summary": A 1-2 sentence high-level summary of their connection.
                 2. "sections": An array of objects, each having a "title" (e.g., "Direct Interactions", "Intellectual Influence", "Conflict", "Legacy") and "content" (a paragraph explaining that aspect).
+                3. "sources": ${SOURCES_PROMPT}
                 
                 Ensure the tone is educational and historical.
             `;
 
-            const ai = this.ensureAI();
-            const response = await enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const { onPartial, ...requestOptions } = options;
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -531,21 +622,28 @@ export class GeminiService implements IAIService {
                                     },
                                     required: ["title", "content"]
                                 }
-                            }
+                            },
+                            sources: SOURCES_SCHEMA
                         },
-                        required: ["summary", "sections"]
+                        required: ["summary", "sections", "sources"],
+                        // Streamed in reading order rather than the default alphabetical one
+                        propertyOrdering: ["summary", "sections", "sources"]
                     }
                 }
+            }, 'explanation', { priority: 'interactive', ...requestOptions }, onPartial && (partialText => {
+                const partial = toPartialRelationshipExplanation(parsePartialJson(partialText));
+                if (partial) onPartial(partial);
             }));
 
-            return JSON.parse(response.text || "null");
+            return validateRelationshipExplanation(data, { provider: 'gemini', operation: 'explanation' });
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("Error fetching relationship explanation:", error);
             return null;
         }
     }
 
-    async fetchFigureDeepDive(figure: HistoricalFigure): Promise<DeepDiveData | null> {
+    async fetchFigureDeepDive(figure: HistoricalFigure, options: StreamingRequestOptions<DeepDiveData> = {}): Promise<DeepDiveData | null> {
         try {
             const prompt = `
                 Provide a detailed historical analysis of ${figure.name} (${figure.birthYear}-${figure.deathYear}, ${figure.occupation}).
@@ -554,10 +652,11 @@ export class GeminiService implements IAIService {
                 1. "summary": A comprehensive summary of their life and major impact (max 60 words).
                 2. "famousQuote": A short, verified, and famous quote attributed to them (or a very short description of their philosophy if no quote exists).
                 3. "sections": An array of 4 sections, specifically: "Early Life", "Major Achievements", "Key Relationships", and "Historical Legacy". Each content should be a substantial paragraph.
+                4. "sources": ${SOURCES_PROMPT}
             `;
 
-            const ai = this.ensureAI();
-            const response = await enqueueTaskWithRetry<GenerateContentResponse>(() => ai.models.generateContent({
+            const { onPartial, ...requestOptions } = options;
+            const data = await this.generateJson({
                 model: this.model,
                 contents: prompt,
                 config: {
@@ -577,15 +676,21 @@ export class GeminiService implements IAIService {
                                     },
                                     required: ["title", "content"]
                                 }
-                            }
+                            },
+                            sources: SOURCES_SCHEMA
                         },
-                        required: ["summary", "famousQuote", "sections"]
+                        required: ["summary", "famousQuote", "sections", "sources"],
+                        propertyOrdering: ["summary", "famousQuote", "sections", "sources"]
                     }
                 }
+            }, 'deepDive', { priority: 'interactive', ...requestOptions }, onPartial && (partialText => {
+                const partial = toPartialDeepDive(parsePartialJson(partialText));
+                if (partial) onPartial(partial);
             }));
 
-            return JSON.parse(response.text || "null");
+            return validateDeepDive(data, { provider: 'gemini', operation: 'deepDive' });
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("Error fetching figure deep dive:", error);
             return null;
         }
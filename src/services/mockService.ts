@@ -0,0 +1,228 @@
+import { DeepDiveData, FigureCategory, HistoricalFigure, IAIService, RelationshipExplanation, RequestOptions, StreamingRequestOptions } from "../types";
+import { wait } from "./utils";
+import { getRequestScheduler } from "./requestScheduler";
+import { parsePartialJson, toPartialDeepDive, toPartialRelationshipExplanation } from "../utils/partialJson";
+import mockTimeline from "./fixtures/mockTimeline.json";
+
+interface MockFigureRecord {
+    name: string;
+    birthYear: number;
+    deathYear: number;
+    occupation: string;
+    category: string;
+    description: string;
+}
+
+interface MockEventRecord {
+    name: string;
+    startYear: number;
+    endYear: number;
+    type: string;
+    description: string;
+}
+
+interface MockTimelineFixture {
+    figures: MockFigureRecord[];
+    discoverableFigures: MockFigureRecord[];
+    events: MockEventRecord[];
+    relationships: [string, string][];
+    relationshipExplanations: Record<string, RelationshipExplanation>;
+    deepDives: Record<string, DeepDiveData>;
+}
+
+const fixture = mockTimeline as unknown as MockTimelineFixture;
+
+// Small artificial delay so loading overlays and progress states remain visible during demos
+const MOCK_LATENCY_MS = 300;
+// Number of pieces a streamed answer arrives in
+const MOCK_STREAM_STEPS = 10;
+
+const wikipediaUrl = (title: string) => `https://en.wikipedia.org/wiki/${encodeURIComponent(title.replace(/ /g, '_'))}`;
+
+/**
+ * Offline AI provider backed by the bundled fixture in ./fixtures/mockTimeline.json.
+ * Every method is deterministic: the same inputs always produce the same figures,
+ * ids and texts, so App flows can be demoed and regression-tested without an API key.
+ */
+export class MockService implements IAIService {
+    private latencyMs: number;
+    private scheduler = getRequestScheduler('mock');
+
+    constructor(latencyMs: number = MOCK_LATENCY_MS) {
+        this.latencyMs = latencyMs;
+    }
+
+    // Queued like a real request, so priorities and cancellation behave the same offline
+    private async simulateLatency(options: RequestOptions = {}): Promise<void> {
+        await this.scheduler.schedule(signal => wait(this.latencyMs, signal), options);
+    }
+
+    /**
+     * Returns `result` after the usual latency. With `onPartial`, the JSON of
+     * the result is revealed piece by piece over that time instead, going
+     * through the same partial parsing as a real stream.
+     */
+    private async simulateStream<T>(
+        result: T,
+        toPartial: (value: unknown) => T | null,
+        options: StreamingRequestOptions<T>
+    ): Promise<T> {
+        const { onPartial, ...requestOptions } = options;
+        if (!onPartial) {
+            await this.simulateLatency(requestOptions);
+            return result;
+        }
+
+        const text = JSON.stringify(result);
+        await this.scheduler.schedule(async signal => {
+            for (let step = 1; step <= MOCK_STREAM_STEPS; step++) {
+                await wait(this.latencyMs / MOCK_STREAM_STEPS, signal);
+                const partial = toPartial(parsePartialJson(text.slice(0, Math.ceil(text.length * step / MOCK_STREAM_STEPS))));
+                if (partial) onPartial(partial);
+            }
+        }, requestOptions);
+        return result;
+    }
+
+    private overlaps(birthYear: number, deathYear: number, start: number, end: number): boolean {
+        return deathYear >= start && birthYear <= end;
+    }
+
+    private toFigure(item: MockFigureRecord, idPrefix: string): HistoricalFigure {
+        return {
+            id: `${idPrefix}-${item.name.replace(/\s+/g, '-')}`,
+            name: item.name,
+            birthYear: item.birthYear,
+            deathYear: item.deathYear,
+            occupation: item.occupation,
+            category: item.category as FigureCategory,
+            shortDescription: item.description
+        };
+    }
+
+    private toEvent(item: MockEventRecord): HistoricalFigure {
+        return {
+            id: `e-${item.name.replace(/\s+/g, '-')}`,
+            name: item.name,
+            birthYear: item.startYear,
+            deathYear: item.endYear,
+            occupation: item.type,
+            category: 'EVENTS',
+            shortDescription: item.description
+        };
+    }
+
+    /** Names directly connected to `name` in the fixture relationship graph */
+    private getRelatedNames(name: string): Set<string> {
+        const related = new Set<string>();
+        for (const [a, b] of fixture.relationships) {
+            if (a === name) related.add(b);
+            if (b === name) related.add(a);
+        }
+        return related;
+    }
+
+    async testConnection(): Promise<{ success: boolean; error?: string }> {
+        await this.simulateLatency();
+        return { success: true };
+    }
+
+    async fetchHistoricalFigures(startYear: number, endYear: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
+        await this.simulateLatency(options);
+
+        const people = fixture.figures
+            .filter(item => this.overlaps(item.birthYear, item.deathYear, startYear, endYear))
+            .map(item => this.toFigure(item, 'p'));
+
+        const events = fixture.events
+            .filter(item => this.overlaps(item.startYear, item.endYear, startYear, endYear))
+            .map(item => this.toEvent(item));
+
+        return [...people, ...events];
+    }
+
+    async fetchCenturyChunk(start: number, end: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
+        return this.fetchHistoricalFigures(start, end, { priority: 'background', ...options });
+    }
+
+    async fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[], options: RequestOptions = {}): Promise<string[]> {
+        await this.simulateLatency({ priority: 'interactive', ...options });
+
+        const relatedNames = this.getRelatedNames(target.name);
+        return allFigures
+            .filter(f => f.id !== target.id && relatedNames.has(f.name))
+            .map(f => f.id);
+    }
+
+    async discoverRelatedFigures(
+        target: HistoricalFigure,
+        existingNames: string[],
+        startYear: number,
+        endYear: number,
+        options: RequestOptions = {}
+    ): Promise<HistoricalFigure[]> {
+        await this.simulateLatency({ priority: 'background', ...options });
+
+        const relatedNames = this.getRelatedNames(target.name);
+        const existing = new Set(existingNames.map(n => n.toLowerCase()));
+
+        return [...fixture.figures, ...fixture.discoverableFigures]
+            .filter(item =>
+                relatedNames.has(item.name) &&
+                !existing.has(item.name.toLowerCase()) &&
+                this.overlaps(item.birthYear, item.deathYear, startYear, endYear)
+            )
+            .slice(0, 5)
+            .map(item => this.toFigure(item, 'd'));
+    }
+
+    async fetchRelationshipExplanation(
+        source: HistoricalFigure,
+        target: HistoricalFigure,
+        options: StreamingRequestOptions<RelationshipExplanation> = {}
+    ): Promise<RelationshipExplanation | null> {
+        const explanation = fixture.relationshipExplanations[`${source.name}|${target.name}`]
+            || fixture.relationshipExplanations[`${target.name}|${source.name}`]
+            || this.fallbackExplanation(source, target);
+        return this.simulateStream(explanation, toPartialRelationshipExplanation, { priority: 'interactive', ...options });
+    }
+
+    private fallbackExplanation(source: HistoricalFigure, target: HistoricalFigure): RelationshipExplanation {
+        return {
+            summary: `${source.name} and ${target.name} are linked on this timeline through overlapping lives and shared historical context.`,
+            sections: [
+                {
+                    title: "Historical Context",
+                    content: `${source.name} (${source.birthYear}-${source.deathYear}) and ${target.name} (${target.birthYear}-${target.deathYear}) belong to connected chapters of history.`
+                },
+                {
+                    title: "Offline Mode",
+                    content: "This explanation was generated by the offline mock provider. Switch to a live AI provider in Settings for a detailed analysis."
+                }
+            ],
+            sources: [
+                { title: source.name, url: wikipediaUrl(source.name), claim: `Life and dates of ${source.name}.` },
+                { title: target.name, url: wikipediaUrl(target.name), claim: `Life and dates of ${target.name}.` }
+            ]
+        };
+    }
+
+    async fetchFigureDeepDive(figure: HistoricalFigure, options: StreamingRequestOptions<DeepDiveData> = {}): Promise<DeepDiveData | null> {
+        const deepDive = fixture.deepDives[figure.name] || this.fallbackDeepDive(figure);
+        return this.simulateStream(deepDive, toPartialDeepDive, { priority: 'interactive', ...options });
+    }
+
+    private fallbackDeepDive(figure: HistoricalFigure): DeepDiveData {
+        return {
+            summary: figure.shortDescription || `${figure.name} (${figure.birthYear}-${figure.deathYear}), ${figure.occupation}.`,
+            famousQuote: "",
+            sections: [
+                { title: "Overview", content: figure.shortDescription || `${figure.name} was active between ${figure.birthYear} and ${figure.deathYear}.` },
+                { title: "Offline Mode", content: "This biography was generated by the offline mock provider. Switch to a live AI provider in Settings for a detailed analysis." }
+            ],
+            sources: [
+                { title: figure.name, url: wikipediaUrl(figure.name), claim: `Life and dates of ${figure.name}.` }
+            ]
+        };
+    }
+}
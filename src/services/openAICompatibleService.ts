@@ -0,0 +1,80 @@
+import { OpenRouterService } from "./openRouterService";
+import { getRequestScheduler } from "./requestScheduler";
+
+export const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Accepts either an API root ("http://host:port/v1") or a full chat completions URL
+ * and returns the API root without a trailing slash.
+ */
+export function normalizeBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+}
+
+/** Response of GET /models; servers may add fields, and not every entry is guaranteed an id */
+interface ModelListResponse {
+    data?: { id?: unknown }[];
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API, such as
+ * Ollama, llama.cpp server, vLLM or LM Studio. Prompts and parsing are shared
+ * with OpenRouterService; only the endpoint and headers differ.
+ */
+export class OpenAICompatibleService extends OpenRouterService {
+    private apiRoot: string;
+
+    constructor(baseUrl: string, model: string, apiKey: string = '') {
+        const apiRoot = normalizeBaseUrl(baseUrl || DEFAULT_LOCAL_BASE_URL);
+        super(apiKey, model, `${apiRoot}/chat/completions`);
+        this.apiRoot = apiRoot;
+        this.providerName = "Local";
+        this.scheduler = getRequestScheduler('local');
+        this.providerId = 'local';
+    }
+
+    protected buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        // Most self-hosted servers ignore auth, but vLLM and proxies can be configured to require a key
+        if (this.apiKey) {
+            headers["Authorization"] = `Bearer ${this.apiKey}`;
+        }
+        return headers;
+    }
+
+    async testConnection(): Promise<{ success: boolean; error?: string }> {
+        const result = await super.testConnection();
+        if (result.success) return result;
+
+        // fetch() rejects with a TypeError when the server is down or blocks the request via CORS
+        if (result.error === "Failed to fetch" || result.error?.includes("NetworkError")) {
+            return { success: false, error: `Cannot reach ${this.apiRoot} - check the base URL and that the server allows CORS` };
+        }
+        if (result.error === "Model not found - check model ID") {
+            return { success: false, error: `Model "${this.model}" not found at ${this.apiRoot}` };
+        }
+        return result;
+    }
+
+    /**
+     * Lists the model ids served by the endpoint (GET /models).
+     * Throws if the server is unreachable or does not implement the endpoint.
+     */
+    async listModels(): Promise<string[]> {
+        const response = await fetch(`${this.apiRoot}/models`, {
+            headers: this.buildHeaders()
+        });
+
+        if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data: ModelListResponse = await response.json();
+        if (!Array.isArray(data.data)) return [];
+
+        return data.data
+            .map(m => m?.id)
+            .filter((id): id is string => typeof id === 'string')
+            .sort((a, b) => a.localeCompare(b));
+    }
+}
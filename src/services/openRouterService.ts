@@ -1,28 +1,75 @@
 
-import { DeepDiveData, FigureCategory, HistoricalFigure, IAIService, RelationshipExplanation } from "../types";
-import { CATEGORY_LIST, HISTORICAL_EVENTS_COUNT, HISTORICAL_EVENTS_PER_CENTURY_CHUNK, HISTORICAL_FIGURES_COUNT, HISTORICAL_FIGURES_PER_CENTURY_CHUNK } from "../constants";
-import { runWithRetry, enqueueTaskWithRetry } from "./utils";
+import { DeepDiveData, HistoricalFigure, IAIService, RelationshipExplanation, RequestOptions, StreamingRequestOptions, TokenUsage, UsageOperation } from "../types";
+import { CATEGORY_LIST, HISTORICAL_EVENTS_COUNT, HISTORICAL_EVENTS_PER_CENTURY_CHUNK, HISTORICAL_FIGURES_COUNT, HISTORICAL_FIGURES_PER_CENTURY_CHUNK, SOURCES_PROMPT } from "../constants";
+import { isAbortError } from "./utils";
+import { getRequestScheduler } from "./requestScheduler";
+import { assertWithinSpendingCaps, recordUsage } from "./usageTracker";
+import { reportDiagnostic } from "./responseDiagnostics";
+import {
+    buildRepairPrompt,
+    recordToFigure,
+    validateDeepDive,
+    validateFigureRecords,
+    validateRelatedIds,
+    validateRelationshipExplanation
+} from "./responseValidation";
+import { parsePartialJson, toPartialDeepDive, toPartialRelationshipExplanation } from "../utils/partialJson";
+
+/** Token counts as OpenAI-compatible servers report them */
+interface CompletionUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
 
-export class OpenRouterService implements IAIService {
-    private apiKey: string;
-    private model: string;
-    private baseUrl: string = "https://openrouter.ai/api/v1/chat/completions";
+interface CompletionResponse {
+    choices?: { message?: { content?: string } }[];
+    usage?: CompletionUsage;
+}
+
+/** One server-sent event of a streamed completion */
+interface CompletionStreamEvent {
+    choices?: { delta?: { content?: string } }[];
+    usage?: CompletionUsage;
+}
+
+const toTokenUsage = (usage: CompletionUsage): TokenUsage => ({
+    inputTokens: usage.prompt_tokens || 0,
+    outputTokens: usage.completion_tokens || 0
+});
 
-    constructor(apiKey: string, model?: string) {
+export class OpenRouterService implements IAIService {
+    protected apiKey: string;
+    protected model: string;
+    protected baseUrl: string;
+    protected providerName: string = "OpenRouter";
+    protected scheduler = getRequestScheduler('openrouter');
+    // Provider id under which token usage is recorded
+    protected providerId: string = 'openrouter';
+
+    constructor(apiKey: string, model?: string, baseUrl?: string) {
         this.apiKey = apiKey;
         this.model = model || "openai/gpt-oss-120b";
+        this.baseUrl = baseUrl || "https://openrouter.ai/api/v1/chat/completions";
+    }
+
+    /**
+     * Request headers for the chat completions endpoint.
+     * Subclasses targeting other OpenAI-compatible servers override this to drop OpenRouter attribution headers.
+     */
+    protected buildHeaders(): Record<string, string> {
+        return {
+            "Authorization": `Bearer ${this.apiKey}`,
+            "Content-Type": "application/json",
+            "HTTP-Referer": window.location.origin,
+            "X-Title": "ChronoWeave"
+        };
     }
 
     async testConnection(): Promise<{ success: boolean; error?: string }> {
         try {
             const response = await fetch(this.baseUrl, {
                 method: "POST",
-                headers: {
-                    "Authorization": `Bearer ${this.apiKey}`,
-                    "Content-Type": "application/json",
-                    "HTTP-Referer": window.location.origin,
-                    "X-Title": "ChronoWeave"
-                },
+                headers: this.buildHeaders(),
                 body: JSON.stringify({
                     model: this.model,
                     messages: [{ role: "user", content: "Say 'ok'" }],
@@ -54,10 +101,10 @@ export class OpenRouterService implements IAIService {
                 return { success: true };
             }
 
-            console.error("[OpenRouter] Unexpected response structure:", data);
+            console.error(`[${this.providerName}] Unexpected response structure:`, data);
             return { success: false, error: "Invalid response format" };
         } catch (error: any) {
-            console.error("[OpenRouter] Connection test failed:", error);
+            console.error(`[${this.providerName}] Connection test failed:`, error);
             return {
                 success: false,
                 error: error.message || "Network error - check connection"
@@ -97,36 +144,136 @@ export class OpenRouterService implements IAIService {
         throw new Error("Failed to parse JSON from OpenRouter response");
     }
 
-    private async callOpenRouter(prompt: string, systemPrompt?: string): Promise<any> {
+    /**
+     * Sends a chat completion and returns its text. With `onText`, the
+     * completion is streamed as server-sent events and `onText` gets the text
+     * received so far after every delta.
+     */
+    private async callOpenRouter(
+        prompt: string,
+        systemPrompt: string,
+        operation: UsageOperation,
+        signal?: AbortSignal,
+        onText?: (text: string) => void
+    ): Promise<string> {
+        assertWithinSpendingCaps();
+
         const messages = [];
         if (systemPrompt) messages.push({ role: "system", content: systemPrompt });
         messages.push({ role: "user", content: prompt });
 
         const response = await fetch(this.baseUrl, {
             method: "POST",
-            headers: {
-                "Authorization": `Bearer ${this.apiKey}`,
-                "Content-Type": "application/json",
-                "HTTP-Referer": window.location.origin,
-                "X-Title": "ChronoWeave"
-            },
+            headers: this.buildHeaders(),
             body: JSON.stringify({
                 model: this.model,
                 messages: messages,
-            })
+                // Usage is only sent at the end of a stream when asked for
+                ...(onText ? { stream: true, stream_options: { include_usage: true } } : {})
+            }),
+            signal
         });
 
         if (!response.ok) {
             const errBody = await response.text();
-            throw new Error(`OpenRouter API Error: ${response.status} - ${errBody}`);
+            throw new Error(`${this.providerName} API Error: ${response.status} - ${errBody}`);
+        }
+
+        if (onText && response.body) {
+            const { content, usage } = await this.readEventStream(response.body, onText);
+            this.recordUsage(operation, usage);
+            return content;
+        }
+
+        const data: CompletionResponse = await response.json();
+        this.recordUsage(operation, data.usage && toTokenUsage(data.usage));
+        return data.choices?.[0]?.message?.content || "";
+    }
+
+    /**
+     * Schedules a completion and parses its JSON. Malformed JSON, e.g. an
+     * answer cut off at the token limit, gets one repair request before the
+     * call fails.
+     */
+    private async requestJson(
+        prompt: string,
+        systemPrompt: string,
+        operation: UsageOperation,
+        options: RequestOptions,
+        onText?: (text: string) => void
+    ): Promise<unknown> {
+        const content = await this.scheduler.scheduleWithRetry(signal => this.callOpenRouter(prompt, systemPrompt, operation, signal, onText), options);
+        if (!content.trim()) return null;
+
+        try {
+            return this.parseJson(content);
+        } catch (error) {
+            const source = { provider: this.providerId, operation };
+            const repairPrompt = buildRepairPrompt(content, (error as Error).message);
+            const repairedContent = await this.scheduler.scheduleWithRetry(signal => this.callOpenRouter(repairPrompt, "You are a strict JSON generator. Output ONLY valid JSON. Do NOT use markdown.", operation, signal), options);
+
+            try {
+                const repaired = this.parseJson(repairedContent);
+                reportDiagnostic(source, 'repaired', 'Malformed JSON fixed by a repair request', content);
+                return repaired;
+            } catch (repairError) {
+                reportDiagnostic(source, 'unparseable', 'Malformed JSON, and the repair request did not fix it', repairedContent);
+                throw repairError;
+            }
         }
+    }
 
-        const data = await response.json();
-        const content = data.choices?.[0]?.message?.content || "";
-        return this.parseJson(content);
+    private recordUsage(operation: UsageOperation, usage: TokenUsage | undefined) {
+        // Some OpenAI-compatible servers leave usage out
+        if (!usage) return;
+        recordUsage(this.providerId, this.model, operation, usage);
     }
 
-    private async fetchFiguresChunk(start: number, end: number): Promise<HistoricalFigure[]> {
+    // Collects the content deltas of a streamed completion, and the usage sent with the last event
+    private async readEventStream(
+        body: ReadableStream<Uint8Array>,
+        onText: (text: string) => void
+    ): Promise<{ content: string; usage?: TokenUsage }> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = "";
+        let content = "";
+        let usage: TokenUsage | undefined;
+
+        while (true) {
+            const { done, value } = await reader.read();
+            buffer += decoder.decode(value, { stream: !done });
+
+            // Only complete lines are read; the last one may still be arriving
+            const lines = buffer.split("\n");
+            buffer = done ? "" : lines.pop() || "";
+
+            for (const line of lines) {
+                // Blank lines separate events; lines starting with ":" are keep-alive comments
+                const trimmed = line.trim();
+                if (!trimmed.startsWith("data:")) continue;
+
+                const data = trimmed.slice(5).trim();
+                if (data === "[DONE]") return { content, usage };
+
+                try {
+                    const event: CompletionStreamEvent = JSON.parse(data);
+                    if (event.usage) usage = toTokenUsage(event.usage);
+                    const delta = event.choices?.[0]?.delta?.content;
+                    if (delta) {
+                        content += delta;
+                        onText(content);
+                    }
+                } catch {
+                    console.warn(`[${this.providerName}] Skipping malformed stream event:`, data.substring(0, 200));
+                }
+            }
+
+            if (done) return { content, usage };
+        }
+    }
+
+    private async fetchFiguresChunk(start: number, end: number, operation: UsageOperation, options: RequestOptions): Promise<HistoricalFigure[]> {
         const prompt = `
             Generate a list of exactly ${HISTORICAL_FIGURES_PER_CENTURY_CHUNK} distinct and famous historical figures.
             Range: ${start}-${end}.
@@ -141,26 +288,19 @@ export class OpenRouterService implements IAIService {
         `;
 
         try {
-            const peopleData = await runWithRetry(() => this.callOpenRouter(prompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown."));
-
-            if (!Array.isArray(peopleData)) return [];
-
-            return peopleData.map((item: any, index: number) => ({
-                id: `p-${item.name.replace(/\s+/g, '-')}-${start}-${index}`,
-                name: item.name,
-                birthYear: item.birthYear,
-                deathYear: item.deathYear,
-                occupation: item.occupation,
-                category: item.category as FigureCategory,
-                shortDescription: item.description
-            }));
+            const peopleData = await this.requestJson(prompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown.", operation, options);
+
+            return validateFigureRecords(peopleData, 'person', { provider: this.providerId, operation }, { start, end }).map((record, index) =>
+                recordToFigure(record, `p-${record.name.replace(/\s+/g, '-')}-${start}-${index}`)
+            );
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.warn(`[OpenRouter] Failed to fetch figures chunk ${start}-${end}:`, (error as Error).message);
             return [];
         }
     }
 
-    private async fetchEventsChunk(start: number, end: number): Promise<HistoricalFigure[]> {
+    private async fetchEventsChunk(start: number, end: number, operation: UsageOperation, options: RequestOptions): Promise<HistoricalFigure[]> {
         const prompt = `
             Generate a list of exactly ${HISTORICAL_EVENTS_PER_CENTURY_CHUNK} MAJOR historical events.
             Range: ${start}-${end}.
@@ -176,26 +316,35 @@ export class OpenRouterService implements IAIService {
             Return JSON array of objects with keys: "name", "startYear", "endYear", "type", "description", "category".
         `;
         try {
-            const eventsData = await runWithRetry(() => this.callOpenRouter(prompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown."));
-            if (Array.isArray(eventsData)) {
-                return eventsData.map((item: any, index: number) => ({
-                    id: `e-${item.name.replace(/\s+/g, '-')}-${start}-${index}`,
-                    name: item.name,
-                    birthYear: item.startYear,
-                    deathYear: item.endYear,
-                    occupation: item.type,
-                    category: 'EVENTS' as FigureCategory,
-                    shortDescription: item.description
-                }));
-            }
-            return [];
+            const eventsData = await this.requestJson(prompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown.", operation, options);
+            return validateFigureRecords(eventsData, 'event', { provider: this.providerId, operation }, { start, end }).map((record, index) =>
+                recordToFigure(record, `e-${record.name.replace(/\s+/g, '-')}-${start}-${index}`)
+            );
         } catch (e) {
+            if (isAbortError(e)) throw e;
             console.warn(`Failed to fetch events chunk ${start}-${end}`, e);
             return [];
         }
     }
 
-    async fetchHistoricalFigures(startYear: number, endYear: number): Promise<HistoricalFigure[]> {
+    async fetchCenturyChunk(start: number, end: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
+        // Loaded while the user pans, so it waits behind anything they asked for
+        const chunkOptions: RequestOptions = { priority: 'background', ...options };
+        const [people, events] = await Promise.all([
+            this.fetchFiguresChunk(start, end, 'century', chunkOptions),
+            this.fetchEventsChunk(start, end, 'century', chunkOptions)
+        ]);
+
+        return [...people, ...events].filter(f =>
+            Number.isFinite(f.birthYear) &&
+            Number.isFinite(f.deathYear) &&
+            f.birthYear <= f.deathYear &&
+            f.deathYear >= start &&
+            f.birthYear <= end
+        );
+    }
+
+    async fetchHistoricalFigures(startYear: number, endYear: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
         let figures: HistoricalFigure[] = [];
 
         // 1. Fetch People (Chunked if > 200)
@@ -205,9 +354,11 @@ export class OpenRouterService implements IAIService {
                 chunks.push({ start: y, end: Math.min(y + 100, endYear) });
             }
             try {
-                const chunkResults = await Promise.all(chunks.map(chunk => this.fetchFiguresChunk(chunk.start, chunk.end)));
+                // The scheduler decides how many chunks run at once
+                const chunkResults = await Promise.all(chunks.map(chunk => this.fetchFiguresChunk(chunk.start, chunk.end, 'build', options)));
                 figures = chunkResults.flat();
             } catch (e) {
+                if (isAbortError(e)) throw e;
                 console.error("Chunk fetch failed", e);
             }
         } else {
@@ -224,19 +375,14 @@ export class OpenRouterService implements IAIService {
                 Return JSON array of objects with keys: "name", "birthYear", "deathYear", "occupation", "description", "category".
             `;
             try {
-                const peopleData = await enqueueTaskWithRetry(() => this.callOpenRouter(peoplePrompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown."));
-                if (Array.isArray(peopleData)) {
-                    figures = figures.concat(peopleData.map((item: any, index: number) => ({
-                        id: `p-${item.name.replace(/\s+/g, '-')}-${index}`,
-                        name: item.name,
-                        birthYear: item.birthYear,
-                        deathYear: item.deathYear,
-                        occupation: item.occupation,
-                        category: item.category as FigureCategory,
-                        shortDescription: item.description
-                    })));
-                }
-            } catch (e) { console.error(e); }
+                const peopleData = await this.requestJson(peoplePrompt, "You are a strict JSON generator. Output ONLY valid JSON arrays. ALL string values MUST be properly quoted. Do NOT use markdown.", 'build', options);
+                figures = figures.concat(validateFigureRecords(peopleData, 'person', { provider: this.providerId, operation: 'build' }, { start: startYear, end: endYear }).map((record, index) =>
+                    recordToFigure(record, `p-${record.name.replace(/\s+/g, '-')}-${index}`)
+                ));
+            } catch (e) {
+                if (isAbortError(e)) throw e;
+                console.error(e);
+            }
         }
 
         // 2. Fetch Events
@@ -255,29 +401,23 @@ export class OpenRouterService implements IAIService {
         `;
 
         let rawEvents: HistoricalFigure[] = [];
-        const globalEventsPromise = enqueueTaskWithRetry(() => this.callOpenRouter(globalEventsPrompt, "You are a JSON generator. Strictly output valid JSON arrays."))
-            .then((eventsData: any) => {
-                if (Array.isArray(eventsData)) {
-                    return eventsData.map((item: any, index: number) => ({
-                        id: `e-g-${item.name.replace(/\s+/g, '-')}-${index}`,
-                        name: item.name,
-                        birthYear: item.startYear,
-                        deathYear: item.endYear,
-                        occupation: item.type,
-                        category: 'EVENTS' as FigureCategory,
-                        shortDescription: item.description
-                    }));
-                }
+        const globalEventsPromise = this.requestJson(globalEventsPrompt, "You are a JSON generator. Strictly output valid JSON arrays.", 'build', options)
+            .then(eventsData =>
+                validateFigureRecords(eventsData, 'event', { provider: this.providerId, operation: 'build' }, { start: startYear, end: endYear }).map((record, index) =>
+                    recordToFigure(record, `e-g-${record.name.replace(/\s+/g, '-')}-${index}`)
+                )
+            )
+            .catch(error => {
+                if (isAbortError(error)) throw error;
                 return [];
-            })
-            .catch(() => []);
+            });
 
         if (endYear - startYear > 200) {
             const chunks = [];
             for (let y = startYear; y < endYear; y += 100) {
                 chunks.push({ start: y, end: Math.min(y + 100, endYear) });
             }
-            const chunkEventsPromise = Promise.all(chunks.map(chunk => this.fetchEventsChunk(chunk.start, chunk.end)))
+            const chunkEventsPromise = Promise.all(chunks.map(chunk => this.fetchEventsChunk(chunk.start, chunk.end, 'build', options)))
                 .then(results => results.flat());
 
             rawEvents = await Promise.all([globalEventsPromise, chunkEventsPromise])
@@ -346,7 +486,7 @@ export class OpenRouterService implements IAIService {
         });
     }
 
-    async fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[]): Promise<string[]> {
+    async fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[], options: RequestOptions = {}): Promise<string[]> {
         const candidates = allFigures.filter(f => f.id !== target.id).map(f => ({ id: f.id, name: f.name }));
         if (candidates.length === 0) return [];
 
@@ -358,15 +498,16 @@ export class OpenRouterService implements IAIService {
         `;
 
         try {
-            const result = await enqueueTaskWithRetry(() => this.callOpenRouter(prompt, "You are a JSON generator. Output valid JSON."));
-            return result.relatedIds || [];
+            const result = await this.requestJson(prompt, "You are a JSON generator. Output valid JSON.", 'relationships', { priority: 'interactive', ...options });
+            return validateRelatedIds(result, candidates.map(c => c.id), { provider: this.providerId, operation: 'relationships' });
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("OpenRouter fetchRelatedFigures error:", error);
             return [];
         }
     }
 
-    async discoverRelatedFigures(target: HistoricalFigure, existingNames: string[], startYear: number, endYear: number): Promise<HistoricalFigure[]> {
+    async discoverRelatedFigures(target: HistoricalFigure, existingNames: string[], startYear: number, endYear: number, options: RequestOptions = {}): Promise<HistoricalFigure[]> {
         const prompt = `
             Timeline focus: ${target.name}.
             Find 5 NEW figures related to target within ${startYear}-${endYear}.
@@ -376,49 +517,56 @@ export class OpenRouterService implements IAIService {
         `;
 
         try {
-            const rawData = await enqueueTaskWithRetry(() => this.callOpenRouter(prompt, "You are a JSON generator. Output valid JSON arrays."));
-            if (!Array.isArray(rawData)) return [];
-
-            return rawData.map((item: any, index: number) => ({
-                id: `${item.name.replace(/\s+/g, '-')}-${Date.now()}-${index}`,
-                name: item.name,
-                birthYear: item.birthYear,
-                deathYear: item.deathYear,
-                occupation: item.occupation,
-                category: item.category as FigureCategory,
-                shortDescription: item.description
-            })).filter((f: HistoricalFigure) => {
-                const hasValidDeathYear = f.deathYear != null && typeof f.deathYear === 'number' && !isNaN(f.deathYear);
-                const hasValidBirthYear = f.birthYear != null && typeof f.birthYear === 'number' && !isNaN(f.birthYear);
-                return hasValidBirthYear && hasValidDeathYear && f.birthYear < f.deathYear;
-            });
+            const rawData = await this.requestJson(prompt, "You are a JSON generator. Output valid JSON arrays.", 'discovery', { priority: 'background', ...options });
+            return validateFigureRecords(rawData, 'person', { provider: this.providerId, operation: 'discovery' }, { start: startYear, end: endYear }).map((record, index) =>
+                recordToFigure(record, `${record.name.replace(/\s+/g, '-')}-${Date.now()}-${index}`)
+            );
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("OpenRouter discoverRelatedFigures error:", error);
             return [];
         }
     }
 
-    async fetchRelationshipExplanation(source: HistoricalFigure, target: HistoricalFigure): Promise<RelationshipExplanation | null> {
+    async fetchRelationshipExplanation(
+        source: HistoricalFigure,
+        target: HistoricalFigure,
+        options: StreamingRequestOptions<RelationshipExplanation> = {}
+    ): Promise<RelationshipExplanation | null> {
         const prompt = `
             Explain relationship between ${source.name} and ${target.name}.
-            Return JSON: "summary" (string), "sections" (array of {title, content}).
+            Return JSON with keys in this order: "summary" (string), "sections" (array of {title, content}), "sources": ${SOURCES_PROMPT}
         `;
+        const { onPartial, ...requestOptions } = options;
+        const onText = onPartial && ((text: string) => {
+            const partial = toPartialRelationshipExplanation(parsePartialJson(text));
+            if (partial) onPartial(partial);
+        });
         try {
-            return await enqueueTaskWithRetry(() => this.callOpenRouter(prompt, "You are a JSON generator. Output valid JSON."));
+            const result = await this.requestJson(prompt, "You are a JSON generator. Output valid JSON.", 'explanation', { priority: 'interactive', ...requestOptions }, onText);
+            return validateRelationshipExplanation(result, { provider: this.providerId, operation: 'explanation' });
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("OpenRouter fetchRelationshipExplanation error:", error);
             return null;
         }
     }
 
-    async fetchFigureDeepDive(figure: HistoricalFigure): Promise<DeepDiveData | null> {
+    async fetchFigureDeepDive(figure: HistoricalFigure, options: StreamingRequestOptions<DeepDiveData> = {}): Promise<DeepDiveData | null> {
         const prompt = `
             Historical analysis of ${figure.name}.
-            Return JSON: "summary" (string), "famousQuote" (string), "sections" (array of {title, content}).
+            Return JSON with keys in this order: "summary" (string), "famousQuote" (string), "sections" (array of {title, content}), "sources": ${SOURCES_PROMPT}
         `;
+        const { onPartial, ...requestOptions } = options;
+        const onText = onPartial && ((text: string) => {
+            const partial = toPartialDeepDive(parsePartialJson(text));
+            if (partial) onPartial(partial);
+        });
         try {
-            return await enqueueTaskWithRetry(() => this.callOpenRouter(prompt, "You are a JSON generator. Output valid JSON."));
+            const result = await this.requestJson(prompt, "You are a JSON generator. Output valid JSON.", 'deepDive', { priority: 'interactive', ...requestOptions }, onText);
+            return validateDeepDive(result, { provider: this.providerId, operation: 'deepDive' });
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.error("OpenRouter fetchFigureDeepDive error:", error);
             return null;
         }
@@ -0,0 +1,377 @@
+import { HistoricalFigure } from "../types";
+import { cacheDelete, cacheDeleteByPrefix, cacheEntries, cacheGet, cachePut, CacheStoreValues } from "./cacheStore";
+
+// Storage Keys. The project index and active id stay in localStorage so startup can read them synchronously;
+// timeline data and cached payloads live in IndexedDB (see cacheStore).
+const PROJECT_INDEX_KEY = 'chrono_projects';
+const ACTIVE_PROJECT_KEY = 'chrono_active_project';
+
+// localStorage prefixes from before IndexedDB; migrated by migrateLocalStorageData
+const PROJECT_DATA_PREFIX = 'chrono_project_';
+const DEEP_DIVE_PREFIX = 'chrono_deepdive_';
+const RELATIONSHIP_PREFIX = 'chrono_rel_';
+
+// Single-timeline keys used before projects existed; migrated into the first project
+const LEGACY_TIMELINE_DATA_KEY = 'chrono_timeline_data';
+const LEGACY_TIMELINE_CONFIG_KEY = 'chrono_timeline_config';
+
+const DEFAULT_PROJECT_NAME = 'My Timeline';
+const DEFAULT_CONFIG = { start: 600, end: 1600 };
+
+export interface TimelineProjectMeta {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    startYear: number;
+    endYear: number;
+    figureCount: number;
+}
+
+export interface TimelineProjectData {
+    config: { start: number; end: number };
+    figures: HistoricalFigure[];
+    // Serialized form of App's Map<string, Set<string>>
+    knownRelationships: Record<string, string[]>;
+    // Ids of figures added through "Expand Timeline" rather than the initial build
+    discoveredFigureIds: string[];
+}
+
+export const createEmptyProjectData = (config: { start: number; end: number } = DEFAULT_CONFIG): TimelineProjectData => ({
+    config,
+    figures: [],
+    knownRelationships: {},
+    discoveredFigureIds: []
+});
+
+export const serializeRelationships = (relationships: Map<string, Set<string>>): Record<string, string[]> => {
+    const result: Record<string, string[]> = {};
+    relationships.forEach((ids, sourceId) => {
+        result[sourceId] = Array.from(ids);
+    });
+    return result;
+};
+
+export const deserializeRelationships = (relationships: Record<string, string[]> | undefined): Map<string, Set<string>> => {
+    const result = new Map<string, Set<string>>();
+    Object.entries(relationships || {}).forEach(([sourceId, ids]) => {
+        result.set(sourceId, new Set(ids));
+    });
+    return result;
+};
+
+/** Key of a figure's deep dive in the "deepDives" store */
+export const getDeepDiveCacheKey = (projectId: string, figureId: string) =>
+    `${projectId}/${figureId}`;
+
+/** Key of a relationship explanation in the "relationships" store */
+export const getRelationshipCacheKey = (projectId: string, sourceId: string, targetId: string) =>
+    `${projectId}/${sourceId}_${targetId}`;
+
+const projectCachePrefix = (projectId: string) => `${projectId}/`;
+
+const generateProjectId = () =>
+    `proj-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const readJson = <T>(key: string): T | null => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch (e) {
+        console.error(`Failed to read ${key} from storage`, e);
+        return null;
+    }
+};
+
+const writeJson = (key: string, value: unknown): boolean => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return true;
+    } catch (e) {
+        console.error(`Failed to write ${key} to storage`, e);
+        return false;
+    }
+};
+
+/**
+ * Reads a project's cached payloads. Deep dives are keyed by figure id,
+ * relationship explanations by "sourceId_targetId".
+ */
+export const readProjectCaches = async (projectId: string): Promise<{ deepDives: Record<string, unknown>; relationships: Record<string, unknown> }> => {
+    const prefix = projectCachePrefix(projectId);
+    const [deepDiveEntries, relationshipEntries] = await Promise.all([
+        cacheEntries('deepDives', prefix),
+        cacheEntries('relationships', prefix)
+    ]);
+
+    const deepDives: Record<string, unknown> = {};
+    deepDiveEntries.forEach(({ key, value }) => { deepDives[key.slice(prefix.length)] = value; });
+    const relationships: Record<string, unknown> = {};
+    relationshipEntries.forEach(({ key, value }) => { relationships[key.slice(prefix.length)] = value; });
+
+    return { deepDives, relationships };
+};
+
+/** Writes a cached payload unless one already exists (or `overwrite` is set) */
+export const writeProjectCacheEntry = (
+    store: 'deepDives' | 'relationships',
+    key: string,
+    value: unknown,
+    overwrite = false
+): Promise<boolean> => cachePut(store, key, value, overwrite);
+
+/** Drops a project's cached payloads; false when any of them could not be deleted */
+export const clearProjectCaches = async (projectId: string): Promise<boolean> => {
+    const results = await Promise.all([
+        cacheDeleteByPrefix('deepDives', projectCachePrefix(projectId)),
+        cacheDeleteByPrefix('relationships', projectCachePrefix(projectId))
+    ]);
+    return results.every(Boolean);
+};
+
+/** Drops a figure's deep dive and its relationship explanations with any of `otherIds` */
+export const clearFigureCaches = async (projectId: string, figureId: string, otherIds: string[]) => {
+    await Promise.all([
+        cacheDelete('deepDives', getDeepDiveCacheKey(projectId, figureId)),
+        ...otherIds.flatMap(otherId => [
+            cacheDelete('relationships', getRelationshipCacheKey(projectId, figureId, otherId)),
+            cacheDelete('relationships', getRelationshipCacheKey(projectId, otherId, figureId))
+        ])
+    ]);
+};
+
+export const listProjects = (): TimelineProjectMeta[] => {
+    const projects = readJson<TimelineProjectMeta[]>(PROJECT_INDEX_KEY);
+    return Array.isArray(projects) ? projects : [];
+};
+
+const writeProjectIndex = (projects: TimelineProjectMeta[]) => {
+    writeJson(PROJECT_INDEX_KEY, projects);
+};
+
+export const getActiveProjectId = (): string | null => localStorage.getItem(ACTIVE_PROJECT_KEY);
+
+export const setActiveProjectId = (id: string) => {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+};
+
+export const loadProject = async (id: string): Promise<TimelineProjectData | null> => {
+    const data = await cacheGet('projects', id);
+    if (!data || !Array.isArray(data.figures)) return null;
+    return {
+        config: data.config || DEFAULT_CONFIG,
+        figures: data.figures,
+        knownRelationships: data.knownRelationships || {},
+        discoveredFigureIds: data.discoveredFigureIds || []
+    };
+};
+
+/**
+ * Persists project data, then refreshes its index entry. Resolves to the
+ * updated project list; rejects when the data could not be stored.
+ */
+export const saveProject = async (id: string, data: TimelineProjectData): Promise<TimelineProjectMeta[]> => {
+    if (!await cachePut('projects', id, data)) {
+        throw new Error(`Failed to save project ${id}`);
+    }
+
+    const projects = listProjects().map(p => p.id === id ? {
+        ...p,
+        updatedAt: Date.now(),
+        startYear: data.config.start,
+        endYear: data.config.end,
+        figureCount: data.figures.length
+    } : p);
+    writeProjectIndex(projects);
+    return projects;
+};
+
+const createProjectMeta = (name: string, data: TimelineProjectData): TimelineProjectMeta => {
+    const now = Date.now();
+    return {
+        id: generateProjectId(),
+        name: name.trim() || DEFAULT_PROJECT_NAME,
+        createdAt: now,
+        updatedAt: now,
+        startYear: data.config.start,
+        endYear: data.config.end,
+        figureCount: data.figures.length
+    };
+};
+
+/** Stores a new project's data, then lists it. Rejects when the data could not be stored. */
+export const createProject = async (name: string, data: TimelineProjectData = createEmptyProjectData()): Promise<TimelineProjectMeta> => {
+    const meta = createProjectMeta(name, data);
+    if (!await cachePut('projects', meta.id, data)) {
+        throw new Error(`Failed to create project "${meta.name}"`);
+    }
+
+    writeProjectIndex([...listProjects(), meta]);
+    return meta;
+};
+
+export const renameProject = (id: string, name: string): TimelineProjectMeta[] => {
+    const trimmed = name.trim();
+    if (!trimmed) return listProjects();
+
+    const projects = listProjects().map(p => p.id === id ? { ...p, name: trimmed } : p);
+    writeProjectIndex(projects);
+    return projects;
+};
+
+/** Copies a project's timeline data and its cached deep dives / relationship explanations */
+export const duplicateProject = async (id: string): Promise<TimelineProjectMeta | null> => {
+    const source = listProjects().find(p => p.id === id);
+    const data = await loadProject(id);
+    if (!source || !data) return null;
+
+    const copy = await createProject(`${source.name} (copy)`, data);
+
+    const caches = await readProjectCaches(id);
+    await Promise.all([
+        ...Object.entries(caches.deepDives).map(([figureId, value]) =>
+            cachePut('deepDives', getDeepDiveCacheKey(copy.id, figureId), value)),
+        ...Object.entries(caches.relationships).map(([pairKey, value]) =>
+            cachePut('relationships', `${projectCachePrefix(copy.id)}${pairKey}`, value))
+    ]).catch(e => console.warn("Failed to copy cached entries while duplicating project", e));
+
+    return copy;
+};
+
+/**
+ * Removes a project, its data and its cached payloads, then unlists it.
+ * Resolves to the remaining projects; rejects when anything could not be deleted.
+ */
+export const deleteProject = async (id: string): Promise<TimelineProjectMeta[]> => {
+    const [cachesCleared, dataDeleted] = await Promise.all([
+        clearProjectCaches(id),
+        cacheDelete('projects', id)
+    ]);
+    if (!cachesCleared || !dataDeleted) {
+        throw new Error(`Failed to delete project ${id}`);
+    }
+
+    const projects = listProjects().filter(p => p.id !== id);
+    writeProjectIndex(projects);
+
+    if (getActiveProjectId() === id) {
+        localStorage.removeItem(ACTIVE_PROJECT_KEY);
+    }
+    return projects;
+};
+
+/**
+ * Moves the pre-project single timeline (and its unscoped cache keys) into a project.
+ * Only runs while no project index exists, so every cache key found is a legacy one.
+ */
+const migrateLegacyTimeline = (): TimelineProjectMeta | null => {
+    const figures = readJson<HistoricalFigure[]>(LEGACY_TIMELINE_DATA_KEY);
+    const config = readJson<{ start: number; end: number }>(LEGACY_TIMELINE_CONFIG_KEY);
+    if (!Array.isArray(figures) || figures.length === 0) return null;
+
+    const data: TimelineProjectData = { ...createEmptyProjectData(config || DEFAULT_CONFIG), figures };
+    const meta = createProjectMeta(DEFAULT_PROJECT_NAME, data);
+
+    // Stored under the pre-IndexedDB key, with the old copy removed first to make room;
+    // migrateLocalStorageData moves it into IndexedDB before the first load
+    localStorage.removeItem(LEGACY_TIMELINE_DATA_KEY);
+    writeJson(`${PROJECT_DATA_PREFIX}${meta.id}`, data);
+
+    const legacyCacheKeys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && (key.startsWith(DEEP_DIVE_PREFIX) || key.startsWith(RELATIONSHIP_PREFIX))) {
+            legacyCacheKeys.push(key);
+        }
+    }
+    legacyCacheKeys.forEach(key => {
+        const value = localStorage.getItem(key);
+        const prefix = key.startsWith(DEEP_DIVE_PREFIX) ? DEEP_DIVE_PREFIX : RELATIONSHIP_PREFIX;
+        if (value !== null) {
+            try {
+                localStorage.setItem(`${prefix}${meta.id}_${key.slice(prefix.length)}`, value);
+            } catch (e) {
+                console.warn("Failed to migrate cached entry", e);
+            }
+        }
+        localStorage.removeItem(key);
+    });
+
+    localStorage.removeItem(LEGACY_TIMELINE_CONFIG_KEY);
+    return meta;
+};
+
+type MigratedStore = 'projects' | 'deepDives' | 'relationships';
+
+/** Where a localStorage entry goes in IndexedDB, with the value typed for its store */
+type MigrationTarget = {
+    [S in MigratedStore]: { store: S; key: string; value: CacheStoreValues[S] }
+}[MigratedStore];
+
+// Null for entries that cannot be read or whose key does not name a project
+const readMigrationTarget = (key: string): MigrationTarget | null => {
+    if (key.startsWith(PROJECT_DATA_PREFIX)) {
+        const value = readJson<TimelineProjectData>(key);
+        return value && { store: 'projects', key: key.slice(PROJECT_DATA_PREFIX.length), value };
+    }
+
+    const isDeepDive = key.startsWith(DEEP_DIVE_PREFIX);
+    // "<projectId>_<figureId>" or "<projectId>_<sourceId>_<targetId>"; project ids contain no underscore
+    const rest = key.slice((isDeepDive ? DEEP_DIVE_PREFIX : RELATIONSHIP_PREFIX).length);
+    const separator = rest.indexOf('_');
+    const value = readJson<unknown>(key);
+    if (separator <= 0 || value === null) return null;
+
+    return {
+        store: isDeepDive ? 'deepDives' : 'relationships',
+        key: `${rest.slice(0, separator)}/${rest.slice(separator + 1)}`,
+        value
+    };
+};
+
+/**
+ * Moves timeline data and cached payloads that older versions kept in
+ * localStorage into IndexedDB. A key is removed once its value is stored;
+ * an entry already in IndexedDB wins over the localStorage copy.
+ */
+export const migrateLocalStorageData = async () => {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key && [PROJECT_DATA_PREFIX, DEEP_DIVE_PREFIX, RELATIONSHIP_PREFIX].some(prefix => key.startsWith(prefix))) {
+            keys.push(key);
+        }
+    }
+
+    for (const key of keys) {
+        const target = readMigrationTarget(key);
+        if (!target) {
+            localStorage.removeItem(key);
+            continue;
+        }
+
+        const existing = await cacheGet(target.store, target.key);
+        const stored = existing !== null || await cachePut(target.store, target.key, target.value);
+        if (stored) localStorage.removeItem(key);
+    }
+};
+
+/**
+ * Returns the project to open on startup, migrating legacy data or
+ * creating an empty default project when none exist yet.
+ */
+export const ensureActiveProject = (): TimelineProjectMeta => {
+    let projects = listProjects();
+
+    if (projects.length === 0) {
+        // An empty project needs no stored data; loading it finds none and starts empty
+        const created = migrateLegacyTimeline() || createProjectMeta(DEFAULT_PROJECT_NAME, createEmptyProjectData());
+        projects = [created];
+        writeProjectIndex(projects);
+    }
+
+    const activeId = getActiveProjectId();
+    const active = projects.find(p => p.id === activeId) || projects[0];
+    setActiveProjectId(active.id);
+    return active;
+};
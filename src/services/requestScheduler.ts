@@ -0,0 +1,134 @@
+import { RequestLimits, RequestOptions, RequestPriority } from "../types";
+import { DEFAULT_REQUEST_LIMITS } from "../constants";
+import { createAbortError, runWithRetry } from "./utils";
+
+const REQUEST_LIMITS_KEY = 'chrono_request_limits';
+const RATE_WINDOW_MS = 60 * 1000;
+const LANE_ORDER: RequestPriority[] = ['interactive', 'normal', 'background'];
+
+/**
+ * Runs AI requests within a concurrency limit and a requests-per-minute
+ * budget. Waiting requests are started lane by lane, so an interactive
+ * request jumps ahead of queued background work; within a lane they run in
+ * the order they were scheduled.
+ */
+export class RequestScheduler {
+    private limits: RequestLimits;
+    // Waiting requests per lane; calling one starts it
+    private lanes: Record<RequestPriority, (() => void)[]> = { interactive: [], normal: [], background: [] };
+    private running = 0;
+    // Start times within the last minute, oldest first
+    private startTimes: number[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+
+    constructor(limits: RequestLimits) {
+        this.limits = limits;
+    }
+
+    setLimits(limits: RequestLimits) {
+        this.limits = limits;
+        this.startNext();
+    }
+
+    /**
+     * Queues `task` and resolves with its result. Aborting `signal` removes a
+     * waiting request from the queue; a running one is handed the signal and
+     * the returned promise rejects right away, without waiting for the task.
+     */
+    schedule<T>(task: (signal?: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+        const { priority = 'normal', signal } = options;
+        if (signal?.aborted) return Promise.reject(createAbortError());
+
+        return new Promise<T>((resolve, reject) => {
+            const lane = this.lanes[priority];
+            const start = () => {
+                this.running++;
+                task(signal)
+                    .then(resolve, reject)
+                    .finally(() => {
+                        signal?.removeEventListener('abort', onAbort);
+                        this.running--;
+                        this.startNext();
+                    });
+            };
+            const onAbort = () => {
+                const index = lane.indexOf(start);
+                if (index >= 0) lane.splice(index, 1);
+                reject(createAbortError());
+            };
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+            lane.push(start);
+            this.startNext();
+        });
+    }
+
+    /** schedule() with rate-limit retries, which stop as soon as the signal fires */
+    scheduleWithRetry<T>(task: (signal?: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> {
+        return this.schedule(signal => runWithRetry(() => task(signal), undefined, undefined, signal), options);
+    }
+
+    private startNext() {
+        while (this.running < Math.max(1, this.limits.concurrency)) {
+            const lane = LANE_ORDER.map(priority => this.lanes[priority]).find(l => l.length > 0);
+            if (!lane) return;
+
+            const delay = this.getRateLimitDelay();
+            if (delay > 0) {
+                if (!this.timer) {
+                    this.timer = setTimeout(() => {
+                        this.timer = null;
+                        this.startNext();
+                    }, delay);
+                }
+                return;
+            }
+
+            this.startTimes.push(Date.now());
+            lane.shift()!();
+        }
+    }
+
+    // Milliseconds until the per-minute budget allows another start
+    private getRateLimitDelay(): number {
+        const { requestsPerMinute } = this.limits;
+        if (requestsPerMinute <= 0) return 0;
+
+        const now = Date.now();
+        this.startTimes = this.startTimes.filter(time => now - time < RATE_WINDOW_MS);
+        if (this.startTimes.length < requestsPerMinute) return 0;
+        return this.startTimes[0] + RATE_WINDOW_MS - now;
+    }
+}
+
+const readStoredLimits = (): Record<string, RequestLimits> => {
+    try {
+        return JSON.parse(localStorage.getItem(REQUEST_LIMITS_KEY) || '{}');
+    } catch {
+        return {};
+    }
+};
+
+/** The limits a provider runs with: the user's override, or the provider default */
+export const getRequestLimits = (provider: string): RequestLimits => ({
+    ...(DEFAULT_REQUEST_LIMITS[provider] || DEFAULT_REQUEST_LIMITS['gemini']),
+    ...readStoredLimits()[provider]
+});
+
+// One scheduler per provider, shared by every service instance, so recreating a service keeps the budget
+const schedulers = new Map<string, RequestScheduler>();
+
+export const getRequestScheduler = (provider: string): RequestScheduler => {
+    let scheduler = schedulers.get(provider);
+    if (!scheduler) {
+        scheduler = new RequestScheduler(getRequestLimits(provider));
+        schedulers.set(provider, scheduler);
+    }
+    return scheduler;
+};
+
+/** Stores a provider's limits and applies them to its scheduler immediately */
+export const saveRequestLimits = (provider: string, limits: RequestLimits) => {
+    localStorage.setItem(REQUEST_LIMITS_KEY, JSON.stringify({ ...readStoredLimits(), [provider]: limits }));
+    schedulers.get(provider)?.setLimits(limits);
+};
@@ -0,0 +1,67 @@
+import { UsageOperation } from "../types";
+
+// Oldest entries are dropped beyond this
+const MAX_DIAGNOSTICS = 200;
+// Length of the response excerpt kept with an entry
+const EXCERPT_LENGTH = 300;
+
+/**
+ * corrected: the item was kept after fixing it, e.g. a coerced category
+ * rejected: the item or whole response was dropped
+ * repaired: malformed JSON was fixed by a repair request
+ * unparseable: the repair request did not produce valid JSON either
+ */
+export type DiagnosticKind = 'corrected' | 'rejected' | 'repaired' | 'unparseable';
+
+export interface ResponseDiagnostic {
+    id: number;
+    time: number;
+    provider: string;
+    operation: UsageOperation;
+    kind: DiagnosticKind;
+    message: string;
+    // The offending item or response text, shortened
+    excerpt?: string;
+}
+
+/** Which response a validation problem came from */
+export interface DiagnosticSource {
+    provider: string;
+    operation: UsageOperation;
+}
+
+// Kept for the session only; they are for spotting a misbehaving model, not an audit trail
+let diagnostics: ResponseDiagnostic[] = [];
+let nextId = 1;
+const listeners = new Set<() => void>();
+
+const toExcerpt = (value: unknown): string | undefined => {
+    if (value === undefined) return undefined;
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    if (!text) return undefined;
+    return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+};
+
+export const reportDiagnostic = (source: DiagnosticSource, kind: DiagnosticKind, message: string, value?: unknown) => {
+    diagnostics = [
+        { id: nextId++, time: Date.now(), ...source, kind, message, excerpt: toExcerpt(value) },
+        ...diagnostics
+    ].slice(0, MAX_DIAGNOSTICS);
+    listeners.forEach(listener => listener());
+};
+
+/** Newest first */
+export const getDiagnostics = (): ResponseDiagnostic[] => diagnostics;
+
+export const clearDiagnostics = () => {
+    diagnostics = [];
+    listeners.forEach(listener => listener());
+};
+
+/** Calls `listener` whenever the list changes; returns the unsubscribe function */
+export const subscribeToDiagnostics = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
@@ -0,0 +1,258 @@
+import { DeepDiveData, FigureCategory, HistoricalFigure, RelationshipExplanation } from "../types";
+import { CATEGORY_LIST } from "../constants";
+import { parseYear } from "../utils/formatters";
+import { withValidSources } from "../utils/citations";
+import { DiagnosticSource, reportDiagnostic } from "./responseDiagnostics";
+
+// Nobody on the timeline lived longer; a longer span means the years are wrong
+const MAX_LIFESPAN_YEARS = 120;
+// Events asked for must span at least this many years; shorter ones clutter the timeline
+const MIN_EVENT_YEARS = 3;
+// Longest response text sent back in a repair request
+const MAX_REPAIR_INPUT_LENGTH = 20000;
+
+// Person categories the timeline draws; EVENTS is reserved for events
+const PERSON_CATEGORIES = CATEGORY_LIST.filter(c => c !== 'EVENTS');
+
+// What models tend to answer instead of the exact category names, after upper-casing
+const CATEGORY_ALIASES: Record<string, FigureCategory> = {
+    'ART': 'ARTISTS', 'ARTIST': 'ARTISTS', 'PAINTER': 'ARTISTS', 'SCULPTOR': 'ARTISTS', 'ARCHITECT': 'ARTISTS', 'COMPOSER': 'ARTISTS', 'MUSICIAN': 'ARTISTS',
+    'BUSINESSMAN': 'BUSINESS', 'ENTREPRENEUR': 'BUSINESS', 'MERCHANT': 'BUSINESS', 'INDUSTRIALIST': 'BUSINESS', 'INVENTOR': 'SCIENTISTS',
+    'ENTERTAINER': 'ENTERTAINERS', 'ENTERTAINMENT': 'ENTERTAINERS', 'ACTOR': 'ENTERTAINERS', 'ACTRESS': 'ENTERTAINERS', 'PERFORMER': 'ENTERTAINERS', 'ATHLETE': 'ENTERTAINERS',
+    'EXPLORER': 'EXPLORERS', 'NAVIGATOR': 'EXPLORERS', 'ADVENTURER': 'EXPLORERS',
+    'LEADERS': 'LEADERS & BADDIES', 'LEADER': 'LEADERS & BADDIES', 'LEADERS AND BADDIES': 'LEADERS & BADDIES', 'BADDIES': 'LEADERS & BADDIES',
+    'POLITICIAN': 'LEADERS & BADDIES', 'POLITICIANS': 'LEADERS & BADDIES', 'POLITICS': 'LEADERS & BADDIES', 'RULER': 'LEADERS & BADDIES', 'RULERS': 'LEADERS & BADDIES',
+    'KING': 'LEADERS & BADDIES', 'QUEEN': 'LEADERS & BADDIES', 'EMPEROR': 'LEADERS & BADDIES', 'MILITARY': 'LEADERS & BADDIES', 'GENERAL': 'LEADERS & BADDIES',
+    'SCIENTIST': 'SCIENTISTS', 'SCIENCE': 'SCIENTISTS', 'MATHEMATICIAN': 'SCIENTISTS', 'PHYSICIAN': 'SCIENTISTS', 'ENGINEER': 'SCIENTISTS',
+    'THINKER': 'THINKERS', 'PHILOSOPHER': 'THINKERS', 'PHILOSOPHERS': 'THINKERS', 'PHILOSOPHY': 'THINKERS', 'RELIGIOUS': 'THINKERS', 'THEOLOGIAN': 'THINKERS',
+    'WRITER': 'WRITERS', 'AUTHOR': 'WRITERS', 'AUTHORS': 'WRITERS', 'POET': 'WRITERS', 'POETS': 'WRITERS', 'LITERATURE': 'WRITERS', 'PLAYWRIGHT': 'WRITERS'
+};
+// Used when neither the category nor the occupation names one
+const FALLBACK_CATEGORY: FigureCategory = 'THINKERS';
+
+export type FigureKind = 'person' | 'event';
+
+/**
+ * A person or event from an AI response after validation. Events use the
+ * same fields as people: start year as birthYear, type as occupation.
+ */
+export interface FigureRecord {
+    name: string;
+    birthYear: number;
+    deathYear: number;
+    occupation: string;
+    description: string;
+    category: FigureCategory;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readText = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// Whole years from numbers, numeric strings and "480 BC"-style text; "c." prefixes are ignored
+const readYear = (value: unknown): number | null => {
+    if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value) : null;
+    if (typeof value !== 'string') return null;
+    return parseYear(value.replace(/^\s*(c\.|ca\.|circa)\s*/i, ''));
+};
+
+const coerceCategory = (value: unknown, occupation: string): FigureCategory | null => {
+    const normalized = readText(value).toUpperCase().replace(/\s+/g, ' ');
+    const exact = PERSON_CATEGORIES.find(c => c === normalized);
+    if (exact) return exact;
+    if (CATEGORY_ALIASES[normalized]) return CATEGORY_ALIASES[normalized];
+
+    // "Roman Emperor", "Natural philosopher": the occupation usually gives it away
+    const words = occupation.toUpperCase().split(/[^A-Z]+/).reverse();
+    const fromOccupation = words.map(word => CATEGORY_ALIASES[word]).find(Boolean);
+    return fromOccupation || null;
+};
+
+/** The years a request asked for; readings inside them are preferred when fixing a range */
+export interface YearWindow {
+    start: number;
+    end: number;
+}
+
+/**
+ * Keeps a valid range as it is; otherwise tries reading it with dropped BC
+ * signs restored, or swapped. The first reading overlapping the requested
+ * years wins, else the first valid one. Null when none is valid.
+ */
+const fixYearRange = (birth: number, death: number, kind: FigureKind, window?: YearWindow): [number, number] | null => {
+    const isValid = (start: number, end: number) =>
+        start <= end && (kind === 'event' || end - start <= MAX_LIFESPAN_YEARS);
+    if (isValid(birth, death)) return [birth, death];
+
+    const readings: [number, number][] = [];
+    // 470 – 399 for a BC life that should be -470 – -399
+    if (birth > 0 && death > 0) readings.push([-birth, -death]);
+    // -470 – 399 with the sign only on the birth year
+    if (birth < 0 && death > 0) readings.push([birth, -death]);
+    readings.push([death, birth]);
+
+    const valid = readings.filter(([start, end]) => isValid(start, end));
+    const inWindow = window && valid.find(([start, end]) => end >= window.start && start <= window.end);
+    return inWindow || valid[0] || null;
+};
+
+// Models sometimes wrap the array in an object, e.g. {"figures": [...]}
+const unwrapArray = (value: unknown): unknown[] | null => {
+    if (Array.isArray(value)) return value;
+    if (isObject(value)) {
+        const arrays = Object.values(value).filter(Array.isArray);
+        if (arrays.length === 1) return arrays[0];
+    }
+    return null;
+};
+
+/**
+ * Checks the people or events of a response. Categories are coerced to the
+ * known ones and broken year ranges fixed where the intent is clear; items
+ * without a name or usable years, and events shorter than the prompts allow,
+ * are dropped. Every fix and drop is reported
+ * to the diagnostics panel.
+ */
+export const validateFigureRecords = (
+    value: unknown,
+    kind: FigureKind,
+    source: DiagnosticSource,
+    window?: YearWindow
+): FigureRecord[] => {
+    const items = unwrapArray(value);
+    if (!items) {
+        if (value !== undefined && value !== null) {
+            reportDiagnostic(source, 'rejected', `Expected a list of ${kind === 'person' ? 'people' : 'events'}`, value);
+        }
+        return [];
+    }
+
+    const records: FigureRecord[] = [];
+    items.forEach(item => {
+        if (!isObject(item)) {
+            reportDiagnostic(source, 'rejected', 'Item is not an object', item);
+            return;
+        }
+
+        const name = readText(item.name);
+        if (!name) {
+            reportDiagnostic(source, 'rejected', 'Missing name', item);
+            return;
+        }
+
+        const birth = readYear(kind === 'person' ? item.birthYear : item.startYear);
+        const death = readYear(kind === 'person' ? item.deathYear : item.endYear);
+        if (birth === null || death === null) {
+            reportDiagnostic(source, 'rejected', `${name}: missing or unreadable years`, item);
+            return;
+        }
+
+        const range = fixYearRange(birth, death, kind, window);
+        if (!range) {
+            reportDiagnostic(source, 'rejected', `${name}: invalid years ${birth} – ${death}`, item);
+            return;
+        }
+        if (range[0] !== birth || range[1] !== death) {
+            reportDiagnostic(source, 'corrected', `${name}: years ${birth} – ${death} read as ${range[0]} – ${range[1]}`, item);
+        }
+        if (kind === 'event' && range[1] - range[0] < MIN_EVENT_YEARS) {
+            reportDiagnostic(source, 'rejected', `${name}: spans less than ${MIN_EVENT_YEARS} years`, item);
+            return;
+        }
+
+        const occupation = readText(kind === 'person' ? item.occupation : item.type);
+        let category: FigureCategory = 'EVENTS';
+        if (kind === 'person') {
+            const coerced = coerceCategory(item.category, occupation);
+            category = coerced || FALLBACK_CATEGORY;
+            if (category !== item.category) {
+                reportDiagnostic(source, 'corrected', `${name}: category "${readText(item.category) || 'none'}" set to ${category}`, item);
+            }
+        }
+
+        records.push({
+            name,
+            birthYear: range[0],
+            deathYear: range[1],
+            occupation,
+            description: readText(item.description),
+            category
+        });
+    });
+    return records;
+};
+
+export const recordToFigure = (record: FigureRecord, id: string): HistoricalFigure => ({
+    id,
+    name: record.name,
+    birthYear: record.birthYear,
+    deathYear: record.deathYear,
+    occupation: record.occupation,
+    category: record.category,
+    shortDescription: record.description
+});
+
+/** The ids of a related-figures response that belong to known figures */
+export const validateRelatedIds = (value: unknown, knownIds: string[], source: DiagnosticSource): string[] => {
+    const ids = isObject(value) ? value.relatedIds : undefined;
+    if (!Array.isArray(ids)) {
+        reportDiagnostic(source, 'rejected', 'Expected "relatedIds" to be a list', value);
+        return [];
+    }
+
+    const known = new Set(knownIds);
+    const unknown = ids.filter(id => typeof id !== 'string' || !known.has(id));
+    if (unknown.length > 0) {
+        reportDiagnostic(source, 'rejected', `${unknown.length} related ${unknown.length === 1 ? 'id is' : 'ids are'} not on the timeline`, unknown);
+    }
+    return Array.from(new Set(ids.filter((id): id is string => typeof id === 'string' && known.has(id))));
+};
+
+const readSections = (value: unknown, source: DiagnosticSource): { title: string; content: string }[] => {
+    if (!Array.isArray(value)) return [];
+    const sections = value
+        .filter(isObject)
+        .map(section => ({ title: readText(section.title), content: readText(section.content) }))
+        .filter(section => section.content);
+    if (sections.length < value.length) {
+        reportDiagnostic(source, 'rejected', `${value.length - sections.length} empty or malformed sections dropped`, value);
+    }
+    return sections;
+};
+
+/** A relationship explanation with a summary, non-empty sections and validated sources, or null */
+export const validateRelationshipExplanation = (value: unknown, source: DiagnosticSource): RelationshipExplanation | null => {
+    if (!isObject(value) || !readText(value.summary)) {
+        reportDiagnostic(source, 'rejected', 'Explanation has no summary', value);
+        return null;
+    }
+    return withValidSources({
+        summary: readText(value.summary),
+        sections: readSections(value.sections, source),
+        sources: value.sources
+    });
+};
+
+/** A deep dive with a summary, non-empty sections and validated sources, or null */
+export const validateDeepDive = (value: unknown, source: DiagnosticSource): DeepDiveData | null => {
+    if (!isObject(value) || !readText(value.summary)) {
+        reportDiagnostic(source, 'rejected', 'Deep dive has no summary', value);
+        return null;
+    }
+    return withValidSources({
+        summary: readText(value.summary),
+        famousQuote: readText(value.famousQuote),
+        sections: readSections(value.sections, source),
+        sources: value.sources
+    });
+};
+
+/** Prompt asking the model to turn its own malformed output into valid JSON */
+export const buildRepairPrompt = (text: string, error: string): string => `
+    The following text was meant to be valid JSON but could not be parsed (${error}).
+    Return ONLY the corrected JSON with the same structure and content. Close anything left open
+    if the text was cut off. Do not add commentary or markdown.
+
+    ${text.length > MAX_REPAIR_INPUT_LENGTH ? text.slice(0, MAX_REPAIR_INPUT_LENGTH) : text}
+`;
@@ -0,0 +1,376 @@
+import { FactCheck, FactCheckStatus, FigureCategory, HistoricalFigure } from "../types";
+import { CATEGORY_LIST } from "../constants";
+import {
+    TimelineProjectData,
+    readProjectCaches,
+    writeProjectCacheEntry,
+    getDeepDiveCacheKey,
+    getRelationshipCacheKey
+} from "./projectStorage";
+
+export const TIMELINE_DOCUMENT_FORMAT = 'chronoweave-timeline';
+export const TIMELINE_DOCUMENT_VERSION = 1;
+
+const FACT_CHECK_STATUSES: FactCheckStatus[] = ['verified', 'corrected', 'mismatch', 'unverified'];
+
+// Stop listing validation problems after this many; a broken file usually fails the same way throughout
+const MAX_REPORTED_ERRORS = 8;
+
+export interface CachedRelationshipEntry {
+    sourceId: string;
+    targetId: string;
+    data: unknown;
+}
+
+/**
+ * Portable snapshot of a timeline. Cached AI payloads travel with it so an
+ * imported timeline can be explored without re-querying the provider.
+ */
+export interface TimelineDocument {
+    format: typeof TIMELINE_DOCUMENT_FORMAT;
+    version: number;
+    exportedAt: string;
+    name: string;
+    config: { start: number; end: number };
+    figures: HistoricalFigure[];
+    knownRelationships: Record<string, string[]>;
+    discoveredFigureIds: string[];
+    selectedCategories: FigureCategory[];
+    // Cached deep dives by figure id
+    deepDives: Record<string, unknown>;
+    relationshipExplanations: CachedRelationshipEntry[];
+}
+
+export type TimelineDocumentParseResult =
+    | { success: true; document: TimelineDocument }
+    | { success: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Splits a "sourceId_targetId" cache suffix back into its ids. Figure ids may
+ * themselves contain underscores, so the split is resolved against known ids.
+ */
+const splitRelationshipKey = (pairKey: string, figureIds: Set<string>): [string, string] | null => {
+    for (const sourceId of figureIds) {
+        if (pairKey.startsWith(`${sourceId}_`)) {
+            const targetId = pairKey.slice(sourceId.length + 1);
+            if (figureIds.has(targetId)) return [sourceId, targetId];
+        }
+    }
+    return null;
+};
+
+export const createTimelineDocument = async (
+    projectId: string,
+    name: string,
+    data: TimelineProjectData,
+    selectedCategories: FigureCategory[]
+): Promise<TimelineDocument> => {
+    const figureIds = new Set(data.figures.map(f => f.id));
+    const caches = await readProjectCaches(projectId);
+
+    // Only export payloads for figures still on the timeline
+    const deepDives: Record<string, unknown> = {};
+    Object.entries(caches.deepDives).forEach(([figureId, payload]) => {
+        if (figureIds.has(figureId)) deepDives[figureId] = payload;
+    });
+
+    const relationshipExplanations: CachedRelationshipEntry[] = [];
+    Object.entries(caches.relationships).forEach(([pairKey, payload]) => {
+        const pair = splitRelationshipKey(pairKey, figureIds);
+        if (pair) relationshipExplanations.push({ sourceId: pair[0], targetId: pair[1], data: payload });
+    });
+
+    return {
+        format: TIMELINE_DOCUMENT_FORMAT,
+        version: TIMELINE_DOCUMENT_VERSION,
+        exportedAt: new Date().toISOString(),
+        name,
+        config: data.config,
+        // Strip transient UI flags
+        figures: data.figures.map(({ isDetailsLoading, ...figure }) => figure),
+        knownRelationships: data.knownRelationships,
+        discoveredFigureIds: data.discoveredFigureIds,
+        selectedCategories,
+        deepDives,
+        relationshipExplanations
+    };
+};
+
+/**
+ * Upgrades older documents to the current version.
+ * Version 0 covers unversioned files: either the raw `chrono_timeline_data`
+ * figure array or a `{ config, figures }` object saved before projects existed.
+ */
+const migrateTimelineDocument = (raw: unknown): Record<string, any> | null => {
+    let doc: Record<string, any>;
+
+    if (Array.isArray(raw)) {
+        doc = { version: 0, figures: raw };
+    } else if (isRecord(raw)) {
+        doc = { ...raw };
+    } else {
+        return null;
+    }
+
+    if (doc.version === undefined) doc.version = 0;
+
+    if (doc.version === 0) {
+        const figures = Array.isArray(doc.figures) ? doc.figures : [];
+        const years = figures
+            .filter(isRecord)
+            .flatMap(f => [f.birthYear, f.deathYear])
+            .filter(isFiniteNumber);
+
+        doc = {
+            format: TIMELINE_DOCUMENT_FORMAT,
+            version: 1,
+            exportedAt: new Date().toISOString(),
+            name: typeof doc.name === 'string' ? doc.name : 'Imported Timeline',
+            config: isRecord(doc.config) ? doc.config : {
+                start: years.length > 0 ? Math.min(...years) : 600,
+                end: years.length > 0 ? Math.max(...years) : 1600
+            },
+            figures,
+            knownRelationships: {},
+            discoveredFigureIds: [],
+            selectedCategories: [],
+            deepDives: {},
+            relationshipExplanations: []
+        };
+    }
+
+    return doc;
+};
+
+// A malformed fact check is dropped rather than failing the figure; it only drives a badge
+const validateFactCheck = (value: unknown): FactCheck | undefined => {
+    if (!isRecord(value) || !FACT_CHECK_STATUSES.includes(value.status) || typeof value.checkedAt !== 'string') return undefined;
+    const optionalYear = (year: unknown) => isFiniteNumber(year) ? year : undefined;
+    return {
+        status: value.status,
+        wikidataId: typeof value.wikidataId === 'string' ? value.wikidataId : undefined,
+        wikidataBirthYear: optionalYear(value.wikidataBirthYear),
+        wikidataDeathYear: optionalYear(value.wikidataDeathYear),
+        originalBirthYear: optionalYear(value.originalBirthYear),
+        originalDeathYear: optionalYear(value.originalDeathYear),
+        checkedAt: value.checkedAt
+    };
+};
+
+const validateFigure = (value: unknown, index: number, errors: string[]): HistoricalFigure | null => {
+    const label = `Figure #${index + 1}`;
+    if (!isRecord(value)) {
+        errors.push(`${label} is not an object.`);
+        return null;
+    }
+
+    const problems: string[] = [];
+    if (typeof value.id !== 'string' || !value.id) problems.push('missing id');
+    if (typeof value.name !== 'string' || !value.name) problems.push('missing name');
+    if (!isFiniteNumber(value.birthYear)) problems.push('birthYear is not a number');
+    if (!isFiniteNumber(value.deathYear)) problems.push('deathYear is not a number');
+    if (!CATEGORY_LIST.includes(value.category)) problems.push(`unknown category "${value.category}"`);
+
+    if (problems.length > 0) {
+        const name = typeof value.name === 'string' && value.name ? ` (${value.name})` : '';
+        errors.push(`${label}${name}: ${problems.join(', ')}.`);
+        return null;
+    }
+
+    return {
+        id: value.id,
+        name: value.name,
+        birthYear: value.birthYear,
+        deathYear: value.deathYear,
+        occupation: typeof value.occupation === 'string' ? value.occupation : '',
+        category: value.category,
+        shortDescription: typeof value.shortDescription === 'string' ? value.shortDescription : undefined,
+        imageUrl: typeof value.imageUrl === 'string' ? value.imageUrl : undefined,
+        factCheck: validateFactCheck(value.factCheck)
+    };
+};
+
+/**
+ * Parses and validates an exported timeline, migrating older versions.
+ * Cached payloads and relationships that reference unknown figures are dropped
+ * rather than rejected, since they are only a cache.
+ */
+export const parseTimelineDocument = (text: string): TimelineDocumentParseResult => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        return { success: false, errors: ["File is not valid JSON."] };
+    }
+
+    const doc = migrateTimelineDocument(raw);
+    if (!doc) {
+        return { success: false, errors: ["File does not contain a timeline."] };
+    }
+    if (doc.format !== TIMELINE_DOCUMENT_FORMAT) {
+        return { success: false, errors: ["File is not a ChronoWeave timeline export."] };
+    }
+    if (!isFiniteNumber(doc.version) || doc.version > TIMELINE_DOCUMENT_VERSION) {
+        return { success: false, errors: [`Unsupported timeline version ${doc.version}. Update ChronoWeave to open this file.`] };
+    }
+
+    const errors: string[] = [];
+
+    if (!isRecord(doc.config) || !isFiniteNumber(doc.config.start) || !isFiniteNumber(doc.config.end) || doc.config.start >= doc.config.end) {
+        errors.push("Year range is missing or invalid.");
+    }
+
+    if (!Array.isArray(doc.figures) || doc.figures.length === 0) {
+        errors.push("Timeline has no figures.");
+    }
+
+    const figures: HistoricalFigure[] = [];
+    const seenIds = new Set<string>();
+    (Array.isArray(doc.figures) ? doc.figures : []).forEach((value: unknown, index: number) => {
+        const figure = validateFigure(value, index, errors);
+        if (!figure) return;
+        if (seenIds.has(figure.id)) {
+            errors.push(`Figure #${index + 1} (${figure.name}): duplicate id "${figure.id}".`);
+            return;
+        }
+        seenIds.add(figure.id);
+        figures.push(figure);
+    });
+
+    if (errors.length > 0) {
+        const reported = errors.slice(0, MAX_REPORTED_ERRORS);
+        if (errors.length > MAX_REPORTED_ERRORS) {
+            reported.push(`...and ${errors.length - MAX_REPORTED_ERRORS} more problems.`);
+        }
+        return { success: false, errors: reported };
+    }
+
+    const knownRelationships: Record<string, string[]> = {};
+    if (isRecord(doc.knownRelationships)) {
+        Object.entries(doc.knownRelationships).forEach(([sourceId, ids]) => {
+            if (!seenIds.has(sourceId) || !Array.isArray(ids)) return;
+            knownRelationships[sourceId] = ids.filter((id: unknown): id is string => typeof id === 'string' && seenIds.has(id));
+        });
+    }
+
+    const deepDives: Record<string, unknown> = {};
+    if (isRecord(doc.deepDives)) {
+        Object.entries(doc.deepDives).forEach(([figureId, payload]) => {
+            if (seenIds.has(figureId) && isRecord(payload) && typeof payload.summary === 'string' && Array.isArray(payload.sections)) {
+                deepDives[figureId] = payload;
+            }
+        });
+    }
+
+    const relationshipExplanations: CachedRelationshipEntry[] = (Array.isArray(doc.relationshipExplanations) ? doc.relationshipExplanations : [])
+        .filter((entry: unknown): entry is CachedRelationshipEntry =>
+            isRecord(entry) &&
+            seenIds.has(entry.sourceId) &&
+            seenIds.has(entry.targetId) &&
+            isRecord(entry.data) &&
+            'explanation' in entry.data
+        );
+
+    return {
+        success: true,
+        document: {
+            format: TIMELINE_DOCUMENT_FORMAT,
+            version: TIMELINE_DOCUMENT_VERSION,
+            exportedAt: typeof doc.exportedAt === 'string' ? doc.exportedAt : new Date().toISOString(),
+            name: typeof doc.name === 'string' && doc.name.trim() ? doc.name : 'Imported Timeline',
+            config: { start: doc.config.start, end: doc.config.end },
+            figures,
+            knownRelationships,
+            discoveredFigureIds: Array.isArray(doc.discoveredFigureIds)
+                ? doc.discoveredFigureIds.filter((id: unknown): id is string => typeof id === 'string' && seenIds.has(id))
+                : [],
+            selectedCategories: Array.isArray(doc.selectedCategories)
+                ? doc.selectedCategories.filter((c: unknown): c is FigureCategory => CATEGORY_LIST.includes(c as FigureCategory))
+                : [],
+            deepDives,
+            relationshipExplanations
+        }
+    };
+};
+
+/**
+ * Merges an imported document into existing timeline data. Figures matching an
+ * existing id or name (case-insensitive, as in discovery) are kept once; the
+ * returned idMap translates imported ids to the ids used in the merged timeline.
+ */
+export const mergeTimelineDocument = (
+    current: TimelineProjectData,
+    doc: TimelineDocument
+): { data: TimelineProjectData; idMap: Map<string, string>; addedCount: number } => {
+    const idMap = new Map<string, string>();
+    const byId = new Map(current.figures.map(f => [f.id, f]));
+    const byName = new Map(current.figures.map(f => [f.name.toLowerCase(), f]));
+    const added: HistoricalFigure[] = [];
+
+    doc.figures.forEach(figure => {
+        const existing = byId.get(figure.id) || byName.get(figure.name.toLowerCase());
+        if (existing) {
+            idMap.set(figure.id, existing.id);
+            return;
+        }
+        idMap.set(figure.id, figure.id);
+        byName.set(figure.name.toLowerCase(), figure);
+        added.push(figure);
+    });
+
+    const knownRelationships: Record<string, string[]> = {};
+    Object.entries(current.knownRelationships).forEach(([sourceId, ids]) => {
+        knownRelationships[sourceId] = [...ids];
+    });
+    Object.entries(doc.knownRelationships).forEach(([sourceId, ids]) => {
+        const mappedSource = idMap.get(sourceId) || sourceId;
+        const merged = new Set(knownRelationships[mappedSource] || []);
+        ids.forEach(id => merged.add(idMap.get(id) || id));
+        knownRelationships[mappedSource] = Array.from(merged);
+    });
+
+    const discoveredFigureIds = new Set(current.discoveredFigureIds);
+    doc.discoveredFigureIds.forEach(id => discoveredFigureIds.add(idMap.get(id) || id));
+
+    return {
+        data: {
+            config: {
+                start: Math.min(current.config.start, doc.config.start),
+                end: Math.max(current.config.end, doc.config.end)
+            },
+            figures: [...current.figures, ...added],
+            knownRelationships,
+            discoveredFigureIds: Array.from(discoveredFigureIds)
+        },
+        idMap,
+        addedCount: added.length
+    };
+};
+
+/**
+ * Writes a document's cached deep dives and relationship explanations into a
+ * project. Existing cache entries are kept unless `overwrite` is set.
+ */
+export const importTimelineDocumentCaches = async (
+    projectId: string,
+    doc: TimelineDocument,
+    idMap: Map<string, string> = new Map(),
+    overwrite = false
+) => {
+    await Promise.all([
+        ...Object.entries(doc.deepDives).map(([figureId, payload]) =>
+            writeProjectCacheEntry('deepDives', getDeepDiveCacheKey(projectId, idMap.get(figureId) || figureId), payload, overwrite)
+        ),
+        ...doc.relationshipExplanations.map(entry => {
+            const sourceId = idMap.get(entry.sourceId) || entry.sourceId;
+            const targetId = idMap.get(entry.targetId) || entry.targetId;
+            return writeProjectCacheEntry('relationships', getRelationshipCacheKey(projectId, sourceId, targetId), entry.data, overwrite);
+        })
+    ]);
+};
@@ -0,0 +1,71 @@
+import { FigureCategory, HistoricalFigure } from "../types";
+
+export const MAX_HISTORY_ENTRIES = 50;
+
+/** Everything an undo step restores. Cached deep dives and explanations are not included. */
+export interface TimelineSnapshot {
+    config: { start: number; end: number };
+    figures: HistoricalFigure[];
+    knownRelationships: Map<string, Set<string>>;
+    discoveredFigureIds: Set<string>;
+    selectedCategories: Set<FigureCategory>;
+}
+
+export interface TimelineHistoryEntry {
+    id: number;
+    label: string;
+    timestamp: number;
+    // In `past`: the state before the operation. In `future`: the state after it.
+    snapshot: TimelineSnapshot;
+}
+
+export interface TimelineHistory {
+    past: TimelineHistoryEntry[];
+    future: TimelineHistoryEntry[];
+}
+
+let nextEntryId = 1;
+
+export const createTimelineHistory = (): TimelineHistory => ({ past: [], future: [] });
+
+/** Records an operation about to be applied to `before`. Clears the redo stack. */
+export const recordHistoryEntry = (history: TimelineHistory, label: string, before: TimelineSnapshot): TimelineHistory => ({
+    past: [...history.past, { id: nextEntryId++, label, timestamp: Date.now(), snapshot: before }].slice(-MAX_HISTORY_ENTRIES),
+    future: []
+});
+
+/**
+ * Moves through history. Positive `steps` undo that many operations, negative
+ * steps redo them. Returns the snapshot to restore, or null if there is nothing
+ * to move to.
+ */
+export const travelHistory = (
+    history: TimelineHistory,
+    current: TimelineSnapshot,
+    steps: number
+): { history: TimelineHistory; snapshot: TimelineSnapshot } | null => {
+    let past = history.past;
+    let future = history.future;
+    let snapshot = current;
+    let moved = 0;
+
+    while (moved < Math.abs(steps)) {
+        if (steps > 0) {
+            const entry = past[past.length - 1];
+            if (!entry) break;
+            past = past.slice(0, -1);
+            future = [...future, { ...entry, snapshot }];
+            snapshot = entry.snapshot;
+        } else {
+            const entry = future[future.length - 1];
+            if (!entry) break;
+            future = future.slice(0, -1);
+            past = [...past, { ...entry, snapshot }];
+            snapshot = entry.snapshot;
+        }
+        moved++;
+    }
+
+    if (moved === 0) return null;
+    return { history: { past, future }, snapshot };
+};
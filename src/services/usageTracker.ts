@@ -0,0 +1,163 @@
+import { ModelPrice, SpendingCaps, TokenUsage, UsageOperation } from "../types";
+import { DEFAULT_MODEL_PRICES } from "../constants";
+import { formatCost } from "../utils/formatters";
+
+const USAGE_KEY = 'chrono_usage';
+const MODEL_PRICES_KEY = 'chrono_model_prices';
+const SPENDING_CAPS_KEY = 'chrono_spending_caps';
+// Days of daily totals kept
+const USAGE_RETENTION_DAYS = 30;
+
+/** Tokens used by one provider, model and operation over a period */
+export interface UsageEntry extends TokenUsage {
+    provider: string;
+    model: string;
+    operation: UsageOperation;
+    requests: number;
+}
+
+// Entries by `${provider}|${model}|${operation}`
+type UsageLedger = Record<string, UsageEntry>;
+
+export type UsageEvent =
+    | { type: 'recorded' }
+    // A call was refused because a spending cap was reached
+    | { type: 'blocked'; message: string };
+
+// Reset on reload, so a session is one page load
+const sessionLedger: UsageLedger = {};
+const listeners = new Set<(event: UsageEvent) => void>();
+
+const notify = (event: UsageEvent) => listeners.forEach(listener => listener(event));
+
+const readJson = <T>(key: string, fallback: T): T => {
+    try {
+        return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+    } catch {
+        return fallback;
+    }
+};
+
+// Local calendar day, "2024-03-09", so "today" matches the user's clock and sorts as text
+const dayKey = (date = new Date()) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const readDailyLedgers = (): Record<string, UsageLedger> => readJson(USAGE_KEY, {});
+
+const addToLedger = (ledger: UsageLedger, provider: string, model: string, operation: UsageOperation, usage: TokenUsage) => {
+    const key = `${provider}|${model}|${operation}`;
+    const entry = ledger[key] || { provider, model, operation, requests: 0, inputTokens: 0, outputTokens: 0 };
+    ledger[key] = {
+        ...entry,
+        requests: entry.requests + 1,
+        inputTokens: entry.inputTokens + usage.inputTokens,
+        outputTokens: entry.outputTokens + usage.outputTokens
+    };
+};
+
+/** Adds the tokens of one completed call to the session and today's totals */
+export const recordUsage = (provider: string, model: string, operation: UsageOperation, usage: TokenUsage) => {
+    addToLedger(sessionLedger, provider, model, operation, usage);
+
+    const daily = readDailyLedgers();
+    const today = dayKey();
+    daily[today] = daily[today] || {};
+    addToLedger(daily[today], provider, model, operation, usage);
+
+    const cutoff = new Date();
+    cutoff.setDate(cutoff.getDate() - USAGE_RETENTION_DAYS);
+    const oldestKept = dayKey(cutoff);
+    Object.keys(daily).filter(day => day < oldestKept).forEach(day => delete daily[day]);
+
+    try {
+        localStorage.setItem(USAGE_KEY, JSON.stringify(daily));
+    } catch (error) {
+        console.error("Failed to save token usage", error);
+    }
+    notify({ type: 'recorded' });
+};
+
+export const getSessionUsage = (): UsageEntry[] => Object.values(sessionLedger);
+
+export const getTodayUsage = (): UsageEntry[] => Object.values(readDailyLedgers()[dayKey()] || {});
+
+/** Every kept day, newest first */
+export const getDailyUsage = (): { day: string; entries: UsageEntry[] }[] =>
+    Object.entries(readDailyLedgers())
+        .sort(([a], [b]) => b.localeCompare(a))
+        .map(([day, ledger]) => ({ day, entries: Object.values(ledger) }));
+
+export const resetUsage = () => {
+    Object.keys(sessionLedger).forEach(key => delete sessionLedger[key]);
+    localStorage.removeItem(USAGE_KEY);
+    notify({ type: 'recorded' });
+};
+
+/** The default price table with the user's edits on top */
+export const getModelPrices = (): Record<string, ModelPrice> => ({
+    ...DEFAULT_MODEL_PRICES,
+    ...readJson<Record<string, ModelPrice>>(MODEL_PRICES_KEY, {})
+});
+
+export const saveModelPrice = (model: string, price: ModelPrice) => {
+    const stored = readJson<Record<string, ModelPrice>>(MODEL_PRICES_KEY, {});
+    localStorage.setItem(MODEL_PRICES_KEY, JSON.stringify({ ...stored, [model]: price }));
+    notify({ type: 'recorded' });
+};
+
+export const findModelPrice = (model: string, prices = getModelPrices()): ModelPrice | null =>
+    prices[model] || prices[model.split('/').pop() || model] || null;
+
+/** Estimated cost in USD, or null for a model without a price */
+export const estimateEntryCost = (entry: TokenUsage & { model: string }, prices = getModelPrices()): number | null => {
+    const price = findModelPrice(entry.model, prices);
+    if (!price) return null;
+    return (entry.inputTokens * price.input + entry.outputTokens * price.output) / 1_000_000;
+};
+
+/** Summed cost of the entries; models without a price count as free */
+export const estimateCost = (entries: UsageEntry[], prices = getModelPrices()): number =>
+    entries.reduce((sum, entry) => sum + (estimateEntryCost(entry, prices) ?? 0), 0);
+
+export const getSpendingCaps = (): SpendingCaps => ({
+    daily: null,
+    session: null,
+    ...readJson<Partial<SpendingCaps>>(SPENDING_CAPS_KEY, {})
+});
+
+export const saveSpendingCaps = (caps: SpendingCaps) => {
+    localStorage.setItem(SPENDING_CAPS_KEY, JSON.stringify(caps));
+    notify({ type: 'recorded' });
+};
+
+/** Which cap the estimated spend has reached, or null while it is under all of them */
+export const getReachedSpendingCap = (): string | null => {
+    const caps = getSpendingCaps();
+    const prices = getModelPrices();
+    if (caps.daily !== null && estimateCost(getTodayUsage(), prices) >= caps.daily) {
+        return `Daily spending cap of ${formatCost(caps.daily)} reached`;
+    }
+    if (caps.session !== null && estimateCost(getSessionUsage(), prices) >= caps.session) {
+        return `Session spending cap of ${formatCost(caps.session)} reached`;
+    }
+    return null;
+};
+
+/**
+ * Called by the services right before a request goes out. Throws once a cap
+ * is reached, so nothing more is spent; calls already under way still finish.
+ */
+export const assertWithinSpendingCaps = () => {
+    const reached = getReachedSpendingCap();
+    if (!reached) return;
+    notify({ type: 'blocked', message: reached });
+    throw new Error(`${reached}. Raise or remove the cap in Settings to continue.`);
+};
+
+/** Calls `listener` on every recorded or blocked call; returns the unsubscribe function */
+export const subscribeToUsage = (listener: (event: UsageEvent) => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
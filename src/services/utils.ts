@@ -1,32 +1,35 @@
 
-// Helper for waiting
-export const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-// Global queue to ensure we don't fire parallel requests that trigger 429 errors
-let requestQueue: Promise<any> = Promise.resolve();
-
-/**
- * Adds a task to the global execution queue. 
- * Ensures that API calls are serialized and have a buffer delay between them.
- */
-export function enqueueTask<T>(task: () => Promise<T>): Promise<T> {
-  // We chain the new task to the end of the current queue
-  const result = requestQueue.then(async () => {
-    // Add a 1-second buffer between requests to respect RPM limits
-    await wait(1000);
-    return task();
-  });
-
-  // Update the queue pointer. We catch errors so a failed request doesn't block the queue forever.
-  requestQueue = result.catch(() => {});
-
-  return result;
-}
-
-export async function runWithRetry<T>(fn: () => Promise<T>, retries = 5, backoff = 3000): Promise<T> {
+/** Error thrown when a request is cancelled through its AbortSignal */
+export const createAbortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+// fetch and createAbortError throw DOMExceptions; some SDKs throw plain Errors named AbortError
+export const isAbortError = (error: unknown): boolean =>
+  (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+
+// Helper for waiting. Rejects with an AbortError if the signal fires first.
+export const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export async function runWithRetry<T>(fn: () => Promise<T>, retries = 5, backoff = 3000, signal?: AbortSignal): Promise<T> {
   try {
     return await fn();
   } catch (err: any) {
+    // A cancelled request is never retried
+    if (signal?.aborted || isAbortError(err)) throw err;
+
     // Check for rate limit errors (429) or server errors (5xx)
     // The API might throw an error object that HAS a response, or IS the response data.
     let isRateLimit = false;
@@ -49,18 +52,9 @@ export async function runWithRetry<T>(fn: () => Promise<T>, retries = 5, backoff
 
     if (retries > 0 && isRateLimit) {
       console.warn(`API rate limit hit. Retrying in ${backoff}ms... (Attempts left: ${retries})`);
-      await wait(backoff);
-      return runWithRetry(fn, retries - 1, backoff * 2);
+      await wait(backoff, signal);
+      return runWithRetry(fn, retries - 1, backoff * 2, signal);
     }
     throw err;
   }
 }
-
-/**
- * Wrapper that combines Queueing AND Retrying.
- * This is the main function to use for all API calls.
- */
-export async function enqueueTaskWithRetry<T>(apiCall: () => Promise<T>): Promise<T> {
-    return enqueueTask(() => runWithRetry(apiCall));
-}
-
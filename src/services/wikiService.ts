@@ -1,8 +1,96 @@
 
 import { HistoricalFigure } from "../types";
+import { cacheDelete, cacheGet, cachePut } from "./cacheStore";
 
-// Cache to avoid re-fetching details for the same person within the session
-const detailsCache = new Map<string, { description: string; imageUrl: string | null }>();
+// Details are cached by figure id in the "wikiDetails" store to avoid re-fetching them
+
+/** Drops the cached details for a figure, e.g. after it was edited by hand */
+export const clearFigureDetails = (figureId: string) => {
+    cacheDelete('wikiDetails', figureId);
+};
+
+// Canonical article title per input name (null when there is no article), kept for the session
+const titleCache = new Map<string, string | null>();
+
+/**
+ * Maps the API results back to the input names. The API might normalize names
+ * (e.g. "leonardo da vinci" -> "Leonardo da Vinci") or redirect them.
+ */
+export const mapInputsToTitles = (names: string[], query: any): Map<string, string> => {
+    const nameToTitle = new Map<string, string>();
+    names.forEach(name => nameToTitle.set(name, name));
+
+    // 1. Handle Normalization: Input -> Normalized
+    const normalized = query?.normalized || [];
+    normalized.forEach((n: any) => {
+        if (nameToTitle.get(n.from) === n.from) {
+            nameToTitle.set(n.from, n.to);
+        }
+    });
+
+    // 2. Handle Redirects: Normalized -> Final Title
+    const redirects = query?.redirects || [];
+    redirects.forEach((r: any) => {
+        // Find inputs pointing to this redirect source
+        for (const [input, currentTarget] of nameToTitle.entries()) {
+            if (currentTarget === r.from) {
+                nameToTitle.set(input, r.to);
+            }
+        }
+    });
+
+    return nameToTitle;
+};
+
+/**
+ * Looks up the Wikipedia article each name resolves to, following the same
+ * normalization and redirects as the image lookup. Names without an article,
+ * or that land on a disambiguation page, are left out of the result.
+ */
+export const fetchCanonicalTitles = async (names: string[]): Promise<Map<string, string>> => {
+    const uncached = Array.from(new Set(names)).filter(name => !titleCache.has(name));
+
+    const chunkSize = 50;
+    for (let i = 0; i < uncached.length; i += chunkSize) {
+        const chunk = uncached.slice(i, i + chunkSize);
+        const params = new URLSearchParams({
+            action: 'query',
+            titles: chunk.join('|'),
+            prop: 'pageprops',
+            ppprop: 'disambiguation',
+            format: 'json',
+            origin: '*',
+            redirects: '1'
+        });
+
+        try {
+            const response = await fetch(`https://en.wikipedia.org/w/api.php?${params.toString()}`);
+            const data = await response.json();
+            const pages: any[] = Object.values(data.query?.pages || {});
+            if (pages.length === 0) continue;
+
+            const nameToTitle = mapInputsToTitles(chunk, data.query);
+            const articleTitles = new Set(
+                pages.filter(page => !('missing' in page) && !('disambiguation' in (page.pageprops || {})))
+                    .map(page => page.title)
+            );
+            chunk.forEach(name => {
+                const title = nameToTitle.get(name);
+                titleCache.set(name, title && articleTitles.has(title) ? title : null);
+            });
+        } catch (error) {
+            // Not cached, so the next batch tries again
+            console.warn("Batch wiki title lookup failed", error);
+        }
+    }
+
+    const titles = new Map<string, string>();
+    names.forEach(name => {
+        const title = titleCache.get(name);
+        if (title) titles.set(name, title);
+    });
+    return titles;
+};
 
 // Helper to fetch images from Wikipedia in batch
 const fetchBatchWikipediaImages = async (names: string[]): Promise<Map<string, string>> => {
@@ -33,31 +121,7 @@ const fetchBatchWikipediaImages = async (names: string[]): Promise<Map<string, s
             
             if (!pages) continue;
 
-            // We need to map the API results back to the input names.
-            // The API might normalize names (e.g. "leonardo da vinci" -> "Leonardo da Vinci")
-            // or redirect them.
-            
-            const nameToTitle = new Map<string, string>();
-            chunk.forEach(name => nameToTitle.set(name, name));
-
-            // 1. Handle Normalization: Input -> Normalized
-            const normalized = data.query?.normalized || [];
-            normalized.forEach((n: any) => {
-                if (nameToTitle.get(n.from) === n.from) {
-                    nameToTitle.set(n.from, n.to);
-                }
-            });
-
-            // 2. Handle Redirects: Normalized -> Final Title
-            const redirects = data.query?.redirects || [];
-            redirects.forEach((r: any) => {
-                // Find inputs pointing to this redirect source
-                for (const [input, currentTarget] of nameToTitle.entries()) {
-                    if (currentTarget === r.from) {
-                        nameToTitle.set(input, r.to);
-                    }
-                }
-            });
+            const nameToTitle = mapInputsToTitles(chunk, data.query);
 
             // 3. Extract Images using Final Title
             Object.values(pages).forEach((page: any) => {
@@ -85,13 +149,15 @@ export const fetchBatchFigureDetails = async (
   const figuresNeedingImages: HistoricalFigure[] = [];
 
   // 1. Check Cache & Initial Data
-  for (const fig of figures) {
+  const cachedDetails = await Promise.all(figures.map(fig => cacheGet('wikiDetails', fig.id)));
+  figures.forEach((fig, index) => {
     const key = fig.id;
     
     // If we have a full cached entry (desc + image attempt), use it
-    if (detailsCache.has(key)) {
-      resultMap.set(key, detailsCache.get(key)!);
-      continue;
+    const cached = cachedDetails[index];
+    if (cached) {
+      resultMap.set(key, cached);
+      return;
     }
 
     // Initialize with existing data from the figure object
@@ -104,7 +170,7 @@ export const fetchBatchFigureDetails = async (
     
     // Mark for image fetching
     figuresNeedingImages.push(fig);
-  }
+  });
 
   if (figuresNeedingImages.length === 0) {
     return resultMap;
@@ -124,7 +190,7 @@ export const fetchBatchFigureDetails = async (
                   entry.imageUrl = url;
               }
               // Update cache with the final result (desc + potential image)
-              detailsCache.set(fig.id, entry);
+              cachePut('wikiDetails', fig.id, entry);
           }
       });
   } catch (e) {
@@ -21,6 +21,22 @@ export interface HistoricalFigure {
   shortDescription?: string;
   imageUrl?: string;
   isDetailsLoading?: boolean;
+  // Result of comparing the years against Wikidata
+  factCheck?: FactCheck;
+}
+
+export type FactCheckStatus = 'verified' | 'corrected' | 'mismatch' | 'unverified';
+
+export interface FactCheck {
+  status: FactCheckStatus;
+  wikidataId?: string;
+  // Years according to Wikidata, when it has them
+  wikidataBirthYear?: number;
+  wikidataDeathYear?: number;
+  // The AI's years, kept when they were corrected
+  originalBirthYear?: number;
+  originalDeathYear?: number;
+  checkedAt: string;
 }
 
 export interface TimelineConfig {
@@ -49,24 +65,79 @@ export interface LayoutData {
   labelYearOffset?: number; // How many years from birthYear the label starts
 }
 
+export interface SourceCitation {
+  title: string;
+  url: string;
+  // The statement in the text this source supports
+  claim: string;
+}
+
 export interface DeepDiveData {
   summary: string;
   famousQuote: string;
   sections: { title: string; content: string }[];
+  // Missing in write-ups cached before sources were requested
+  sources?: SourceCitation[];
 }
 
 export interface RelationshipExplanation {
     summary: string;
     sections: { title: string; content: string }[];
+    sources?: SourceCitation[];
 }
 
 export type InteractionMode = 'select' | 'pan' | 'zoom';
 
+// Scheduler lanes, served in this order: clicks the user waits on, builds, then background loading
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+export interface RequestLimits {
+  // Requests running at the same time
+  concurrency: number;
+  // Requests started in any 60-second window; 0 for no limit
+  requestsPerMinute: number;
+}
+
+/** Per-call options of the AI service methods. Each method has its own default priority. */
+export interface RequestOptions {
+  priority?: RequestPriority;
+  // Aborting rejects the call with an AbortError, whether it is still queued or already sent
+  signal?: AbortSignal;
+}
+
+/** Options of the calls that can stream their answer */
+export interface StreamingRequestOptions<T> extends RequestOptions {
+  // Called with the answer as far as it has arrived, each time more of it does
+  onPartial?: (partial: T) => void;
+}
+
+/** What an AI call was made for, as shown in the usage panel */
+export type UsageOperation = 'build' | 'century' | 'relationships' | 'discovery' | 'explanation' | 'deepDive';
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/** USD per million tokens */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Estimated spend in USD after which further AI calls are refused; null for no cap */
+export interface SpendingCaps {
+  daily: number | null;
+  session: number | null;
+}
+
 export interface IAIService {
-  fetchHistoricalFigures(start: number, end: number): Promise<HistoricalFigure[]>;
-  fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[]): Promise<string[]>;
-  discoverRelatedFigures(target: HistoricalFigure, existingNames: string[], start: number, end: number): Promise<HistoricalFigure[]>;
-  fetchRelationshipExplanation(source: HistoricalFigure, target: HistoricalFigure): Promise<RelationshipExplanation | null>;
-  fetchFigureDeepDive(figure: HistoricalFigure): Promise<DeepDiveData | null>;
+  fetchHistoricalFigures(start: number, end: number, options?: RequestOptions): Promise<HistoricalFigure[]>;
+  // One century-sized slice of people and events, used when panning into unloaded years
+  fetchCenturyChunk(start: number, end: number, options?: RequestOptions): Promise<HistoricalFigure[]>;
+  fetchRelatedFigures(target: HistoricalFigure, allFigures: HistoricalFigure[], options?: RequestOptions): Promise<string[]>;
+  discoverRelatedFigures(target: HistoricalFigure, existingNames: string[], start: number, end: number, options?: RequestOptions): Promise<HistoricalFigure[]>;
+  fetchRelationshipExplanation(source: HistoricalFigure, target: HistoricalFigure, options?: StreamingRequestOptions<RelationshipExplanation>): Promise<RelationshipExplanation | null>;
+  fetchFigureDeepDive(figure: HistoricalFigure, options?: StreamingRequestOptions<DeepDiveData>): Promise<DeepDiveData | null>;
   testConnection(): Promise<{ success: boolean; error?: string }>;
 }
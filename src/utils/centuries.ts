@@ -0,0 +1,32 @@
+export interface YearRange {
+  start: number;
+  end: number;
+}
+
+export const CENTURY_YEARS = 100;
+// Panning further back than this does not load anything
+export const EARLIEST_LOADABLE_YEAR = -3000;
+
+/**
+ * Picks the next century to load when the visible years reach past the loaded
+ * range. Chunks are aligned to century boundaries and always adjoin the loaded
+ * range, so it stays contiguous. Returns null when nothing needs loading.
+ */
+export const getNextCenturyChunk = (
+  visible: YearRange,
+  loaded: YearRange,
+  skipStarts: Set<number> = new Set()
+): YearRange | null => {
+  if (visible.start < loaded.start && loaded.start > EARLIEST_LOADABLE_YEAR) {
+    const start = Math.max(Math.floor((loaded.start - 1) / CENTURY_YEARS) * CENTURY_YEARS, EARLIEST_LOADABLE_YEAR);
+    if (!skipStarts.has(start)) return { start, end: loaded.start };
+  }
+
+  const currentYear = new Date().getFullYear();
+  if (visible.end > loaded.end && loaded.end < currentYear) {
+    const end = Math.min(Math.floor(loaded.end / CENTURY_YEARS) * CENTURY_YEARS + CENTURY_YEARS, currentYear);
+    if (!skipStarts.has(loaded.end)) return { start: loaded.end, end };
+  }
+
+  return null;
+};
@@ -0,0 +1,40 @@
+import { SourceCitation } from '../types';
+
+// Footnotes beyond this are noise in a classroom handout
+const MAX_SOURCES = 8;
+
+/** True for absolute http(s) URLs with a dotted host name, e.g. "https://en.wikipedia.org/wiki/Plato" */
+export const isWellFormedUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value.trim());
+    return (url.protocol === 'https:' || url.protocol === 'http:') && /^[^.\s]+(\.[^.\s]+)+$/.test(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Keeps the well-formed citations from an AI response: each needs a title and
+ * a valid URL. A missing claim is allowed; duplicate URLs are dropped.
+ */
+export const sanitizeSources = (value: unknown): SourceCitation[] => {
+  if (!Array.isArray(value)) return [];
+
+  const seenUrls = new Set<string>();
+  const sources: SourceCitation[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') continue;
+    const title = typeof item.title === 'string' ? item.title.trim() : '';
+    const url = typeof item.url === 'string' ? item.url.trim() : '';
+    const claim = typeof item.claim === 'string' ? item.claim.trim() : '';
+    if (!title || !isWellFormedUrl(url) || seenUrls.has(url)) continue;
+
+    seenUrls.add(url);
+    sources.push({ title, url, claim });
+  }
+  return sources.slice(0, MAX_SOURCES);
+};
+
+/** Replaces the `sources` of a parsed deep dive or explanation with their validated form */
+export const withValidSources = <T extends { sources?: SourceCitation[] }>(data: T | null): T | null =>
+  data ? { ...data, sources: sanitizeSources(data.sources) } : null;
@@ -0,0 +1,77 @@
+import { FigureCategory, ViewState } from '../types';
+import { CATEGORY_LIST } from '../constants';
+
+/**
+ * Everything a shared link restores. The view is stored relative to `start`,
+ * so it can be re-applied to a timeline whose range starts elsewhere.
+ */
+export interface DeepLinkState {
+  start: number;
+  end: number;
+  view: ViewState | null;
+  selectedYear: number | null;
+  figureId: string | null;
+  categories: FigureCategory[];
+  query: string;
+}
+
+const parseNumber = (value: string | null): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const round = (value: number, digits: number) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+/** Serialises link state into a hash fragment (without the leading "#") */
+export const encodeDeepLink = (state: DeepLinkState): string => {
+  const params = new URLSearchParams();
+  params.set('start', String(state.start));
+  params.set('end', String(state.end));
+  if (state.view) {
+    params.set('zoom', String(round(state.view.scale, 4)));
+    params.set('x', String(Math.round(state.view.translateX)));
+    params.set('y', String(Math.round(state.view.translateY)));
+  }
+  if (state.selectedYear !== null) params.set('year', String(Math.round(state.selectedYear)));
+  if (state.figureId) params.set('figure', state.figureId);
+  if (state.categories.length > 0) params.set('categories', state.categories.join(','));
+  if (state.query) params.set('q', state.query);
+  return params.toString();
+};
+
+/**
+ * Reads link state from a hash fragment. Returns null when the hash is not a
+ * timeline link (no valid range); unknown categories and malformed numbers are ignored.
+ */
+export const parseDeepLink = (hash: string): DeepLinkState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const start = parseNumber(params.get('start'));
+  const end = parseNumber(params.get('end'));
+  if (start === null || end === null || start >= end) return null;
+
+  const scale = parseNumber(params.get('zoom'));
+  const translateX = parseNumber(params.get('x'));
+  const translateY = parseNumber(params.get('y'));
+  const view = scale !== null && scale > 0 && translateX !== null && translateY !== null
+    ? { scale, translateX, translateY }
+    : null;
+
+  const categories = (params.get('categories') || '')
+    .split(',')
+    .filter((c): c is FigureCategory => (CATEGORY_LIST as string[]).includes(c));
+
+  return {
+    start: Math.round(start),
+    end: Math.round(end),
+    view,
+    selectedYear: parseNumber(params.get('year')),
+    figureId: params.get('figure') || null,
+    categories,
+    query: params.get('q') || ''
+  };
+};
@@ -6,3 +6,41 @@ export const formatYear = (year: number | undefined | null): string => {
   }
   return year.toString();
 };
+
+/**
+ * Inverse of formatYear: "500 BC" → -500, "1492" → 1492.
+ * Also accepts BCE/AD/CE suffixes, an "AD" prefix and negative numbers.
+ * Returns null if the value is not a whole year.
+ */
+export const parseYear = (value: string | undefined | null): number | null => {
+  if (value === undefined || value === null) return null;
+  // Drop the dots in "B.C." / "A.D." but not a decimal point
+  const text = value.trim().toUpperCase().replace(/(?<!\d)\.|\.(?!\d)/g, '');
+  if (!text) return null;
+
+  const match = text.match(/^(?:(AD|CE)\s*)?(-?\d+)\s*(BC|BCE|AD|CE)?$/);
+  if (!match) return null;
+
+  const [, prefix, digits, suffix] = match;
+  const year = parseInt(digits, 10);
+  if (isNaN(year)) return null;
+
+  const isBC = suffix === 'BC' || suffix === 'BCE';
+  if (isBC) {
+    // "-500 BC" is contradictory
+    if (year < 0 || prefix) return null;
+    return -year;
+  }
+  return year;
+};
+
+/** Approximate size for display: "512 B", "3.4 KB", "12.0 MB" */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/** Estimated cost for display: "$0.0042", "$1.27" */
+export const formatCost = (usd: number): string =>
+  `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
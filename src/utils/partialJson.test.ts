@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON as is', () => {
+    expect(parsePartialJson('{"summary": "Done", "sections": []}')).toEqual({ summary: 'Done', sections: [] });
+  });
+
+  it('returns undefined until a container opens', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('Here is the')).toBeUndefined();
+  });
+
+  it('closes a string value where it stops', () => {
+    expect(parsePartialJson('{"summary": "Leonardo was a pain')).toEqual({ summary: 'Leonardo was a pain' });
+    expect(parsePartialJson('["Florence", "Mil')).toEqual(['Florence', 'Mil']);
+  });
+
+  it('drops an escape sequence cut off part way', () => {
+    expect(parsePartialJson('{"quote": "He said \\"hi\\')).toEqual({ quote: 'He said "hi' });
+    expect(parsePartialJson('{"quote": "caf\\u00')).toEqual({ quote: 'caf' });
+    // A complete escaped backslash is kept
+    expect(parsePartialJson('{"path": "C:\\\\')).toEqual({ path: 'C:\\' });
+  });
+
+  it('drops a dangling key or colon', () => {
+    expect(parsePartialJson('{"summary": "Done", "sec')).toEqual({ summary: 'Done' });
+    expect(parsePartialJson('{"summary": "Done", "sections"')).toEqual({ summary: 'Done' });
+    expect(parsePartialJson('{"summary": "Done", "sections":')).toEqual({ summary: 'Done' });
+  });
+
+  it('drops a number or literal that may still be arriving', () => {
+    expect(parsePartialJson('{"born": 1452, "died": 15')).toEqual({ born: 1452 });
+    expect(parsePartialJson('{"born": 1452, "living": tr')).toEqual({ born: 1452 });
+    expect(parsePartialJson('[1, 2, 3')).toEqual([1, 2]);
+  });
+
+  it('closes nested arrays and objects', () => {
+    expect(parsePartialJson('{"sections": [{"title": "Early life", "content": "Born in Vin'))
+      .toEqual({ sections: [{ title: 'Early life', content: 'Born in Vin' }] });
+    expect(parsePartialJson('[[1, 2], [3')).toEqual([[1, 2], []]);
+    expect(parsePartialJson('{"a": {"b": {"c": 1}, "d": [')).toEqual({ a: { b: { c: 1 }, d: [] } });
+  });
+
+  it('skips a markdown code fence around the JSON', () => {
+    expect(parsePartialJson('```json\n{"summary": "Hi"}\n```')).toEqual({ summary: 'Hi' });
+    expect(parsePartialJson('```json\n{"summary": "H')).toEqual({ summary: 'H' });
+    expect(parsePartialJson('```json\n')).toBeUndefined();
+  });
+});
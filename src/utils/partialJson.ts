@@ -0,0 +1,128 @@
+import { DeepDiveData, RelationshipExplanation } from '../types';
+
+interface Frame {
+  type: '{' | '[';
+  // Objects only: whether the next string is a key
+  expectingKey: boolean;
+}
+
+const closeFrames = (stack: Frame[]) =>
+  stack.slice().reverse().map(frame => (frame.type === '{' ? '}' : ']')).join('');
+
+/**
+ * Parses JSON that may be cut off anywhere, as it is while a response streams
+ * in. A string value that is still arriving is closed where it stops; an
+ * unfinished key, number or literal is dropped along with everything after the
+ * last complete value. Leading text such as a markdown fence is skipped.
+ * Returns undefined when nothing parseable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const start = text.search(/[{[]/);
+  if (start < 0) return undefined;
+  const source = text.slice(start);
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let isKey = false;
+  let escaped = false;
+  // End of the longest prefix that is valid once its open containers are closed
+  let safeEnd = 0;
+  let safeStack: Frame[] = [];
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeStack = stack.map(frame => ({ ...frame }));
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const top = stack[stack.length - 1];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!isKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      isKey = top?.type === '{' && top.expectingKey;
+    } else if (char === '{' || char === '[') {
+      stack.push({ type: char, expectingKey: char === '{' });
+      markSafe(i + 1);
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      markSafe(i + 1);
+      if (stack.length === 0) break;
+    } else if (char === ',') {
+      // Whatever came before the comma was complete
+      markSafe(i);
+      if (top?.type === '{') top.expectingKey = true;
+    } else if (char === ':') {
+      if (top) top.expectingKey = false;
+    }
+  }
+
+  let completed: string;
+  if (inString && !isKey) {
+    // Show the text of a string value as far as it has arrived, minus a half-sent escape
+    const body = escaped
+      ? source.slice(0, -1)
+      : source.replace(/((?:^|[^\\])(?:\\\\)*)\\u[0-9a-fA-F]{0,3}$/, '$1');
+    completed = `${body}"${closeFrames(stack)}`;
+  } else if (stack.length === 0) {
+    // Complete; anything after the closing bracket (e.g. a markdown fence) is ignored
+    completed = source.slice(0, safeEnd);
+  } else {
+    completed = `${source.slice(0, safeEnd)}${closeFrames(safeStack)}`;
+  }
+
+  try {
+    return JSON.parse(completed);
+  } catch {
+    try {
+      return safeEnd > 0 ? JSON.parse(`${source.slice(0, safeEnd)}${closeFrames(safeStack)}`) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+const readString = (value: unknown) => (typeof value === 'string' ? value : '');
+
+const readSections = (value: unknown): { title: string; content: string }[] =>
+  Array.isArray(value)
+    ? value
+      .filter(section => section && typeof section === 'object')
+      .map(section => ({ title: readString(section.title), content: readString(section.content) }))
+      .filter(section => section.title || section.content)
+    : [];
+
+/**
+ * A streamed deep dive as far as it has arrived, with missing fields left
+ * empty. Sources are left out until the response is complete.
+ */
+export const toPartialDeepDive = (value: unknown): DeepDiveData | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const data = value as Record<string, unknown>;
+  return {
+    summary: readString(data.summary),
+    famousQuote: readString(data.famousQuote),
+    sections: readSections(data.sections)
+  };
+};
+
+/** A streamed relationship explanation as far as it has arrived; see toPartialDeepDive */
+export const toPartialRelationshipExplanation = (value: unknown): RelationshipExplanation | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const data = value as Record<string, unknown>;
+  return {
+    summary: readString(data.summary),
+    sections: readSections(data.sections)
+  };
+};
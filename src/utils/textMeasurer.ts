@@ -0,0 +1,86 @@
+/**
+ * Text widths for the timeline layout. The canvas measurer asks the browser
+ * for the width of the actual font, so wide names, narrow names and
+ * non-Latin scripts all get the room they need. The heuristic measurer is the
+ * old per-character estimate; it gives the same numbers everywhere, for
+ * environments without a canvas and for reproducible layouts.
+ */
+
+export interface TextStyle {
+  fontSize: number;
+  fontWeight: number;
+  transform?: 'uppercase' | 'capitalize';
+}
+
+/** Width in pixels of `text` drawn in `style` */
+export type TextMeasurer = (text: string, style: TextStyle) => number;
+
+// Tailwind's default sans stack, which the timeline labels are rendered in
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"';
+// Measured widths kept before the cache is cleared; a large timeline needs a few thousand
+const MAX_CACHED_WIDTHS = 20000;
+
+// Character width multipliers (empirically derived)
+const CHAR_WIDTH_UPPERCASE = 0.82;  // font-black uppercase → ~18px per char
+const CHAR_WIDTH_BOLD = 0.78;       // font-bold → ~14px per char
+const CHAR_WIDTH_CAPITALIZE = 0.75; // font-bold capitalized → ~13.5px per char
+
+const applyTransform = (text: string, transform?: TextStyle['transform']) => {
+  if (transform === 'uppercase') return text.toUpperCase();
+  if (transform === 'capitalize') return text.replace(/(^|\s)(\S)/g, (_, space, letter) => space + letter.toUpperCase());
+  return text;
+};
+
+export const heuristicTextMeasurer: TextMeasurer = (text, style) => {
+  const multiplier = style.transform === 'uppercase'
+    ? CHAR_WIDTH_UPPERCASE
+    : style.transform === 'capitalize' ? CHAR_WIDTH_CAPITALIZE : CHAR_WIDTH_BOLD;
+  return text.length * style.fontSize * multiplier;
+};
+
+type MeasuringContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// OffscreenCanvas also exists in workers; the DOM canvas covers older browsers
+const createMeasuringContext = (): MeasuringContext | null => {
+  try {
+    if (typeof OffscreenCanvas !== 'undefined') {
+      return new OffscreenCanvas(1, 1).getContext('2d');
+    }
+    if (typeof document !== 'undefined') {
+      return document.createElement('canvas').getContext('2d');
+    }
+  } catch (error) {
+    console.warn("Canvas text measurement unavailable", error);
+  }
+  return null;
+};
+
+/** Measures with the browser's fonts, caching by text and style; null where no canvas is available */
+export const createCanvasTextMeasurer = (fontFamily = FONT_FAMILY): TextMeasurer | null => {
+  const context = createMeasuringContext();
+  if (!context) return null;
+
+  const cache = new Map<string, number>();
+  return (text, style) => {
+    const font = `${style.fontWeight} ${style.fontSize}px ${fontFamily}`;
+    const key = `${font}|${style.transform || ''}|${text}`;
+    const cached = cache.get(key);
+    if (cached !== undefined) return cached;
+
+    if (cache.size >= MAX_CACHED_WIDTHS) cache.clear();
+    context.font = font;
+    const width = context.measureText(applyTransform(text, style.transform)).width;
+    cache.set(key, width);
+    return width;
+  };
+};
+
+let defaultMeasurer: TextMeasurer | null = null;
+
+/** The canvas measurer where there is a canvas, otherwise the heuristic one; shared so its cache is too */
+export const getDefaultTextMeasurer = (): TextMeasurer => {
+  if (!defaultMeasurer) {
+    defaultMeasurer = createCanvasTextMeasurer() || heuristicTextMeasurer;
+  }
+  return defaultMeasurer;
+};
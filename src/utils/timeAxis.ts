@@ -0,0 +1,75 @@
+import { formatYear } from './formatters';
+import { getDefaultTextMeasurer, TextMeasurer, TextStyle } from './textMeasurer';
+
+export interface AxisTick {
+  year: number;
+  // Major ticks carry a label and a stronger grid line; minor ones subdivide them
+  isMajor: boolean;
+}
+
+export interface TimeAxis {
+  majorInterval: number;
+  minorInterval: number | null;
+  ticks: AxisTick[];
+}
+
+// Major intervals from single years through decades and centuries to millennia, each with its subdivision
+const AXIS_INTERVALS: { major: number; minor: number | null }[] = [
+  { major: 1, minor: null },
+  { major: 2, minor: 1 },
+  { major: 5, minor: 1 },
+  { major: 10, minor: 1 },
+  { major: 20, minor: 5 },
+  { major: 50, minor: 10 },
+  { major: 100, minor: 10 },
+  { major: 200, minor: 50 },
+  { major: 500, minor: 100 },
+  { major: 1000, minor: 100 },
+  { major: 2000, minor: 500 },
+  { major: 5000, minor: 1000 }
+];
+
+const LABEL_STYLE: TextStyle = { fontSize: 12, fontWeight: 700 }; // text-[12px] font-bold
+// Smallest space between two labels, and between two minor ticks
+const LABEL_GAP_PX = 16;
+const MIN_MINOR_SPACING_PX = 8;
+
+// Shown at year 0, where BC turns into AD
+export const ERA_BOUNDARY_LABEL = 'BC | AD';
+
+export const formatAxisLabel = (year: number): string =>
+  year === 0 ? ERA_BOUNDARY_LABEL : formatYear(year);
+
+/**
+ * Ticks for the years `fromYear` to `toYear` at `pixelsPerYear` on screen.
+ * The major interval is the finest one whose spacing fits the widest label
+ * in the range, so labels never overlap; minor ticks are added where they
+ * are far enough apart to tell from each other.
+ */
+export const getTimeAxis = (
+  fromYear: number,
+  toYear: number,
+  pixelsPerYear: number,
+  measureText: TextMeasurer = getDefaultTextMeasurer()
+): TimeAxis => {
+  // The label furthest from year 0, as a BC year, is the longest one in the range
+  const widestYear = Math.max(Math.abs(Math.floor(fromYear)), Math.abs(Math.ceil(toYear)));
+  const labelWidthPx = Math.max(
+    measureText(formatYear(-widestYear), LABEL_STYLE),
+    measureText(ERA_BOUNDARY_LABEL, LABEL_STYLE)
+  );
+
+  const interval = AXIS_INTERVALS.find(({ major }) => major * pixelsPerYear >= labelWidthPx + LABEL_GAP_PX)
+    || AXIS_INTERVALS[AXIS_INTERVALS.length - 1];
+  const minorInterval = interval.minor !== null && interval.minor * pixelsPerYear >= MIN_MINOR_SPACING_PX
+    ? interval.minor
+    : null;
+
+  const step = minorInterval ?? interval.major;
+  const ticks: AxisTick[] = [];
+  for (let year = Math.floor(fromYear / step) * step; year <= toYear; year += step) {
+    ticks.push({ year, isMajor: year % interval.major === 0 });
+  }
+
+  return { majorInterval: interval.major, minorInterval, ticks };
+};
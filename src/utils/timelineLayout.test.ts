@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { HistoricalFigure } from '../types';
+import { computeTimelineLayout, LayoutPlacement, TimelineLayout } from './timelineLayout';
+import { heuristicTextMeasurer } from './textMeasurer';
+
+const figure = (
+  id: string,
+  name: string,
+  birthYear: number,
+  deathYear: number,
+  occupation: string,
+  category: HistoricalFigure['category']
+): HistoricalFigure => ({ id, name, birthYear, deathYear, occupation, category });
+
+// Overlapping Renaissance lives, so several rows are needed
+const PEOPLE: HistoricalFigure[] = [
+  figure('leonardo', 'Leonardo da Vinci', 1452, 1519, 'painter', 'ARTISTS'),
+  figure('michelangelo', 'Michelangelo', 1475, 1564, 'sculptor', 'ARTISTS'),
+  figure('raphael', 'Raphael', 1483, 1520, 'painter', 'ARTISTS'),
+  figure('machiavelli', 'Niccolò Machiavelli', 1469, 1527, 'diplomat', 'THINKERS'),
+  figure('copernicus', 'Nicolaus Copernicus', 1473, 1543, 'astronomer', 'SCIENTISTS'),
+  figure('galileo', 'Galileo Galilei', 1564, 1642, 'astronomer', 'SCIENTISTS'),
+  figure('shakespeare', 'William Shakespeare', 1564, 1616, 'playwright', 'WRITERS'),
+  figure('elizabeth', 'Elizabeth I', 1533, 1603, 'queen', 'LEADERS & BADDIES')
+];
+
+// Short events get a floating label in a gap and a connector to their bar
+const EVENTS: HistoricalFigure[] = [
+  figure('bosworth', 'Battle of Bosworth', 1485, 1488, 'battle', 'EVENTS'),
+  figure('columbus', 'Voyage of Columbus', 1492, 1496, 'expedition', 'EVENTS'),
+  figure('theses', 'Ninety-five Theses', 1517, 1521, 'reformation', 'EVENTS'),
+  figure('armada', 'Spanish Armada', 1588, 1591, 'naval campaign', 'EVENTS'),
+  figure('italian-wars', 'Italian Wars', 1494, 1559, 'war', 'EVENTS')
+];
+
+// Placements without the figure objects, to keep the snapshots readable
+const toPlacements = ({ layoutData, totalRows }: TimelineLayout) => ({
+  totalRows,
+  placements: layoutData.map(({ figure, level, labelLevel, labelYearOffset }) => ({
+    id: figure.id,
+    level,
+    ...(labelLevel !== undefined ? { labelLevel, labelYearOffset } : {})
+  }))
+});
+
+const layout = (figures: HistoricalFigure[], priorityIds: string[] = [], keep?: LayoutPlacement[]) =>
+  computeTimelineLayout({ figures, priorityIds, keep }, heuristicTextMeasurer);
+
+describe('computeTimelineLayout', () => {
+  it('packs a fixed set of people into rows', () => {
+    expect(toPlacements(layout(PEOPLE))).toMatchSnapshot();
+  });
+
+  it('gives the same layout for the same input', () => {
+    expect(layout([...PEOPLE, ...EVENTS])).toEqual(layout([...PEOPLE, ...EVENTS]));
+  });
+
+  it('places priority figures first', () => {
+    const result = layout(PEOPLE, ['galileo', 'shakespeare']);
+    expect(result.layoutData.slice(0, 2).map(item => item.figure.id)).toEqual(['galileo', 'shakespeare']);
+    expect(toPlacements(result)).toMatchSnapshot();
+  });
+
+  it('keeps kept placements and slots new figures around them', () => {
+    const before = layout(PEOPLE);
+    const keep = toPlacements(before).placements;
+    const newcomers = [
+      figure('durer', 'Albrecht Dürer', 1471, 1528, 'painter', 'ARTISTS'),
+      figure('erasmus', 'Erasmus', 1466, 1536, 'theologian', 'THINKERS')
+    ];
+    const after = layout([...PEOPLE, ...newcomers], ['durer'], keep);
+
+    keep.forEach(placement => {
+      expect(after.layoutData.find(item => item.figure.id === placement.id)?.level).toBe(placement.level);
+    });
+    expect(toPlacements(after)).toMatchSnapshot();
+  });
+
+  it('places short event labels in gaps with connectors that do not cross', () => {
+    const result = layout([...PEOPLE, ...EVENTS]);
+    const shortEvents = result.layoutData.filter(item => item.figure.category === 'EVENTS' && item.figure.deathYear - item.figure.birthYear < 15);
+
+    expect(shortEvents).toHaveLength(4);
+    shortEvents.forEach(item => {
+      expect(item.labelLevel).toBeDefined();
+      expect(Math.abs(item.labelLevel! - item.level)).toBe(0.5);
+    });
+    expect(toPlacements(result)).toMatchSnapshot();
+  });
+
+  it('lays out single-year events as markers with floating labels', () => {
+    const singleYear = [
+      figure('lepanto', 'Battle of Lepanto', 1571, 1571, 'battle', 'EVENTS'),
+      figure('bartholomew', "St. Bartholomew's Day massacre", 1572, 1572, 'massacre', 'EVENTS')
+    ];
+    const result = layout([...PEOPLE, ...singleYear]);
+    const placed = result.layoutData.filter(item => item.figure.deathYear === item.figure.birthYear);
+
+    expect(placed.map(item => item.figure.id).sort()).toEqual(['bartholomew', 'lepanto']);
+    placed.forEach(item => expect(item.labelLevel).toBeDefined());
+  });
+});
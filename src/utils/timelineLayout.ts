@@ -0,0 +1,691 @@
+import { HistoricalFigure, LayoutData } from '../types';
+import { BASE_PIXELS_PER_YEAR, ROW_HEIGHT } from '../constants';
+import { formatYear } from './formatters';
+import { getDefaultTextMeasurer, TextMeasurer, TextStyle } from './textMeasurer';
+
+/**
+ * Row packing for the timeline: which row each figure's bar sits in, and
+ * which gap between rows the floating label of a short event goes to.
+ * Pure and deterministic, so it can run in the layout worker as well as on
+ * the main thread.
+ */
+
+export interface TimelineLayoutInput {
+  figures: HistoricalFigure[];
+  // Placed first, before the rest in birth order: a discovery's source and its new figures
+  priorityIds: string[];
+  // Placements to keep from the previous layout; only figures without one are slotted in
+  keep?: LayoutPlacement[];
+}
+
+/** Where one figure sits, without the figure itself */
+export interface LayoutPlacement {
+  id: string;
+  level: number;
+  labelLevel?: number;
+  labelYearOffset?: number;
+}
+
+export interface TimelineLayout {
+  layoutData: LayoutData[];
+  // Rows the canvas needs, counting labels placed in the gap below the last row
+  totalRows: number;
+}
+
+// Helper for line intersection checks (p1->p2 vs p3->p4)
+function linesIntersect(p1: {x:number, y:number}, p2: {x:number, y:number}, p3: {x:number, y:number}, p4: {x:number, y:number}): boolean {
+    const {x: x1, y: y1} = p1;
+    const {x: x2, y: y2} = p2;
+    const {x: x3, y: y3} = p3;
+    const {x: x4, y: y4} = p4;
+
+    const denom = (y4 - y3) * (x2 - x1) - (x4 - x3) * (y2 - y1);
+    if (denom === 0) return false;
+
+    const ua = ((x4 - x3) * (y1 - y3) - (y4 - y3) * (x1 - x3)) / denom;
+    const ub = ((x2 - x1) * (y1 - y3) - (y2 - y1) * (x1 - x3)) / denom;
+
+    // We use a slightly smaller range than 0-1 to allow touching endpoints but not crossing "bodies"
+    return (ua > 0.05 && ua < 0.95) && (ub > 0.05 && ub < 0.95);
+}
+
+// Label text styles (matching the Tailwind classes in TimelineCanvas)
+const NAME_STYLE: TextStyle = { fontSize: 22, fontWeight: 900, transform: 'uppercase' }; // text-[22px] font-black uppercase
+const DATE_STYLE: TextStyle = { fontSize: 18, fontWeight: 700 };                          // text-lg font-bold
+const OCCUPATION_STYLE: TextStyle = { fontSize: 18, fontWeight: 700, transform: 'capitalize' }; // text-[18px] font-bold capitalize
+
+export interface TextMeasurement {
+  nameWidthPx: number;
+  dateWidthPx: number;
+  occupationWidthPx: number;
+  totalWidthPx: number;
+  totalWidthYears: number;
+}
+
+/**
+ * Calculate accurate text width for a figure/event label
+ * @param fig - The historical figure
+ * @param isUppercase - Whether name is rendered in uppercase
+ * @param includeDate - Whether to include date width
+ * @param measureText - Measures one piece of text; the shared canvas measurer by default
+ * @returns Object with pixel and year-space widths
+ */
+export function calculateTextWidth(
+  fig: HistoricalFigure,
+  isUppercase: boolean,
+  includeDate: boolean = true,
+  measureText: TextMeasurer = getDefaultTextMeasurer()
+): TextMeasurement {
+  // Name width (always uppercase in rendering)
+  const nameWidthPx = Math.ceil(measureText(fig.name, NAME_STYLE));
+
+  // Occupation width (capitalized)
+  const occupationWidthPx = Math.ceil(measureText(fig.occupation, OCCUPATION_STYLE));
+
+  // Date width - CRITICAL: This was missing for floating labels!
+  let dateWidthPx = 0;
+  if (includeDate) {
+    const startYStr = formatYear(fig.birthYear);
+    const endYStr = fig.deathYear >= new Date().getFullYear() ? '' : formatYear(fig.deathYear);
+    // Format: "YYYY - YYYY" or "YYYY BC - YYYY" with " - " separator
+    const dateText = endYStr ? `${startYStr} - ${endYStr}` : `${startYStr} -`;
+    dateWidthPx = Math.ceil(measureText(dateText, DATE_STYLE)) + 60; // +60px padding
+  }
+
+  // Date and occupation are on the same line for floating labels, so add them together
+  // Format: "YYYY - YYYY • occupation" - add bullet separator width
+  const separatorWidthPx = Math.ceil(measureText(' • ', DATE_STYLE));
+  const dateAndOccupationWidthPx = dateWidthPx + occupationWidthPx + separatorWidthPx;
+
+  const totalWidthPx = Math.max(nameWidthPx, dateAndOccupationWidthPx);
+  const totalWidthYears = totalWidthPx / BASE_PIXELS_PER_YEAR;
+
+  return {
+    nameWidthPx,
+    dateWidthPx,
+    occupationWidthPx,
+    totalWidthPx,
+    totalWidthYears
+  };
+}
+
+/**
+ * Calculate total occupied width for collision detection
+ * Accounts for bar width, text content, and padding
+ */
+function calculateOccupiedWidth(
+  fig: HistoricalFigure,
+  forFloatingLabel: boolean,
+  measureText: TextMeasurer
+): number {
+  const duration = fig.deathYear - fig.birthYear;
+  const isEvent = fig.category === 'EVENTS';
+  const isShort = duration < 15;
+
+  // For short events in PASS 1: only the tiny bar matters; a single-year event still takes up its marker
+  if (!forFloatingLabel && isEvent && isShort) {
+    return Math.max(duration, 1);
+  }
+
+  // For floating labels - FIX: Now includes date width!
+  if (forFloatingLabel) {
+    const textMeasurement = calculateTextWidth(fig, true, true, measureText);
+
+    // Account for min-w-[200px] constraint (line 1124)
+    const MIN_FLOATING_WIDTH_PX = 200;
+    const contentWidthPx = Math.max(textMeasurement.totalWidthPx, MIN_FLOATING_WIDTH_PX);
+
+    // Add padding: pl-2 = 8px
+    const paddingPx = 8;
+    const totalWidthPx = contentWidthPx + paddingPx;
+
+    return (totalWidthPx / BASE_PIXELS_PER_YEAR) + 5; // +5 years buffer
+  }
+
+  // For standard elements
+  const textMeasurement = calculateTextWidth(fig, true, true, measureText);
+  const barWidthPx = Math.max(duration * BASE_PIXELS_PER_YEAR, 40);
+  const paddingPx = 4; // px-1 = 4px total horizontal padding
+  const maxContentWidthPx = Math.max(textMeasurement.totalWidthPx, barWidthPx) + paddingPx;
+
+  return (maxContentWidthPx / BASE_PIXELS_PER_YEAR) + 5;
+}
+
+// Helper functions for simplified short event placement
+
+function tryPlaceLabelInGap(
+    figure: HistoricalFigure,
+    gapLevel: number,
+    horizontalOffset: number,
+    labelWidth: number,
+    barLevel: number,
+    occupiedGaps: { start: number; end: number }[][],
+    placedVectors: { x1: number; y1: number; x2: number; y2: number }[]
+): { success: boolean; visualY?: number } {
+    const LABEL_MARGIN = 10;
+
+    // Don't allow negative gap levels (gap -0.5 would be above row 0, which doesn't exist)
+    if (gapLevel < 0) {
+        return { success: false };
+    }
+
+    const gapIndex = Math.floor(gapLevel);
+    const labelStart = figure.birthYear + horizontalOffset;
+    const labelEnd = labelStart + labelWidth;
+
+    // Check box collision with existing gaps
+    let hasOverlap = false;
+    if (gapIndex >= 0 && gapIndex < occupiedGaps.length) {
+        const gapIntervals = occupiedGaps[gapIndex];
+        hasOverlap = gapIntervals.some(interval =>
+            (labelStart < interval.end + LABEL_MARGIN) &&
+            (labelEnd + LABEL_MARGIN > interval.start)
+        );
+    }
+
+    if (hasOverlap) {
+        return { success: false };
+    }
+
+    // Check connector crossing with existing vectors
+    // Center labels vertically in gaps - use same offset for both directions
+    const visualOffset = 175; // Centered in gap (empirically determined)
+    const visualY = gapIndex * ROW_HEIGHT + visualOffset;
+
+    const barVecX = figure.birthYear * BASE_PIXELS_PER_YEAR;
+    const barVecY = barLevel * ROW_HEIGHT + 80;
+    const labelVecX = labelStart * BASE_PIXELS_PER_YEAR;
+
+    const hasVectorCrossing = placedVectors.some(vec =>
+        linesIntersect(
+            { x: barVecX, y: barVecY },
+            { x: labelVecX, y: visualY },
+            { x: vec.x1, y: vec.y1 },
+            { x: vec.x2, y: vec.y2 }
+        )
+    );
+
+    if (hasVectorCrossing) {
+        return { success: false };
+    }
+
+    return { success: true, visualY };
+}
+
+function removeBarInterval(
+    level: number,
+    barStartYear: number,
+    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][]
+): boolean {
+    if (level < 0 || level >= occupiedRows.length) {
+        return false;
+    }
+
+    const intervals = occupiedRows[level];
+    const barIndex = intervals.findIndex(
+        interval => interval.type === 'bar' && Math.abs(interval.start - barStartYear) < 0.1
+    );
+
+    if (barIndex === -1) {
+        return false;
+    }
+
+    intervals.splice(barIndex, 1);
+    return true;
+}
+
+function findNextAvailableRow(
+    figure: HistoricalFigure,
+    startLevel: number,
+    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][],
+    barWidth: number
+): number {
+    const MARGIN = 6;
+    const MAX_ROWS_TO_SEARCH = 20;
+
+    const collisionEnd = figure.birthYear + barWidth;
+
+    for (let searchLevel = startLevel; searchLevel < startLevel + MAX_ROWS_TO_SEARCH; searchLevel++) {
+        if (searchLevel < occupiedRows.length) {
+            const intervals = occupiedRows[searchLevel];
+            const hasOverlap = intervals.some(interval =>
+                (figure.birthYear < interval.end + MARGIN) &&
+                (collisionEnd + MARGIN > interval.start)
+            );
+
+            if (!hasOverlap) {
+                return searchLevel;
+            }
+        } else {
+            return searchLevel;
+        }
+    }
+
+    return -1;
+}
+
+function addBarInterval(
+    level: number,
+    barStartYear: number,
+    barWidth: number,
+    occupiedRows: { start: number; end: number; type: 'bar' | 'label' }[][]
+): void {
+    while (occupiedRows.length <= level) {
+        occupiedRows.push([]);
+    }
+
+    occupiedRows[level].push({
+        start: barStartYear,
+        end: barStartYear + barWidth,
+        type: 'bar'
+    });
+}
+
+function recordLabelInterval(
+    gapLevel: number,
+    labelStart: number,
+    labelWidth: number,
+    occupiedGaps: { start: number; end: number }[][]
+): void {
+    const gapIndex = Math.floor(gapLevel);
+
+    while (occupiedGaps.length <= gapIndex) {
+        occupiedGaps.push([]);
+    }
+
+    occupiedGaps[gapIndex].push({
+        start: labelStart,
+        end: labelStart + labelWidth
+    });
+}
+
+function recordConnectorVector(
+    figure: HistoricalFigure,
+    barLevel: number,
+    labelYearOffset: number,
+    labelVisualY: number,
+    placedVectors: { x1: number; y1: number; x2: number; y2: number }[]
+): void {
+    const barVecX = figure.birthYear * BASE_PIXELS_PER_YEAR;
+    const barVecY = barLevel * ROW_HEIGHT + 80;
+    const labelVecX = (figure.birthYear + labelYearOffset) * BASE_PIXELS_PER_YEAR;
+
+    placedVectors.push({
+        x1: barVecX,
+        y1: barVecY,
+        x2: labelVecX,
+        y2: labelVisualY
+    });
+}
+
+/**
+ * Places every figure in three passes: bars into the first free row, floating
+ * labels of short events into the gap above or below their bar (moving the
+ * bar down when both are taken), then a check that moves labels still
+ * overlapping to the other gap. Kept placements are reserved up front and
+ * never moved, so only the other figures go through the passes. The same
+ * input and measurer always give the same layout; pass
+ * `heuristicTextMeasurer` for one that does not depend on installed fonts.
+ */
+export function computeTimelineLayout(
+    { figures, priorityIds: priorityIdList, keep = [] }: TimelineLayoutInput,
+    measureText: TextMeasurer = getDefaultTextMeasurer()
+): TimelineLayout {
+    const priorityIds = new Set(priorityIdList);
+    const keptPlacements = new Map(keep.map(placement => [placement.id, placement]));
+
+    const keptFigures: HistoricalFigure[] = [];
+    const priorityFigures: HistoricalFigure[] = [];
+    const standardFigures: HistoricalFigure[] = [];
+
+    figures.forEach(fig => {
+        if (keptPlacements.has(fig.id)) {
+            keptFigures.push(fig);
+        } else if (priorityIds.has(fig.id)) {
+            priorityFigures.push(fig);
+        } else {
+            standardFigures.push(fig);
+        }
+    });
+
+    priorityFigures.sort((a, b) => a.birthYear - b.birthYear);
+    standardFigures.sort((a, b) => a.birthYear - b.birthYear);
+
+    // Merge: Priority -> Standard (Mixed)
+    const sortedFigures = [...priorityFigures, ...standardFigures];
+  
+    // --- PASS 1: Place Bars ---
+    // We map occupied intervals per level (row)
+    const occupiedRows: { start: number, end: number, type: 'bar' | 'label' }[][] = [];
+    // We also map "Gaps" between rows. Gap K is between Row K and Row K+1.
+    const occupiedGaps: { start: number, end: number }[][] = [];
+    const placedVectors: { x1: number, y1: number, x2: number, y2: number }[] = [];
+
+    const tempLayout: LayoutData[] = [];
+    const MARGIN = 6; 
+
+    const getOccupiedWidth = (fig: HistoricalFigure, forFloatingLabel = false) => {
+        return calculateOccupiedWidth(fig, forFloatingLabel, measureText);
+    };
+
+    // Reserve the kept bars, labels and connectors before anything new is placed
+    keptFigures.forEach(fig => {
+        const { level, labelLevel, labelYearOffset } = keptPlacements.get(fig.id)!;
+        addBarInterval(level, fig.birthYear, getOccupiedWidth(fig), occupiedRows);
+
+        if (labelLevel !== undefined && labelYearOffset !== undefined) {
+            recordLabelInterval(labelLevel, fig.birthYear + labelYearOffset, getOccupiedWidth(fig, true), occupiedGaps);
+            const visualY = Math.floor(labelLevel) * ROW_HEIGHT + 175; // Same as tryPlaceLabelInGap
+            recordConnectorVector(fig, level, labelYearOffset, visualY, placedVectors);
+            tempLayout.push({ figure: fig, level, labelLevel, labelYearOffset });
+        } else {
+            tempLayout.push({ figure: fig, level });
+        }
+    });
+    // Everything from here on was placed by this run and may still be moved
+    const firstNewIndex = tempLayout.length;
+
+    sortedFigures.forEach(fig => {
+        const width = getOccupiedWidth(fig);
+        const collisionEnd = fig.birthYear + width;
+
+        let placedLevel = -1;
+      
+        // Find first row that fits
+        for (let r = 0; r < occupiedRows.length; r++) {
+            const intervals = occupiedRows[r];
+            const hasOverlap = intervals.some(interval => {
+                return (fig.birthYear < interval.end + MARGIN) && (collisionEnd + MARGIN > interval.start);
+            });
+
+            if (!hasOverlap) {
+                placedLevel = r;
+                intervals.push({ start: fig.birthYear, end: collisionEnd, type: 'bar' });
+                break;
+            }
+        }
+
+        if (placedLevel === -1) {
+            placedLevel = occupiedRows.length;
+            occupiedRows.push([{ start: fig.birthYear, end: collisionEnd, type: 'bar' }]);
+        }
+
+        tempLayout.push({ figure: fig, level: placedLevel });
+    });
+
+    // --- PASS 2: Place Floating Labels for Short Events (Gaps Only, with Bar Relocation) ---
+    const MAX_RELOCATION_ATTEMPTS = 10;
+
+    tempLayout.slice(firstNewIndex).forEach(item => {
+        const { figure, level } = item;
+        const duration = figure.deathYear - figure.birthYear;
+        const isEvent = figure.category === 'EVENTS';
+        const isShort = duration < 15;
+
+        if (!isEvent || !isShort) return;
+
+        const labelWidth = getOccupiedWidth(figure, true);
+        // Label positioned at center of bar + 10 years offset
+        const barCenter = duration / 2;
+        const horizontalOffset = barCenter + 3;
+
+        let currentBarLevel = level;
+        let placementSuccessful = false;
+        let relocationAttempts = 0;
+
+        while (!placementSuccessful && relocationAttempts < MAX_RELOCATION_ATTEMPTS) {
+            // Try gap above first (-0.5)
+            const aboveGapLevel = currentBarLevel - 0.5;
+            const abovePlacement = tryPlaceLabelInGap(
+                figure, aboveGapLevel, horizontalOffset, labelWidth,
+                currentBarLevel, occupiedGaps, placedVectors
+            );
+
+            if (abovePlacement.success) {
+                item.level = currentBarLevel;
+                item.labelLevel = aboveGapLevel;
+                item.labelYearOffset = horizontalOffset;
+
+                recordLabelInterval(aboveGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
+                recordConnectorVector(figure, currentBarLevel, horizontalOffset, abovePlacement.visualY!, placedVectors);
+
+                placementSuccessful = true;
+                break;
+            }
+
+            // Try gap below (+0.5)
+            const belowGapLevel = currentBarLevel + 0.5;
+            const belowPlacement = tryPlaceLabelInGap(
+                figure, belowGapLevel, horizontalOffset, labelWidth,
+                currentBarLevel, occupiedGaps, placedVectors
+            );
+
+            if (belowPlacement.success) {
+                item.level = currentBarLevel;
+                item.labelLevel = belowGapLevel;
+                item.labelYearOffset = horizontalOffset;
+
+                recordLabelInterval(belowGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
+                recordConnectorVector(figure, currentBarLevel, horizontalOffset, belowPlacement.visualY!, placedVectors);
+
+                placementSuccessful = true;
+                break;
+            }
+
+            // BOTH GAPS BLOCKED: Relocate bar to next available row
+            const barWidth = getOccupiedWidth(figure, false);
+            const newBarLevel = findNextAvailableRow(
+                figure, currentBarLevel + 1, occupiedRows, barWidth
+            );
+
+            if (newBarLevel === -1) {
+                // No available rows - create new row at bottom
+                currentBarLevel = occupiedRows.length;
+                occupiedRows.push([{
+                    start: figure.birthYear,
+                    end: figure.birthYear + barWidth,
+                    type: 'bar'
+                }]);
+                relocationAttempts++;
+                continue;
+            }
+
+            // Remove old bar interval
+            removeBarInterval(currentBarLevel, figure.birthYear, occupiedRows);
+
+            // Add new bar interval
+            addBarInterval(newBarLevel, figure.birthYear, barWidth, occupiedRows);
+
+            currentBarLevel = newBarLevel;
+            relocationAttempts++;
+        }
+
+        // Emergency fallback if exhausted attempts
+        if (!placementSuccessful) {
+            // Create new row for bar and place label in gap below
+            const emergencyBarLevel = occupiedRows.length;
+            const emergencyGapLevel = emergencyBarLevel + 0.5;
+
+            item.level = emergencyBarLevel;
+            item.labelLevel = emergencyGapLevel;
+            item.labelYearOffset = horizontalOffset;
+
+            // Add bar interval to new row
+            occupiedRows.push([{
+                start: figure.birthYear,
+                end: figure.birthYear + getOccupiedWidth(figure, false),
+                type: 'bar'
+            }]);
+
+            // Record label in gap below the new row
+            recordLabelInterval(emergencyGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
+
+            // Record connector vector (bar to label below)
+            const visualOffset = 175; // Same as tryPlaceLabelInGap
+            const visualY = emergencyBarLevel * ROW_HEIGHT + visualOffset;
+            recordConnectorVector(figure, emergencyBarLevel, horizontalOffset, visualY, placedVectors);
+        }
+    });
+
+    // --- PASS 3: Post-Placement Overlap Detection & Resolution ---
+    interface OverlapInfo {
+      figureId: string;
+      layoutIndex: number;
+      overlapsWith: string[];
+      isFloatingLabel: boolean;
+    }
+
+    function detectOverlaps(): OverlapInfo[] {
+      const overlaps: OverlapInfo[] = [];
+      const OVERLAP_THRESHOLD = 2; // Years
+
+      tempLayout.forEach((item, index) => {
+        const { figure, level, labelLevel, labelYearOffset } = item;
+        const duration = figure.deathYear - figure.birthYear;
+        const isEvent = figure.category === 'EVENTS';
+        const isShort = duration < 15;
+        const hasFloatingLabel = isEvent && isShort && labelLevel !== undefined;
+
+        const overlapsWith: string[] = [];
+
+        if (hasFloatingLabel) {
+          // Check floating label overlaps
+          const labelWidth = getOccupiedWidth(figure, true);
+          const labelStart = figure.birthYear + (labelYearOffset ?? 0);
+          const labelEnd = labelStart + labelWidth;
+          const labelRow = Math.floor(labelLevel ?? level);
+
+          tempLayout.forEach((other, otherIndex) => {
+            if (index === otherIndex) return;
+
+            const otherDuration = other.figure.deathYear - other.figure.birthYear;
+            const otherIsEvent = other.figure.category === 'EVENTS';
+            const otherIsShort = otherDuration < 15;
+
+            // Check against other floating labels
+            if (otherIsEvent && otherIsShort && other.labelLevel !== undefined) {
+              const otherLabelRow = Math.floor(other.labelLevel);
+              if (Math.abs(labelRow - otherLabelRow) < 1) {
+                const otherLabelWidth = getOccupiedWidth(other.figure, true);
+                const otherLabelStart = other.figure.birthYear + (other.labelYearOffset ?? 0);
+                const otherLabelEnd = otherLabelStart + otherLabelWidth;
+
+                if ((labelStart < otherLabelEnd + OVERLAP_THRESHOLD) &&
+                    (labelEnd + OVERLAP_THRESHOLD > otherLabelStart)) {
+                  overlapsWith.push(other.figure.id);
+                }
+              }
+            }
+
+            // Skip checking against standard elements - floating labels are in gaps,
+            // which are vertically separated from row content
+            // Only check against other floating labels (already done above)
+          });
+        } else {
+          // Check standard element overlaps
+          const width = getOccupiedWidth(figure, false);
+          const end = figure.birthYear + width;
+
+          tempLayout.forEach((other, otherIndex) => {
+            if (index === otherIndex) return;
+            if (Math.abs(level - other.level) > 0.6) return; // Not in same row
+
+            const otherDuration = other.figure.deathYear - other.figure.birthYear;
+            const otherIsEvent = other.figure.category === 'EVENTS';
+            const otherIsShort = otherDuration < 15;
+
+            if (otherIsEvent && otherIsShort && other.labelLevel !== undefined) return;
+
+            const otherWidth = getOccupiedWidth(other.figure, false);
+            const otherEnd = other.figure.birthYear + otherWidth;
+
+            if ((figure.birthYear < otherEnd + OVERLAP_THRESHOLD) &&
+                (end + OVERLAP_THRESHOLD > other.figure.birthYear)) {
+              overlapsWith.push(other.figure.id);
+            }
+          });
+        }
+
+        if (overlapsWith.length > 0) {
+          overlaps.push({
+            figureId: figure.id,
+            layoutIndex: index,
+            overlapsWith,
+            isFloatingLabel: hasFloatingLabel
+          });
+        }
+      });
+
+      return overlaps;
+    }
+
+    function resolveOverlaps(overlaps: OverlapInfo[]): void {
+      // Prioritize floating labels (easier to move)
+      const sortedOverlaps = [...overlaps].sort((a, b) => {
+        if (a.isFloatingLabel && !b.isFloatingLabel) return -1;
+        if (!a.isFloatingLabel && b.isFloatingLabel) return 1;
+        return 0;
+      });
+
+      sortedOverlaps.forEach(overlap => {
+        // Kept placements stay put; whatever they overlap with is moved instead
+        if (overlap.layoutIndex < firstNewIndex) return;
+
+        const item = tempLayout[overlap.layoutIndex];
+        const { figure, level } = item;
+
+        if (overlap.isFloatingLabel) {
+          // Try to relocate floating label to opposite gap
+          const labelWidth = getOccupiedWidth(figure, true);
+          const barCenter = (figure.deathYear - figure.birthYear) / 2;
+          const horizontalOffset = barCenter + 3;
+
+          const currentLabelLevel = item.labelLevel ?? level;
+          const isCurrentlyAbove = currentLabelLevel < level;
+          const newGapLevel = isCurrentlyAbove ? level + 0.5 : level - 0.5;
+
+          const newPlacement = tryPlaceLabelInGap(
+            figure, newGapLevel, horizontalOffset, labelWidth,
+            level, occupiedGaps, placedVectors
+          );
+
+          if (newPlacement.success) {
+            // Remove old gap interval
+            const oldGapIndex = Math.floor(currentLabelLevel);
+            if (oldGapIndex >= 0 && oldGapIndex < occupiedGaps.length) {
+              const labelStart = figure.birthYear + (item.labelYearOffset ?? horizontalOffset);
+              const intervals = occupiedGaps[oldGapIndex];
+              const intervalIndex = intervals.findIndex(
+                interval => Math.abs(interval.start - labelStart) < 0.1
+              );
+              if (intervalIndex !== -1) {
+                intervals.splice(intervalIndex, 1);
+              }
+            }
+
+            // Update placement
+            item.labelLevel = newGapLevel;
+            item.labelYearOffset = horizontalOffset;
+            recordLabelInterval(newGapLevel, figure.birthYear + horizontalOffset, labelWidth, occupiedGaps);
+            recordConnectorVector(figure, level, horizontalOffset, newPlacement.visualY!, placedVectors);
+          }
+          // A label with no free gap on either side stays where it is
+        }
+        // Overlapping bars stay too; moving them would disturb rows already placed
+      });
+    }
+
+    // Execute overlap detection and resolution
+    const detectedOverlaps = detectOverlaps();
+    if (detectedOverlaps.length > 0) {
+      resolveOverlaps(detectedOverlaps);
+    }
+
+    // Determine total rows for canvas height. 
+    // We check both regular rows and if any gaps push beyond the visual bounds
+    const maxRowIndex = occupiedRows.length;
+    const maxGapIndex = occupiedGaps.length;
+    const effectiveTotalRows = Math.max(maxRowIndex, maxGapIndex + 0.5); 
+
+    return { layoutData: tempLayout, totalRows: Math.ceil(effectiveTotalRows) };
+}
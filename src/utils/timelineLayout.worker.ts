@@ -0,0 +1,30 @@
+import { computeTimelineLayout, LayoutPlacement, TimelineLayoutInput } from './timelineLayout';
+
+export interface LayoutWorkerRequest {
+  requestId: number;
+  input: TimelineLayoutInput;
+}
+
+/** Placements by figure id; the main thread pairs them with its own figure objects */
+export interface LayoutWorkerResponse {
+  requestId: number;
+  placements: LayoutPlacement[];
+  totalRows: number;
+}
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  const { requestId, input } = event.data;
+  // Text is measured on the worker's own OffscreenCanvas, with the same fonts as the page
+  const { layoutData, totalRows } = computeTimelineLayout(input);
+  const response: LayoutWorkerResponse = {
+    requestId,
+    placements: layoutData.map(({ figure, level, labelLevel, labelYearOffset }) => ({
+      id: figure.id,
+      level,
+      labelLevel,
+      labelYearOffset
+    })),
+    totalRows
+  };
+  self.postMessage(response);
+};
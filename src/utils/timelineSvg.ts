@@ -0,0 +1,379 @@
+import { FigureCategory, LayoutData } from '../types';
+import { BAR_CENTER_OFFSET, BASE_PIXELS_PER_YEAR, CATEGORY_COLORS, ROW_HEIGHT } from '../constants';
+import { getTextColorForBackground } from './colors';
+import { formatYear } from './formatters';
+import { formatAxisLabel, getTimeAxis, TimeAxis } from './timeAxis';
+import { calculateTextWidth } from './timelineLayout';
+
+// Offsets mirroring the DOM rendering in TimelineCanvas (world units at scale 1)
+const ROW_TOP_OFFSET = 60;
+const NAME_TO_BAR_OFFSET = 31.5;   // text-[22px] leading-tight + mb-1
+const BAR_HEIGHT = 28;
+const BAR_INSET_X = 4;             // px-1 on the figure wrapper
+const SHORT_EVENT_BAR_OFFSET = 32;
+const SHORT_EVENT_MAX_DURATION = 15;
+const GAP_LABEL_OFFSET = 175;
+const CONTENT_PADDING = 40;
+
+// Horizontal pull of a relationship curve's control points, as on the canvas
+const RELATIONSHIP_CURVE_PULL = 250;
+
+const BACKGROUND_COLOR = '#f4ecd8';
+const RELATIONSHIP_COLOR = '#3b82f6';
+const FONT_FAMILY = "ui-sans-serif, system-ui, -apple-system, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+// Axis bands drawn above and below the content, in output pixels
+export const AXIS_BAND_HEIGHT = 24;
+const ERA_BOUNDARY_COLOR = '#fcd34d'; // text-amber-300 on the canvas axis
+
+// Browsers refuse to allocate canvases beyond these limits
+export const MAX_CANVAS_DIMENSION = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 2;
+
+export interface TimelineRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A traced figure and the figures it is connected to */
+export interface TracedRelationships {
+  sourceId: string;
+  relatedIds: string[];
+}
+
+export interface TimelineSvgOptions {
+  layoutData: LayoutData[];
+  startYear: number;
+  // World-space area to draw (canvas content coordinates at scale 1)
+  region: TimelineRegion;
+  // Output pixels per world unit
+  scale?: number;
+  selectedCategories?: Set<FigureCategory>;
+  includeAxis?: boolean;
+  relationships?: TracedRelationships | null;
+}
+
+export interface TimelineSvgResult {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const capitalizeWords = (value: string): string =>
+  value.replace(/\b\w/g, c => c.toUpperCase());
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatLifespan = (birthYear: number, deathYear: number): string =>
+  `${formatYear(birthYear)} - ${deathYear >= new Date().getFullYear() ? '' : formatYear(deathYear)}`;
+
+const isShortEvent = (item: LayoutData) =>
+  item.figure.category === 'EVENTS' && item.figure.deathYear - item.figure.birthYear < SHORT_EVENT_MAX_DURATION;
+
+/** Label width used only to size the exported area, measured the way the layout measures it */
+const measureLabelWidth = (item: LayoutData): number =>
+  calculateTextWidth(item.figure, true).totalWidthPx;
+
+/** Top of a short event's floating label; rows with a fractional level sit in the gap between rows */
+const getShortEventLabelTop = (item: LayoutData): number => {
+  const labelLevel = item.labelLevel ?? item.level;
+  return labelLevel % 1 !== 0
+    ? Math.floor(labelLevel) * ROW_HEIGHT + GAP_LABEL_OFFSET
+    : labelLevel * ROW_HEIGHT + ROW_TOP_OFFSET - 15;
+};
+
+/** World-space bounding box of the whole timeline, including the configured year range and all labels */
+export const getTimelineContentBounds = (layoutData: LayoutData[], startYear: number, endYear: number): TimelineRegion => {
+  let minX = 0;
+  let maxX = (endYear - startYear) * BASE_PIXELS_PER_YEAR;
+  let maxLevel = 0;
+
+  layoutData.forEach(item => {
+    const { figure } = item;
+    const left = (figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR;
+    const barWidth = (figure.deathYear - figure.birthYear) * BASE_PIXELS_PER_YEAR;
+    const labelLeft = isShortEvent(item)
+      ? (figure.birthYear + (item.labelYearOffset ?? 10) - startYear) * BASE_PIXELS_PER_YEAR
+      : left;
+
+    minX = Math.min(minX, left);
+    maxX = Math.max(maxX, left + barWidth, labelLeft + measureLabelWidth(item));
+    maxLevel = Math.max(maxLevel, item.level, Math.ceil(item.labelLevel ?? 0));
+  });
+
+  return {
+    x: minX - CONTENT_PADDING,
+    y: 0,
+    width: maxX - minX + CONTENT_PADDING * 2,
+    height: (maxLevel + 1) * ROW_HEIGHT + 100
+  };
+};
+
+/** Elbow connector from a short event's bar to its floating label, matching the canvas routing */
+const renderConnector = (item: LayoutData, startYear: number, scale: number): string => {
+  const { figure, level } = item;
+  const duration = figure.deathYear - figure.birthYear;
+  const barWidth = Math.max(duration * BASE_PIXELS_PER_YEAR, 4);
+  const left = (figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR;
+  const top = level * ROW_HEIGHT + ROW_TOP_OFFSET;
+
+  const isBelow = (item.labelLevel ?? level) > level;
+  const startX = left + barWidth / 2;
+  const startY = isBelow ? top + SHORT_EVENT_BAR_OFFSET + BAR_HEIGHT : top + SHORT_EVENT_BAR_OFFSET;
+  const endX = (figure.birthYear + (item.labelYearOffset ?? 10) - startYear) * BASE_PIXELS_PER_YEAR;
+  const endY = getShortEventLabelTop(item) + 13;
+
+  const dx = endX - startX;
+  const dy = endY - startY;
+  const signX = dx > 0 ? 1 : -1;
+  const signY = dy > 0 ? 1 : -1;
+
+  // The canvas sizes the corner radius and arrow in screen pixels
+  const r = Math.min(15 / scale, Math.abs(dx), Math.abs(dy));
+  const pathD = r * scale < 2
+    ? `M ${round(startX)} ${round(startY)} L ${round(startX)} ${round(endY)} L ${round(endX)} ${round(endY)}`
+    : `M ${round(startX)} ${round(startY)} L ${round(startX)} ${round(endY - signY * r)} ` +
+      `Q ${round(startX)} ${round(endY)} ${round(startX + signX * r)} ${round(endY)} L ${round(endX)} ${round(endY)}`;
+
+  const arrowLength = 6 * Math.max(0.5, scale) / scale;
+  const wingX = endX - signX * arrowLength;
+  const arrowD = `M ${round(wingX)} ${round(endY - arrowLength * 0.6)} L ${round(endX)} ${round(endY)} L ${round(wingX)} ${round(endY + arrowLength * 0.6)}`;
+
+  const strokeAttrs = `fill="none" stroke="black" stroke-width="1.5" stroke-opacity="0.8" vector-effect="non-scaling-stroke"`;
+  return `<path d="${pathD}" ${strokeAttrs}/><path d="${arrowD}" ${strokeAttrs} stroke-linecap="round" stroke-linejoin="round"/>`;
+};
+
+/** Right end of a figure's bar, where the canvas attaches relationship lines */
+const getBarAnchor = (item: LayoutData, startYear: number) => {
+  const { figure, level } = item;
+  const barWidth = Math.max((figure.deathYear - figure.birthYear) * BASE_PIXELS_PER_YEAR, 4);
+  return {
+    x: (figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR + barWidth,
+    y: level * ROW_HEIGHT + ROW_TOP_OFFSET + BAR_CENTER_OFFSET
+  };
+};
+
+/**
+ * Curves from the traced figure to each related one. On screen they start at
+ * the floating source card; with no card in the image they start at the
+ * source figure's own bar instead.
+ */
+const renderRelationships = (
+  layoutData: LayoutData[],
+  { sourceId, relatedIds }: TracedRelationships,
+  startYear: number,
+  scale: number
+): string => {
+  const itemsById = new Map(layoutData.map(item => [item.figure.id, item]));
+  const source = itemsById.get(sourceId);
+  if (!source) return '';
+
+  const start = getBarAnchor(source, startYear);
+  const dotRadius = (radius: number) => round(radius / scale);
+  const parts: string[] = [];
+
+  relatedIds.forEach(id => {
+    const target = itemsById.get(id);
+    if (!target || id === sourceId) return;
+
+    const end = getBarAnchor(target, startYear);
+    const pull = RELATIONSHIP_CURVE_PULL * Math.sign(start.x - end.x || 1);
+    const pathD = `M ${round(start.x)} ${round(start.y)} C ${round(start.x - pull)} ${round(start.y)}, ` +
+      `${round(end.x + pull)} ${round(end.y)}, ${round(end.x)} ${round(end.y)}`;
+
+    parts.push(
+      `<path d="${pathD}" fill="none" stroke="${RELATIONSHIP_COLOR}" stroke-width="2" vector-effect="non-scaling-stroke"/>` +
+      `<circle cx="${round(end.x)}" cy="${round(end.y)}" r="${dotRadius(8)}" fill="#dbeafe"/>` +
+      `<circle cx="${round(end.x)}" cy="${round(end.y)}" r="${dotRadius(4)}" fill="${RELATIONSHIP_COLOR}"/>`
+    );
+  });
+
+  if (parts.length > 0) {
+    parts.push(`<circle cx="${round(start.x)}" cy="${round(start.y)}" r="${dotRadius(3)}" fill="${RELATIONSHIP_COLOR}"/>`);
+  }
+  return parts.join('');
+};
+
+const renderFigure = (item: LayoutData, startYear: number, isDimmed: boolean): string => {
+  const { figure, level } = item;
+  const duration = figure.deathYear - figure.birthYear;
+  const left = (figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR;
+  const top = level * ROW_HEIGHT + ROW_TOP_OFFSET;
+  const barColor = CATEGORY_COLORS[figure.category] || CATEGORY_COLORS['LEADERS & BADDIES'];
+  const name = escapeXml(figure.name.toUpperCase());
+  const lifespan = escapeXml(formatLifespan(figure.birthYear, figure.deathYear));
+  const occupation = escapeXml(capitalizeWords(figure.occupation));
+  const groupAttrs = isDimmed ? ` opacity="0.1" filter="url(#grayscale)"` : '';
+
+  if (isShortEvent(item)) {
+    const barWidth = Math.max(duration * BASE_PIXELS_PER_YEAR, 4);
+    const labelLeft = (figure.birthYear + (item.labelYearOffset ?? 10) - startYear) * BASE_PIXELS_PER_YEAR + 8;
+    const labelTop = getShortEventLabelTop(item);
+
+    return `<g${groupAttrs}>` +
+      `<rect x="${round(left)}" y="${round(top + SHORT_EVENT_BAR_OFFSET)}" width="${round(barWidth)}" height="${BAR_HEIGHT}" rx="2" fill="${barColor}"/>` +
+      `<text x="${round(labelLeft)}" y="${round(labelTop + 18)}" font-size="22" font-weight="900" fill="#000">${name}</text>` +
+      `<text x="${round(labelLeft)}" y="${round(labelTop + 41)}" font-size="18" font-weight="700" fill="#374151">${lifespan} • <tspan fill-opacity="0.9">${occupation}</tspan></text>` +
+      `</g>`;
+  }
+
+  const barWidth = Math.max(duration * BASE_PIXELS_PER_YEAR, 10);
+  const barLeft = left + BAR_INSET_X;
+  const barTop = top + NAME_TO_BAR_OFFSET;
+  const textColor = getTextColorForBackground(barColor) === 'white' ? '#fff' : '#000';
+
+  return `<g${groupAttrs}>` +
+    `<text x="${round(barLeft)}" y="${round(top + 21)}" font-size="22" font-weight="900" fill="#000">${name}</text>` +
+    `<rect x="${round(barLeft)}" y="${round(barTop)}" width="${round(barWidth)}" height="${BAR_HEIGHT}" rx="6" fill="${barColor}"/>` +
+    `<text x="${round(barLeft + 16)}" y="${round(barTop + BAR_HEIGHT / 2)}" dominant-baseline="central" font-size="18" font-weight="700" fill="${textColor}">${lifespan}</text>` +
+    `<text x="${round(barLeft)}" y="${round(barTop + BAR_HEIGHT + 22)}" font-size="18" font-weight="700" fill="#000" fill-opacity="0.9">${occupation}</text>` +
+    `</g>`;
+};
+
+const renderAxisBand = (
+  axis: TimeAxis,
+  region: TimelineRegion,
+  startYear: number,
+  scale: number,
+  width: number,
+  y: number,
+  isTop: boolean
+): string => {
+  const parts: string[] = [`<rect x="0" y="${y}" width="${round(width)}" height="${AXIS_BAND_HEIGHT}" fill="#000" fill-opacity="0.75"/>`];
+
+  axis.ticks.forEach(({ year, isMajor }) => {
+    const x = ((year - startYear) * BASE_PIXELS_PER_YEAR - region.x) * scale;
+    const tickHeight = isMajor ? 6 : 3;
+    const tickY = isTop ? y + AXIS_BAND_HEIGHT - tickHeight : y;
+    parts.push(`<rect x="${round(x - 1)}" y="${tickY}" width="2" height="${tickHeight}" fill="#fff"${isMajor ? '' : ' fill-opacity="0.6"'}/>`);
+    if (isMajor) {
+      const color = year === 0 ? ERA_BOUNDARY_COLOR : '#fff';
+      parts.push(`<text x="${round(x)}" y="${y + AXIS_BAND_HEIGHT / 2 + 1}" dominant-baseline="central" text-anchor="middle" font-size="12" font-weight="700" fill="${color}">${escapeXml(formatAxisLabel(year))}</text>`);
+    }
+  });
+
+  return parts.join('');
+};
+
+/**
+ * Renders the laid-out timeline to a standalone SVG document. Positions come
+ * straight from the canvas layout, so bars and labels land exactly where the
+ * canvas draws them, along with the lines of a traced relationship; hover and
+ * search highlights are not included.
+ */
+export const renderTimelineSvg = ({
+  layoutData,
+  startYear,
+  region,
+  scale = 1,
+  selectedCategories = new Set(),
+  includeAxis = true,
+  relationships = null
+}: TimelineSvgOptions): TimelineSvgResult => {
+  const contentWidth = Math.ceil(region.width * scale);
+  const contentHeight = Math.ceil(region.height * scale);
+  const axisHeight = includeAxis ? AXIS_BAND_HEIGHT : 0;
+  const width = contentWidth;
+  const height = contentHeight + axisHeight * 2;
+
+  const regionRight = region.x + region.width;
+  const visibleItems = layoutData.filter(item => {
+    const left = (item.figure.birthYear - startYear) * BASE_PIXELS_PER_YEAR;
+    const right = Math.max(
+      (item.figure.deathYear - startYear) * BASE_PIXELS_PER_YEAR,
+      left + measureLabelWidth(item) + (isShortEvent(item) ? (item.labelYearOffset ?? 10) * BASE_PIXELS_PER_YEAR : 0)
+    );
+    return right >= region.x && left <= regionRight;
+  });
+
+  const isDimmed = (item: LayoutData) =>
+    selectedCategories.size > 0 && !selectedCategories.has(item.figure.category);
+
+  // The same ticks as the canvas axis at this scale; grid lines are darker on major ticks and at the BC/AD boundary
+  const axis = getTimeAxis(
+    startYear + region.x / BASE_PIXELS_PER_YEAR,
+    startYear + regionRight / BASE_PIXELS_PER_YEAR,
+    BASE_PIXELS_PER_YEAR * scale
+  );
+  const grid = axis.ticks.map(({ year, isMajor }) => {
+    const x = (year - startYear) * BASE_PIXELS_PER_YEAR;
+    const opacity = year === 0 ? 0.5 : isMajor ? 0.2 : 0.07;
+    return `<line x1="${x}" y1="${round(region.y)}" x2="${x}" y2="${round(region.y + region.height)}" stroke="#000" stroke-opacity="${opacity}" stroke-width="1" vector-effect="non-scaling-stroke"/>`;
+  });
+
+  const connectors = visibleItems
+    .filter(item => isShortEvent(item) && !isDimmed(item))
+    .map(item => renderConnector(item, startYear, scale));
+  const figures = visibleItems.map(item => renderFigure(item, startYear, isDimmed(item)));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<defs><filter id="grayscale"><feColorMatrix type="saturate" values="0"/></filter>`,
+    `<clipPath id="content-clip"><rect x="0" y="${axisHeight}" width="${width}" height="${contentHeight}"/></clipPath></defs>`,
+    `<rect width="${width}" height="${height}" fill="${BACKGROUND_COLOR}"/>`,
+    `<g clip-path="url(#content-clip)">`,
+    `<g transform="translate(0 ${axisHeight}) scale(${scale}) translate(${round(-region.x)} ${round(-region.y)})">`,
+    grid.join(''),
+    figures.join(''),
+    connectors.join(''),
+    relationships ? renderRelationships(layoutData, relationships, startYear, scale) : '',
+    `</g></g>`,
+    includeAxis ? renderAxisBand(axis, region, startYear, scale, width, 0, true) : '',
+    includeAxis ? renderAxisBand(axis, region, startYear, scale, width, height - AXIS_BAND_HEIGHT, false) : '',
+    `</svg>`
+  ].join('');
+
+  return { svg, width, height };
+};
+
+/** Largest pixel ratio at which a width x height image still fits in a browser canvas */
+export const getMaxPixelRatio = (width: number, height: number): number => {
+  const byDimension = MAX_CANVAS_DIMENSION / Math.max(width, height);
+  const byArea = Math.sqrt(MAX_CANVAS_AREA / (width * height));
+  return Math.min(byDimension, byArea);
+};
+
+/** Draws an SVG document onto a canvas and encodes it as PNG */
+export const rasterizeSvg = (svg: string, width: number, height: number, pixelRatio: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const ratio = Math.min(pixelRatio, getMaxPixelRatio(width, height));
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+    const image = new Image();
+
+    image.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.floor(width * ratio);
+        canvas.height = Math.floor(height * ratio);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+        ctx.scale(ratio, ratio);
+        ctx.drawImage(image, 0, 0, width, height);
+        canvas.toBlob(blob => {
+          if (blob) resolve(blob);
+          else reject(new Error('PNG encoding failed'));
+        }, 'image/png');
+      } catch (e) {
+        reject(e);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load SVG for rasterization'));
+    };
+    image.src = url;
+  });
+};
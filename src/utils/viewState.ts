@@ -0,0 +1,8 @@
+import { ViewState } from '../types';
+import { BASE_PIXELS_PER_YEAR } from '../constants';
+
+/** Shifts a view recorded against `fromStartYear` so it shows the same years on a timeline starting at `toStartYear` */
+export const rebaseViewState = (view: ViewState, fromStartYear: number, toStartYear: number): ViewState => ({
+  ...view,
+  translateX: view.translateX + (toStartYear - fromStartYear) * BASE_PIXELS_PER_YEAR * view.scale
+});
@@ -0,0 +1,105 @@
+import { FigureCategory, LayoutData, ViewState } from '../types';
+import { BASE_PIXELS_PER_YEAR, ROW_HEIGHT } from '../constants';
+import { CENTURY_YEARS } from './centuries';
+
+/**
+ * overview: too far out to read anything; density bands and one cluster per century
+ * compact: bars and names, without occupations
+ * full: the complete cards
+ */
+export type DetailLevel = 'overview' | 'compact' | 'full';
+
+// Scales below which labels get too small for the next level up
+const OVERVIEW_MAX_SCALE = 0.35;
+const COMPACT_MAX_SCALE = 0.7;
+// Fitting a cluster never zooms in further than this
+const MAX_FIT_SCALE = 2;
+// Room left above a fitted cluster for the top axis and legend
+const FIT_TOP_OFFSET_PX = 140;
+
+export const getDetailLevel = (scale: number): DetailLevel => {
+  if (scale < OVERVIEW_MAX_SCALE) return 'overview';
+  if (scale < COMPACT_MAX_SCALE) return 'compact';
+  return 'full';
+};
+
+/** The figures starting in one century */
+export interface CenturyCluster {
+  // First year of the century, e.g. 1400 or -500
+  century: number;
+  count: number;
+  countsByCategory: Partial<Record<FigureCategory, number>>;
+  // Extent of the cluster's figures, for zooming to fit it
+  fromYear: number;
+  toYear: number;
+  fromLevel: number;
+}
+
+/** Groups figures by the century they start in, earliest century first */
+export const clusterByCentury = (layoutData: LayoutData[]): CenturyCluster[] => {
+  const clusters = new Map<number, CenturyCluster>();
+
+  layoutData.forEach(({ figure, level }) => {
+    const century = Math.floor(figure.birthYear / CENTURY_YEARS) * CENTURY_YEARS;
+    const cluster = clusters.get(century) || {
+      century,
+      count: 0,
+      countsByCategory: {},
+      fromYear: figure.birthYear,
+      toYear: figure.deathYear,
+      fromLevel: level
+    };
+
+    cluster.count++;
+    cluster.countsByCategory[figure.category] = (cluster.countsByCategory[figure.category] || 0) + 1;
+    cluster.fromYear = Math.min(cluster.fromYear, figure.birthYear);
+    cluster.toYear = Math.max(cluster.toYear, figure.deathYear);
+    cluster.fromLevel = Math.min(cluster.fromLevel, level);
+    clusters.set(century, cluster);
+  });
+
+  return Array.from(clusters.values()).sort((a, b) => a.century - b.century);
+};
+
+export interface DensityBand {
+  fromYear: number;
+  // How many figures were alive or events under way at some point in the band
+  count: number;
+}
+
+/** Figure counts per `bandYears`-wide band, for bands with at least one figure */
+export const getDensityBands = (layoutData: LayoutData[], bandYears: number): DensityBand[] => {
+  const counts = new Map<number, number>();
+
+  layoutData.forEach(({ figure }) => {
+    const first = Math.floor(figure.birthYear / bandYears);
+    const last = Math.floor(figure.deathYear / bandYears);
+    for (let band = first; band <= last; band++) {
+      counts.set(band, (counts.get(band) || 0) + 1);
+    }
+  });
+
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([band, count]) => ({ fromYear: band * bandYears, count }));
+};
+
+/**
+ * The view showing all of a cluster's years across the viewport, zoomed in
+ * at least far enough to leave the overview, with its top row under the axis.
+ */
+export const fitClusterView = (
+  cluster: CenturyCluster,
+  startYear: number,
+  viewportWidth: number
+): ViewState => {
+  const worldLeft = (cluster.fromYear - startYear) * BASE_PIXELS_PER_YEAR;
+  const worldWidth = Math.max(cluster.toYear - cluster.fromYear, 1) * BASE_PIXELS_PER_YEAR;
+  const scale = Math.min(MAX_FIT_SCALE, Math.max(OVERVIEW_MAX_SCALE, (viewportWidth * 0.9) / worldWidth));
+
+  return {
+    scale,
+    translateX: viewportWidth / 2 - (worldLeft + worldWidth / 2) * scale,
+    translateY: FIT_TOP_OFFSET_PX - cluster.fromLevel * ROW_HEIGHT * scale
+  };
+};
@@ -14,6 +14,7 @@ export default defineConfig(({ mode }) => {
       'process.env.PROVIDER': JSON.stringify(env.PROVIDER),
       'process.env.API_KEY': JSON.stringify(env.API_KEY),
       'process.env.MODEL': JSON.stringify(env.MODEL),
+      'process.env.BASE_URL': JSON.stringify(env.BASE_URL),
       'process.env.APP_MODE': JSON.stringify(mode),
     },
     resolve: {